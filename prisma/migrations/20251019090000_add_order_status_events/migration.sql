@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "backend"."order_status_events" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "backend"."OrderStatus",
+    "toStatus" "backend"."OrderStatus" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_events_orderId_createdAt_idx" ON "backend"."order_status_events"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "backend"."order_status_events" ADD CONSTRAINT "order_status_events_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "backend"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
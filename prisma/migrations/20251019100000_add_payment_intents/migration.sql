@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "backend"."PaymentIntentStatus" AS ENUM ('requires_authorization', 'authorized', 'captured', 'failed', 'cancelled', 'refunded');
+
+-- CreateTable
+CREATE TABLE "backend"."payment_intents" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerIntentId" TEXT NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "capturedAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "refundedAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "status" "backend"."PaymentIntentStatus" NOT NULL DEFAULT 'requires_authorization',
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_intents_provider_providerIntentId_key" ON "backend"."payment_intents"("provider", "providerIntentId");
+
+-- CreateIndex
+CREATE INDEX "payment_intents_orderId_idx" ON "backend"."payment_intents"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."payment_intents" ADD CONSTRAINT "payment_intents_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "backend"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
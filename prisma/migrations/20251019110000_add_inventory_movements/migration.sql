@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "backend"."InventoryMovementReason" AS ENUM ('sale', 'restock', 'adjustment', 'webhook_sync', 'return', 'transfer', 'expiry', 'reservation', 'release');
+
+-- CreateTable
+CREATE TABLE "backend"."inventory_movements" (
+    "id" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "reason" "backend"."InventoryMovementReason" NOT NULL,
+    "quantityDelta" INTEGER NOT NULL DEFAULT 0,
+    "reservedDelta" INTEGER NOT NULL DEFAULT 0,
+    "quantityAfter" INTEGER NOT NULL,
+    "reservedAfter" INTEGER NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT NOT NULL,
+    "orderId" TEXT,
+    "reservationId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inventory_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_inventoryId_createdAt_idx" ON "backend"."inventory_movements"("inventoryId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "inventory_movements_orderId_idx" ON "backend"."inventory_movements"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."inventory_movements" ADD CONSTRAINT "inventory_movements_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "backend"."store_inventory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
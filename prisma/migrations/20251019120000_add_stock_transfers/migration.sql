@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "backend"."StockTransferStatus" AS ENUM ('requested', 'approved', 'in_transit', 'received', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "backend"."stock_transfers" (
+    "id" TEXT NOT NULL,
+    "fromStoreId" TEXT NOT NULL,
+    "toStoreId" TEXT NOT NULL,
+    "status" "backend"."StockTransferStatus" NOT NULL DEFAULT 'requested',
+    "note" TEXT,
+    "requestedById" TEXT NOT NULL,
+    "approvedById" TEXT,
+    "dispatchedById" TEXT,
+    "receivedById" TEXT,
+    "cancelledById" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "dispatchedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."stock_transfer_items" (
+    "id" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantityRequested" INTEGER NOT NULL,
+    "quantityDispatched" INTEGER NOT NULL DEFAULT 0,
+    "quantityReceived" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "stock_transfer_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_fromStoreId_status_idx" ON "backend"."stock_transfers"("fromStoreId", "status");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_toStoreId_status_idx" ON "backend"."stock_transfers"("toStoreId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_transfer_items_transferId_productId_key" ON "backend"."stock_transfer_items"("transferId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."stock_transfers" ADD CONSTRAINT "stock_transfers_fromStoreId_fkey" FOREIGN KEY ("fromStoreId") REFERENCES "backend"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."stock_transfers" ADD CONSTRAINT "stock_transfers_toStoreId_fkey" FOREIGN KEY ("toStoreId") REFERENCES "backend"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."stock_transfer_items" ADD CONSTRAINT "stock_transfer_items_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "backend"."stock_transfers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "backend"."PurchaseOrderStatus" AS ENUM ('draft', 'ordered', 'partially_received', 'received', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "backend"."purchase_orders" (
+    "id" TEXT NOT NULL,
+    "poNumber" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "status" "backend"."PurchaseOrderStatus" NOT NULL DEFAULT 'draft',
+    "supplier" TEXT,
+    "note" TEXT,
+    "createdById" TEXT NOT NULL,
+    "receivedById" TEXT,
+    "orderedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "purchase_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."purchase_order_items" (
+    "id" TEXT NOT NULL,
+    "purchaseOrderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantityOrdered" INTEGER NOT NULL,
+    "quantityReceived" INTEGER NOT NULL DEFAULT 0,
+    "unitCost" DECIMAL(10,2),
+
+    CONSTRAINT "purchase_order_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_orders_poNumber_key" ON "backend"."purchase_orders"("poNumber");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_storeId_status_idx" ON "backend"."purchase_orders"("storeId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_order_items_purchaseOrderId_productId_key" ON "backend"."purchase_order_items"("purchaseOrderId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."purchase_orders" ADD CONSTRAINT "purchase_orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "backend"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."purchase_order_items" ADD CONSTRAINT "purchase_order_items_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "backend"."purchase_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
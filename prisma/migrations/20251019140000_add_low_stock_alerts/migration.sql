@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "backend"."NotificationType" ADD VALUE 'low_stock';
+
+-- CreateTable
+CREATE TABLE "backend"."low_stock_alerts" (
+    "id" TEXT NOT NULL,
+    "inventoryId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantityAvailable" INTEGER NOT NULL,
+    "reorderLevel" INTEGER NOT NULL,
+    "triggeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notifiedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "low_stock_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."low_stock_alert_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "push" BOOLEAN NOT NULL DEFAULT true,
+    "realtime" BOOLEAN NOT NULL DEFAULT true,
+    "digest" BOOLEAN NOT NULL DEFAULT false,
+    "mutedStoreIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "low_stock_alert_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "low_stock_alerts_inventoryId_triggeredAt_idx" ON "backend"."low_stock_alerts"("inventoryId", "triggeredAt");
+
+-- CreateIndex
+CREATE INDEX "low_stock_alerts_storeId_resolvedAt_idx" ON "backend"."low_stock_alerts"("storeId", "resolvedAt");
+
+-- One open alert per inventory row
+CREATE UNIQUE INDEX "low_stock_alerts_open_inventoryId_key" ON "backend"."low_stock_alerts"("inventoryId") WHERE "resolvedAt" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "low_stock_alert_preferences_userId_key" ON "backend"."low_stock_alert_preferences"("userId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."low_stock_alerts" ADD CONSTRAINT "low_stock_alerts_inventoryId_fkey" FOREIGN KEY ("inventoryId") REFERENCES "backend"."store_inventory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."low_stock_alert_preferences" ADD CONSTRAINT "low_stock_alert_preferences_userId_fkey" FOREIGN KEY ("userId") REFERENCES "backend"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
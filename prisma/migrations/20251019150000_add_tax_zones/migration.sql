@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "backend"."orders" ADD COLUMN "taxZoneId" TEXT;
+
+-- AlterTable
+ALTER TABLE "backend"."order_items" ADD COLUMN "taxRate" DECIMAL(7,5) NOT NULL DEFAULT 0,
+ADD COLUMN "taxAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN "taxExempt" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "backend"."tax_zones" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "state" TEXT,
+    "zipCodePrefix" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tax_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."tax_rates" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "rate" DECIMAL(7,5) NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."tax_exemptions" (
+    "id" TEXT NOT NULL,
+    "zoneId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tax_exemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tax_zones_country_state_idx" ON "backend"."tax_zones"("country", "state");
+
+-- CreateIndex
+CREATE INDEX "tax_rates_zoneId_effectiveFrom_idx" ON "backend"."tax_rates"("zoneId", "effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_exemptions_zoneId_categoryId_key" ON "backend"."tax_exemptions"("zoneId", "categoryId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."tax_rates" ADD CONSTRAINT "tax_rates_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "backend"."tax_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."tax_exemptions" ADD CONSTRAINT "tax_exemptions_zoneId_fkey" FOREIGN KEY ("zoneId") REFERENCES "backend"."tax_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."tax_exemptions" ADD CONSTRAINT "tax_exemptions_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "backend"."categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "backend"."delivery_zones" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "polygon" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delivery_zones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."delivery_fee_tiers" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "maxDistanceKm" DECIMAL(6,2) NOT NULL,
+    "fee" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_fee_tiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "delivery_zones_storeId_idx" ON "backend"."delivery_zones"("storeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_fee_tiers_storeId_maxDistanceKm_key" ON "backend"."delivery_fee_tiers"("storeId", "maxDistanceKm");
+
+-- AddForeignKey
+ALTER TABLE "backend"."delivery_zones" ADD CONSTRAINT "delivery_zones_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "backend"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."delivery_fee_tiers" ADD CONSTRAINT "delivery_fee_tiers_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "backend"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "backend"."promotions" ADD COLUMN "usageLimit" INTEGER,
+ADD COLUMN "perUserLimit" INTEGER,
+ADD COLUMN "timesRedeemed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "stackable" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "priority" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "backend"."applied_promotions" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "appliedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "applied_promotions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."promotion_redemptions" (
+    "id" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountAmount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promotion_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "applied_promotions_cartId_promotionId_key" ON "backend"."applied_promotions"("cartId", "promotionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promotion_redemptions_promotionId_orderId_key" ON "backend"."promotion_redemptions"("promotionId", "orderId");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_promotionId_userId_idx" ON "backend"."promotion_redemptions"("promotionId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."applied_promotions" ADD CONSTRAINT "applied_promotions_cartId_fkey" FOREIGN KEY ("cartId") REFERENCES "backend"."shopping_carts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."applied_promotions" ADD CONSTRAINT "applied_promotions_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "backend"."promotions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "backend"."promotions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "backend"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
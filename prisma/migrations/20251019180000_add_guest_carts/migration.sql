@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "backend"."shopping_carts" ALTER COLUMN "userId" DROP NOT NULL,
+ADD COLUMN "guestId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "shopping_carts_guestId_storeId_idx" ON "backend"."shopping_carts"("guestId", "storeId");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "backend"."product_lists" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."product_list_items" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "notifyBackInStock" BOOLEAN NOT NULL DEFAULT false,
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_list_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_lists_userId_name_key" ON "backend"."product_lists"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_list_items_listId_productId_key" ON "backend"."product_list_items"("listId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."product_lists" ADD CONSTRAINT "product_lists_userId_fkey" FOREIGN KEY ("userId") REFERENCES "backend"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."product_list_items" ADD CONSTRAINT "product_list_items_listId_fkey" FOREIGN KEY ("listId") REFERENCES "backend"."product_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "backend"."NotificationType" ADD VALUE 'back_in_stock';
+
+-- CreateTable
+CREATE TABLE "backend"."back_in_stock_subscriptions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "availableAt" TIMESTAMP(3),
+    "notifiedAt" TIMESTAMP(3),
+
+    CONSTRAINT "back_in_stock_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "back_in_stock_subscriptions_storeId_productId_idx" ON "backend"."back_in_stock_subscriptions"("storeId", "productId");
+
+-- CreateIndex
+CREATE INDEX "back_in_stock_subscriptions_userId_notifiedAt_idx" ON "backend"."back_in_stock_subscriptions"("userId", "notifiedAt");
+
+-- AddForeignKey
+ALTER TABLE "backend"."back_in_stock_subscriptions" ADD CONSTRAINT "back_in_stock_subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "backend"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "backend"."NotificationType" ADD VALUE 'cart_recovery';
+
+-- AlterTable
+ALTER TABLE "backend"."promotions" ALTER COLUMN "strapiId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "backend"."cart_recoveries" (
+    "id" TEXT NOT NULL,
+    "cartId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "stage" INTEGER NOT NULL,
+    "cartUpdatedAt" TIMESTAMP(3) NOT NULL,
+    "cartTotal" DECIMAL(10,2) NOT NULL,
+    "promotionId" TEXT,
+    "promoCode" TEXT,
+    "notifiedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "orderId" TEXT,
+    "convertedAt" TIMESTAMP(3),
+
+    CONSTRAINT "cart_recoveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cart_recoveries_cartId_cartUpdatedAt_stage_key" ON "backend"."cart_recoveries"("cartId", "cartUpdatedAt", "stage");
+
+-- CreateIndex
+CREATE INDEX "cart_recoveries_storeId_notifiedAt_idx" ON "backend"."cart_recoveries"("storeId", "notifiedAt");
+
+-- CreateIndex
+CREATE INDEX "cart_recoveries_cartId_convertedAt_idx" ON "backend"."cart_recoveries"("cartId", "convertedAt");
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "backend"."OrderItemStatus" AS ENUM ('ordered', 'short_picked', 'substituted', 'substitute');
+
+-- CreateEnum
+CREATE TYPE "backend"."OrderItemAdjustmentType" AS ENUM ('short_pick', 'substitution');
+
+-- CreateEnum
+CREATE TYPE "backend"."OrderItemAdjustmentStatus" AS ENUM ('pending', 'applied', 'rejected');
+
+-- AlterTable
+ALTER TABLE "backend"."order_items" ADD COLUMN "status" "backend"."OrderItemStatus" NOT NULL DEFAULT 'ordered';
+
+-- CreateTable
+CREATE TABLE "backend"."order_item_adjustments" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "type" "backend"."OrderItemAdjustmentType" NOT NULL,
+    "status" "backend"."OrderItemAdjustmentStatus" NOT NULL DEFAULT 'pending',
+    "originalQuantity" INTEGER NOT NULL,
+    "pickedQuantity" INTEGER NOT NULL,
+    "substituteProductId" TEXT,
+    "substituteProductName" TEXT,
+    "substituteQuantity" INTEGER,
+    "substituteUnitPrice" DECIMAL(10,2),
+    "reservationId" TEXT,
+    "substituteItemId" TEXT,
+    "refundAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "reason" TEXT,
+    "actorId" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_item_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_item_adjustments_orderId_idx" ON "backend"."order_item_adjustments"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_item_adjustments_orderItemId_idx" ON "backend"."order_item_adjustments"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."order_item_adjustments" ADD CONSTRAINT "order_item_adjustments_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "backend"."order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
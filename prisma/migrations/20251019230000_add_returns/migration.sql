@@ -0,0 +1,61 @@
+-- AlterEnum
+ALTER TYPE "backend"."PaymentStatus" ADD VALUE 'partially_refunded' BEFORE 'refunded';
+
+-- CreateEnum
+CREATE TYPE "backend"."ReturnStatus" AS ENUM ('requested', 'approved', 'rejected', 'received', 'refunded');
+
+-- CreateEnum
+CREATE TYPE "backend"."ReturnDisposition" AS ENUM ('restock', 'write_off');
+
+-- CreateTable
+CREATE TABLE "backend"."return_requests" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "status" "backend"."ReturnStatus" NOT NULL DEFAULT 'requested',
+    "reason" TEXT NOT NULL,
+    "resolution" TEXT,
+    "refundAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "refundedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "return_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."return_items" (
+    "id" TEXT NOT NULL,
+    "returnId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "disposition" "backend"."ReturnDisposition",
+    "refundAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "return_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "return_requests_orderId_idx" ON "backend"."return_requests"("orderId");
+
+-- CreateIndex
+CREATE INDEX "return_requests_storeId_status_idx" ON "backend"."return_requests"("storeId", "status");
+
+-- CreateIndex
+CREATE INDEX "return_requests_userId_createdAt_idx" ON "backend"."return_requests"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "return_items_returnId_orderItemId_key" ON "backend"."return_items"("returnId", "orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "backend"."return_requests" ADD CONSTRAINT "return_requests_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "backend"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."return_items" ADD CONSTRAINT "return_items_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "backend"."return_requests"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."return_items" ADD CONSTRAINT "return_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "backend"."order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
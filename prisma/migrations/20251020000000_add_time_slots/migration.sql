@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "backend"."orders" ADD COLUMN     "timeSlotId" TEXT;
+
+-- CreateTable
+CREATE TABLE "backend"."store_slot_templates" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "deliveryType" "backend"."DeliveryType" NOT NULL,
+    "slotMinutes" INTEGER NOT NULL DEFAULT 30,
+    "capacity" INTEGER NOT NULL,
+    "leadMinutes" INTEGER NOT NULL DEFAULT 60,
+    "daysAhead" INTEGER NOT NULL DEFAULT 7,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "store_slot_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "backend"."time_slots" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "deliveryType" "backend"."DeliveryType" NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "booked" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "time_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "store_slot_templates_storeId_deliveryType_key" ON "backend"."store_slot_templates"("storeId", "deliveryType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "time_slots_storeId_deliveryType_startsAt_key" ON "backend"."time_slots"("storeId", "deliveryType", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "backend"."store_slot_templates" ADD CONSTRAINT "store_slot_templates_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "backend"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."time_slots" ADD CONSTRAINT "time_slots_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "backend"."stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "backend"."orders" ADD CONSTRAINT "orders_timeSlotId_fkey" FOREIGN KEY ("timeSlotId") REFERENCES "backend"."time_slots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
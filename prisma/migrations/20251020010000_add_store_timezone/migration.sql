@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "backend"."stores" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC';
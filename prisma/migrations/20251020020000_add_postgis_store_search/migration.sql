@@ -0,0 +1,29 @@
+-- Enable PostGIS. Installed in public so its types and functions are schema-qualified below.
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA public;
+
+-- Delivery zone polygons are stored as a JSON ring of { latitude, longitude }
+-- points that joins back to its first point
+CREATE OR REPLACE FUNCTION "backend"."delivery_zone_area"(ring jsonb) RETURNS public.geometry
+LANGUAGE sql IMMUTABLE STRICT AS $$
+  SELECT public.ST_SetSRID(public.ST_MakePolygon(public.ST_AddPoint(line, public.ST_StartPoint(line))), 4326)
+  FROM (
+    SELECT public.ST_MakeLine(
+      public.ST_MakePoint((point->>'longitude')::float8, (point->>'latitude')::float8) ORDER BY position
+    ) AS line
+    FROM jsonb_array_elements(ring) WITH ORDINALITY AS points(point, position)
+  ) AS outline
+$$;
+
+-- AlterTable
+ALTER TABLE "backend"."stores" ADD COLUMN     "location" public.geography(Point, 4326)
+  GENERATED ALWAYS AS (public.ST_SetSRID(public.ST_MakePoint("longitude", "latitude"), 4326)::public.geography) STORED;
+
+-- AlterTable
+ALTER TABLE "backend"."delivery_zones" ADD COLUMN     "area" public.geometry(Polygon, 4326)
+  GENERATED ALWAYS AS ("backend"."delivery_zone_area"("polygon")) STORED;
+
+-- CreateIndex
+CREATE INDEX "stores_location_idx" ON "backend"."stores" USING GIST ("location");
+
+-- CreateIndex
+CREATE INDEX "delivery_zones_area_idx" ON "backend"."delivery_zones" USING GIST ("area");
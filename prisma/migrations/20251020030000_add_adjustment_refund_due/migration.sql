@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "backend"."order_item_adjustments" ADD COLUMN     "refundDue" DECIMAL(12,2) NOT NULL DEFAULT 0;
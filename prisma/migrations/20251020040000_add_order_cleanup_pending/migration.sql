@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "backend"."orders" ADD COLUMN     "cleanupPending" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "orders_cleanupPending_idx" ON "backend"."orders"("cleanupPending");
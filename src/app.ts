@@ -18,6 +18,10 @@ import analyticsRoutes from './routes/analytics.routes';
 import settingsRoutes from './routes/settings.routes';
 import categoryRoutes from './routes/category.routes';
 import inventoryRoutes from './routes/inventory.routes';
+import taxRoutes from './routes/tax.routes';
+import productListRoutes from './routes/product-list.routes';
+import backInStockRoutes from './routes/back-in-stock.routes';
+import returnRoutes from './routes/return.routes';
 
 // Import middleware
 import { AuthMiddleware } from './middlewares/auth.middleware';
@@ -110,6 +114,10 @@ app.use('/api/cart', cartRoutes);
 app.use('/api/orders', orderRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/settings', settingsRoutes);
+app.use('/api/tax', taxRoutes);
+app.use('/api/lists', productListRoutes);
+app.use('/api/back-in-stock', backInStockRoutes);
+app.use('/api/returns', returnRoutes);
 app.use('/webhooks', webhookRateLimit, webhookRoutes);
 
 // 404 handler
@@ -2,8 +2,11 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { ApiResponseUtil } from '../utils/api-response';
+import { roundMoney, summarizeRevenue } from '../services/pricing.service';
+import { CartRecoveryService } from '../services/cart-recovery.service';
 
 const prisma = new PrismaClient();
+const cartRecoveryService = new CartRecoveryService();
 
 export class AnalyticsController {
 
@@ -48,7 +51,7 @@ export class AnalyticsController {
         totalRevenue: totalRevenueAmount,
         totalProducts,
         activeStores,
-        averageOrderValue: totalOrders > 0 ? totalRevenueAmount / totalOrders : 0,
+        averageOrderValue: totalOrders > 0 ? roundMoney(totalRevenueAmount / totalOrders) : 0,
         recentOrders,
         topProducts: [] // Can fill later from OrderItems
       };
@@ -94,6 +97,16 @@ export class AnalyticsController {
         take: 10
       });
 
+      // Revenue split into the pricing pipeline's parts
+      const revenueTotals = await prisma.order.aggregate({
+        where: {
+          createdAt: { gte: startDate, lte: now },
+          status: { not: 'cancelled' },
+          ...storeFilter,
+        },
+        _sum: { totalAmount: true, taxAmount: true, deliveryFee: true, discountAmount: true },
+      });
+
       const storePerformance = await prisma.order.groupBy({
         by: ['storeId'],
         where: { createdAt: { gte: startDate, lte: now }, ...storeFilter },
@@ -121,7 +134,13 @@ export class AnalyticsController {
           storeId: item.storeId,
           revenue: Number(item?._sum?.totalAmount || 0),
           orders: item?._count?.id || 0
-        }))
+        })),
+        revenue: summarizeRevenue({
+          totalAmount: Number(revenueTotals._sum.totalAmount || 0),
+          taxAmount: Number(revenueTotals._sum.taxAmount || 0),
+          deliveryFee: Number(revenueTotals._sum.deliveryFee || 0),
+          discountAmount: Number(revenueTotals._sum.discountAmount || 0),
+        }),
       };
 
       return ApiResponseUtil.success(res, analytics, 'Sales analytics retrieved successfully');
@@ -189,4 +208,31 @@ export class AnalyticsController {
       return ApiResponseUtil.internalError(res, 'Failed to retrieve store analytics');
     }
   }
+
+  // Reminders sent for abandoned carts in the period and how many led to an order
+  async getCartRecoveryAnalytics(req: Request, res: Response) {
+    try {
+      const { period = '30d' } = req.query;
+      const { userId, role } = req.user as any;
+      const storeFilter = await this.getStoreFilter(role, userId);
+
+      const startDate = new Date();
+      const periods: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+      startDate.setDate(startDate.getDate() - (periods[period as string] || 30));
+
+      const summary = await cartRecoveryService.getSummary({
+        notifiedAt: { gte: startDate },
+        ...storeFilter,
+      });
+
+      return ApiResponseUtil.success(
+        res,
+        { period, ...summary },
+        'Cart recovery analytics retrieved successfully'
+      );
+    } catch (error) {
+      console.error('Error getting cart recovery analytics:', error);
+      return ApiResponseUtil.internalError(res, 'Failed to retrieve cart recovery analytics');
+    }
+  }
 }
@@ -22,7 +22,10 @@ export class AuthController {
       const validatedData = registerSchema.parse(req.body);
 
       // Register user
-      const result = await this.authService.register(validatedData);
+      const result = await this.authService.register(
+        validatedData,
+        req.headers['x-cart-token'] as string | undefined
+      );
 
       ApiResponseUtil.created(res, {
         user: result.user,
@@ -61,7 +64,8 @@ export class AuthController {
       const result = await this.authService.login(
         validatedData.email,
         validatedData.password,
-        deviceInfo
+        deviceInfo,
+        req.headers['x-cart-token'] as string | undefined
       );
 
       ApiResponseUtil.success(res, {
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { BackInStockService, subscribeSchema } from '../services/back-in-stock.service';
+
+export class BackInStockController {
+  private backInStockService: BackInStockService;
+
+  constructor() {
+    this.backInStockService = new BackInStockService();
+  }
+
+  // List the user's open back-in-stock subscriptions
+  listSubscriptions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const subscriptions = await this.backInStockService.listSubscriptions(this.getUserId(req));
+
+      res.json({
+        success: true,
+        data: { subscriptions },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing subscriptions');
+    }
+  };
+
+  // Subscribe to a store/product pair
+  subscribe = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = subscribeSchema.parse(req.body);
+      const subscription = await this.backInStockService.subscribe(this.getUserId(req), data);
+
+      res.status(201).json({
+        success: true,
+        message: "We'll let you know when it's back in stock",
+        data: { subscription },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'subscribing');
+    }
+  };
+
+  // Cancel a subscription
+  unsubscribe = async (req: Request, res: Response): Promise<void> => {
+    try {
+      await this.backInStockService.unsubscribe(this.getUserId(req), req.params.subscriptionId);
+
+      res.json({
+        success: true,
+        message: 'Subscription cancelled',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'unsubscribing');
+    }
+  };
+
+  private getUserId(req: Request): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new Error('Unauthorized');
+    }
+    return userId;
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === 'Store not found' || error.message === 'Subscription not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === 'Product is in stock at this store') {
+        res.status(409).json({ success: false, message: error.message });
+        return;
+      }
+    }
+
+    console.error(`[BackInStock] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import {
+  CartOwner,
   CartService,
   addToCartSchema,
+  moveCartSchema,
   updateCartItemSchema,
   promoCodeSchema,
 } from '../services/cart.service';
@@ -17,17 +19,9 @@ export class CartController {
   // Get cart
   getCart = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
       const { storeId } = req.query;
 
-      if (!userId) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required',
-        });
-        return;
-      }
-
       if (!storeId || typeof storeId !== 'string') {
         res.status(400).json({
           success: false,
@@ -36,7 +30,8 @@ export class CartController {
         return;
       }
 
-      const cart = await this.cartService.getCartWithItems(userId, storeId);
+      // A guest without a cart token has no cart yet
+      const cart = owner ? await this.cartService.getCartWithItems(owner, storeId) : null;
 
       if (!cart) {
         res.json({
@@ -62,28 +57,107 @@ export class CartController {
     }
   };
 
-  // Add item to cart
-  addToCart = async (req: Request, res: Response): Promise<void> => {
+  // Get every active cart of the user or guest, across stores
+  getAllCarts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const owner = this.getCartOwner(req);
+      const carts = owner ? await this.cartService.getAllCarts(owner) : [];
+
+      res.json({
+        success: true,
+        data: { carts },
+      });
+    } catch (error) {
+      console.error('[Cart] Error getting carts:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+
+  // Move a cart to another store
+  moveCart = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
 
-      if (!userId) {
+      if (!owner) {
         res.status(401).json({
           success: false,
-          message: 'Authentication required',
+          message: 'Authentication or a cart token is required',
+        });
+        return;
+      }
+
+      // Validate request body
+      const validatedData = moveCartSchema.parse(req.body);
+
+      const result = await this.cartService.moveCartToStore(owner, validatedData);
+
+      res.json({
+        success: true,
+        message:
+          result.unavailable.length > 0
+            ? 'Cart moved; some items are not available at this store'
+            : 'Cart moved successfully',
+        data: result,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Validation error',
+          errors: error.errors,
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error instanceof Error) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
         });
         return;
       }
 
+      console.error('[Cart] Error moving cart:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+
+  // Add item to cart
+  addToCart = async (req: Request, res: Response): Promise<void> => {
+    try {
       // Validate request body
       const validatedData = addToCartSchema.parse(req.body);
 
-      const cart = await this.cartService.addToCart(userId, validatedData);
+      // A guest without a valid cart token starts a new guest cart; the
+      // client sends the returned token with its next cart requests
+      let owner = this.getCartOwner(req);
+      let cartToken: string | undefined;
+      if (!owner) {
+        const guest = this.cartService.issueCartToken();
+        owner = { guestId: guest.guestId };
+        cartToken = guest.cartToken;
+      }
+
+      const cart = await this.cartService.addToCart(owner, validatedData);
 
       res.json({
         success: true,
         message: 'Item added to cart successfully',
-        data: { cart },
+        data: { cart, ...(cartToken && { cartToken }) },
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -95,6 +169,16 @@ export class CartController {
         return;
       }
 
+      // Out of stock here: the client can offer a back-in-stock subscription
+      if (error instanceof Error && error.message === 'Product not available in this store') {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+          data: { canSubscribe: true, subscribeUrl: '/api/back-in-stock' },
+        });
+        return;
+      }
+
       if (error instanceof Error) {
         res.status(400).json({
           success: false,
@@ -114,13 +198,13 @@ export class CartController {
   // Update cart item
   updateCartItem = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
       const { itemId } = req.params;
 
-      if (!userId) {
+      if (!owner) {
         res.status(401).json({
           success: false,
-          message: 'Authentication required',
+          message: 'Authentication or a cart token is required',
         });
         return;
       }
@@ -136,7 +220,7 @@ export class CartController {
       // Validate request body
       const validatedData = updateCartItemSchema.parse(req.body);
 
-      const cart = await this.cartService.updateCartItem(userId, itemId, validatedData);
+      const cart = await this.cartService.updateCartItem(owner, itemId, validatedData);
 
       res.json({
         success: true,
@@ -172,13 +256,13 @@ export class CartController {
   // Remove cart item
   removeCartItem = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
       const { itemId } = req.params;
 
-      if (!userId) {
+      if (!owner) {
         res.status(401).json({
           success: false,
-          message: 'Authentication required',
+          message: 'Authentication or a cart token is required',
         });
         return;
       }
@@ -191,7 +275,7 @@ export class CartController {
         return;
       }
 
-      const cart = await this.cartService.removeCartItem(userId, itemId);
+      const cart = await this.cartService.removeCartItem(owner, itemId);
 
       res.json({
         success: true,
@@ -218,13 +302,13 @@ export class CartController {
   // Clear cart
   clearCart = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
       const { storeId } = req.query;
 
-      if (!userId) {
+      if (!owner) {
         res.status(401).json({
           success: false,
-          message: 'Authentication required',
+          message: 'Authentication or a cart token is required',
         });
         return;
       }
@@ -237,7 +321,7 @@ export class CartController {
         return;
       }
 
-      await this.cartService.clearCart(userId, storeId);
+      await this.cartService.clearCart(owner, storeId);
 
       res.json({
         success: true,
@@ -255,13 +339,13 @@ export class CartController {
   // Apply promo code
   applyPromoCode = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
       const { storeId } = req.query;
 
-      if (!userId) {
+      if (!owner) {
         res.status(401).json({
           success: false,
-          message: 'Authentication required',
+          message: 'Authentication or a cart token is required',
         });
         return;
       }
@@ -277,7 +361,7 @@ export class CartController {
       // Validate request body
       const validatedData = promoCodeSchema.parse(req.body);
 
-      const result = await this.cartService.applyPromoCode(userId, storeId, validatedData);
+      const result = await this.cartService.applyPromoCode(owner, storeId, validatedData);
 
       res.json({
         success: true,
@@ -301,16 +385,63 @@ export class CartController {
     }
   };
 
+  // Remove promo code
+  removePromoCode = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const owner = this.getCartOwner(req);
+      const { storeId } = req.query;
+      const { code } = req.params;
+
+      if (!owner) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication or a cart token is required',
+        });
+        return;
+      }
+
+      if (!storeId || typeof storeId !== 'string') {
+        res.status(400).json({
+          success: false,
+          message: 'Store ID is required',
+        });
+        return;
+      }
+
+      const cart = await this.cartService.removePromoCode(owner, storeId, code);
+
+      res.json({
+        success: true,
+        message: 'Promo code removed',
+        data: { cart },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Promo code not found on cart') {
+        res.status(404).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      console.error('[Cart] Error removing promo code:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+
   // Get cart summary
   getCartSummary = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
       const { storeId } = req.query;
 
-      if (!userId) {
+      if (!owner) {
         res.status(401).json({
           success: false,
-          message: 'Authentication required',
+          message: 'Authentication or a cart token is required',
         });
         return;
       }
@@ -323,7 +454,7 @@ export class CartController {
         return;
       }
 
-      const summary = await this.cartService.getCartSummary(userId, storeId);
+      const summary = await this.cartService.getCartSummary(owner, storeId);
 
       res.json({
         success: true,
@@ -341,13 +472,13 @@ export class CartController {
   // Validate cart for checkout
   validateCart = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = (req as any).user?.userId;
+      const owner = this.getCartOwner(req);
       const { storeId } = req.query;
 
-      if (!userId) {
+      if (!owner) {
         res.status(401).json({
           success: false,
-          message: 'Authentication required',
+          message: 'Authentication or a cart token is required',
         });
         return;
       }
@@ -360,7 +491,7 @@ export class CartController {
         return;
       }
 
-      const validation = await this.cartService.validateCartForCheckout(userId, storeId);
+      const validation = await this.cartService.validateCartForCheckout(owner, storeId);
 
       res.json({
         success: true,
@@ -374,4 +505,18 @@ export class CartController {
       });
     }
   };
+
+  // Whose cart a request works on: the signed-in user's, else the guest's
+  // named by the X-Cart-Token header
+  private getCartOwner(req: Request): CartOwner | null {
+    const userId = req.user?.userId;
+    if (userId) {
+      return { userId };
+    }
+
+    const cartToken = req.headers['x-cart-token'];
+    const guestId =
+      typeof cartToken === 'string' ? this.cartService.verifyCartToken(cartToken) : null;
+    return guestId ? { guestId } : null;
+  }
 }
@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  DeliveryActor,
+  DeliveryService,
+  createDeliveryZoneSchema,
+  deliveryFeeTiersSchema,
+  deliveryQuoteSchema,
+} from '../services/delivery.service';
+
+export class DeliveryController {
+  private deliveryService: DeliveryService;
+
+  constructor() {
+    this.deliveryService = new DeliveryService();
+  }
+
+  // Whether a store delivers to a location, with the fee and minimum order
+  getQuote = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const point = deliveryQuoteSchema.parse(req.query);
+      const quote = await this.deliveryService.getDeliveryQuote(req.params.storeId, point);
+
+      res.json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'quoting delivery');
+    }
+  };
+
+  // List a store's delivery zones
+  listZones = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const zones = await this.deliveryService.listZones(req.params.storeId, this.getActor(req));
+
+      res.json({
+        success: true,
+        data: zones,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing delivery zones');
+    }
+  };
+
+  // Add a polygon delivery zone to a store
+  createZone = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = createDeliveryZoneSchema.parse(req.body);
+      const zone = await this.deliveryService.createZone(
+        req.params.storeId,
+        data,
+        this.getActor(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Delivery zone created',
+        data: zone,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'creating delivery zone');
+    }
+  };
+
+  // Remove a delivery zone
+  deleteZone = async (req: Request, res: Response): Promise<void> => {
+    try {
+      await this.deliveryService.deleteZone(
+        req.params.storeId,
+        req.params.zoneId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Delivery zone deleted',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'deleting delivery zone');
+    }
+  };
+
+  // Get a store's distance fee tiers
+  getFeeTiers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tiers = await this.deliveryService.getFeeTiers(req.params.storeId, this.getActor(req));
+
+      res.json({
+        success: true,
+        data: tiers,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting delivery fee tiers');
+    }
+  };
+
+  // Replace a store's distance fee tiers
+  replaceFeeTiers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { tiers } = deliveryFeeTiersSchema.parse(req.body);
+      const saved = await this.deliveryService.replaceFeeTiers(
+        req.params.storeId,
+        tiers,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Delivery fee tiers updated',
+        data: saved,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'updating delivery fee tiers');
+    }
+  };
+
+  private getActor(req: Request): DeliveryActor {
+    const user = req.user as any;
+    return { userId: user.userId, role: user.role };
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === 'Store not found' || error.message === 'Delivery zone not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+    }
+
+    console.error(`[Delivery] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
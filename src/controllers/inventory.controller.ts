@@ -1,8 +1,22 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
 import { ApiResponseUtil } from '../utils/api-response';
+import {
+  InventoryMovementService,
+  movementQuerySchema,
+} from '../services/inventory-movement.service';
+import {
+  InventoryImportService,
+  exportQuerySchema,
+  importOptionsSchema,
+} from '../services/inventory-import.service';
+import { LowStockAlertService } from '../services/low-stock-alert.service';
 
 const prisma = new PrismaClient();
+const movementService = new InventoryMovementService();
+const importService = new InventoryImportService();
+const lowStockAlertService = new LowStockAlertService();
 
 export class InventoryController {
   async getInventory(req: Request, res: Response) {
@@ -120,7 +134,7 @@ export class InventoryController {
   async updateInventory(req: Request, res: Response) {
     try {
       const { id } = req.params;
-      const { quantityAvailable, reorderLevel, isActive } = req.body;
+      const { quantityAvailable, reorderLevel, isActive, reason, note } = req.body;
       const { userId, role } = req.user as any;
 
       const where: any = { id };
@@ -138,23 +152,169 @@ export class InventoryController {
         return ApiResponseUtil.notFound(res, 'Inventory item not found');
       }
 
-      const inventory = await prisma.storeInventory.update({
-        where: { id },
-        data: {
-          ...(quantityAvailable !== undefined && { quantityAvailable }),
-          ...(reorderLevel !== undefined && { reorderLevel }),
-          ...(isActive !== undefined && { isActive })
-        },
-        include: {
-          product: true,
-          store: true
+      if (reason !== undefined && reason !== 'adjustment' && reason !== 'restock') {
+        return ApiResponseUtil.badRequest(res, 'Reason must be adjustment or restock');
+      }
+
+      const inventory = await prisma.$transaction(async (tx: any) => {
+        // Stock changes are written through the movement ledger
+        if (quantityAvailable !== undefined) {
+          const movement = await movementService.setLevels(tx, {
+            inventoryId: id,
+            quantityAvailable,
+            reason: reason || 'adjustment',
+            actor: { userId, role },
+            note,
+          });
+
+          if (movement && movement.reason === 'restock' && movement.quantityDelta > 0) {
+            await tx.storeInventory.update({
+              where: { id },
+              data: { lastRestocked: new Date() },
+            });
+          }
         }
+
+        const updated = await tx.storeInventory.update({
+          where: { id },
+          data: {
+            ...(reorderLevel !== undefined && { reorderLevel }),
+            ...(isActive !== undefined && { isActive })
+          },
+          include: {
+            product: true,
+            store: true
+          }
+        });
+
+        // A new reorder level can open or resolve the low-stock alert
+        if (reorderLevel !== undefined) {
+          await lowStockAlertService.syncAlert(tx, updated);
+        }
+
+        return updated;
       });
 
       return ApiResponseUtil.success(res, inventory, 'Inventory updated successfully');
     } catch (error) {
+      if (error instanceof Error && error.message === 'Quantity available cannot be negative') {
+        return ApiResponseUtil.badRequest(res, error.message);
+      }
       console.error('Error updating inventory:', error);
       return ApiResponseUtil.internalError(res, 'Failed to update inventory');
     }
   }
+
+  async getInventoryMovements(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+      const { userId, role } = req.user as any;
+      const query = movementQuerySchema.parse(req.query);
+
+      const where: any = { id };
+
+      // Filter by store if user is manager
+      if (role === 'manager') {
+        where.store = { managerId: userId };
+      }
+
+      const inventory = await prisma.storeInventory.findFirst({ where });
+
+      if (!inventory) {
+        return ApiResponseUtil.notFound(res, 'Inventory item not found');
+      }
+
+      const { movements, total } = await movementService.getMovements(id, query);
+
+      return ApiResponseUtil.paginated(
+        res,
+        movements,
+        {
+          page: query.page,
+          pageSize: query.limit,
+          pageCount: Math.ceil(total / query.limit),
+          total,
+        },
+        'Inventory movements retrieved successfully'
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error);
+      }
+      console.error('Error getting inventory movements:', error);
+      return ApiResponseUtil.internalError(res, 'Failed to retrieve inventory movements');
+    }
+  }
+
+  async importInventory(req: Request, res: Response) {
+    try {
+      const { userId, role } = req.user as any;
+      const { dryRun } = importOptionsSchema.parse(req.query);
+
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
+        return ApiResponseUtil.badRequest(
+          res,
+          'Send the CSV as the request body (Content-Type: text/csv)'
+        );
+      }
+
+      const report = await importService.importInventory(req.body, dryRun, { userId, role });
+
+      if (!dryRun && !report.applied) {
+        const errors: Record<string, string[]> = {};
+        report.errors.forEach(rowError => {
+          errors[`line ${rowError.line}`] = rowError.errors;
+        });
+        return ApiResponseUtil.error(res, 'Import has errors, nothing was applied', 422, errors);
+      }
+
+      return ApiResponseUtil.success(
+        res,
+        report,
+        dryRun ? 'Import validated (dry run)' : 'Inventory imported successfully'
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error);
+      }
+      if (error instanceof Error && error.message === 'Unauthorized') {
+        return ApiResponseUtil.forbidden(res, 'Store manager access required');
+      }
+      if (error instanceof Error && /^(Invalid CSV|CSV )/.test(error.message)) {
+        return ApiResponseUtil.badRequest(res, error.message);
+      }
+      console.error('Error importing inventory:', error);
+      return ApiResponseUtil.internalError(res, 'Failed to import inventory');
+    }
+  }
+
+  async exportInventory(req: Request, res: Response) {
+    try {
+      const { userId, role } = req.user as any;
+      const query = exportQuerySchema.parse(req.query);
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="inventory-${date}.csv"`);
+
+      await importService.exportInventory(res, query, { userId, role });
+    } catch (error) {
+      if (res.headersSent) {
+        // The stream already started; all we can do is cut it short
+        console.error('Error streaming inventory export:', error);
+        res.end();
+        return;
+      }
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      if (error instanceof z.ZodError) {
+        return ApiResponseUtil.validationError(res, error);
+      }
+      if (error instanceof Error && error.message === 'Unauthorized') {
+        return ApiResponseUtil.forbidden(res, 'Store manager access required');
+      }
+      console.error('Error exporting inventory:', error);
+      return ApiResponseUtil.internalError(res, 'Failed to export inventory');
+    }
+  }
 }
@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  AlertActor,
+  LowStockAlertService,
+  alertPreferencesSchema,
+  listAlertsSchema,
+} from '../services/low-stock-alert.service';
+
+export class LowStockAlertController {
+  private alertService: LowStockAlertService;
+
+  constructor() {
+    this.alertService = new LowStockAlertService();
+  }
+
+  // List a store's low-stock alerts
+  listAlerts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = listAlertsSchema.parse(req.query);
+      const { alerts, total } = await this.alertService.listAlerts(query, this.getActor(req));
+
+      res.json({
+        success: true,
+        data: {
+          alerts,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            totalPages: Math.ceil(total / query.limit),
+          },
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing low-stock alerts');
+    }
+  };
+
+  // Get the current user's alert preferences
+  getPreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const preferences = await this.alertService.getPreferences(this.getActor(req).userId);
+
+      res.json({
+        success: true,
+        data: preferences,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting alert preferences');
+    }
+  };
+
+  // Update the current user's alert preferences
+  updatePreferences = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = alertPreferencesSchema.parse(req.body);
+      const preferences = await this.alertService.updatePreferences(
+        this.getActor(req).userId,
+        data
+      );
+
+      res.json({
+        success: true,
+        message: 'Alert preferences updated',
+        data: preferences,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'updating alert preferences');
+    }
+  };
+
+  private getActor(req: Request): AlertActor {
+    const user = req.user as any;
+    return { userId: user.userId, role: user.role };
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      res.status(403).json({ success: false, message: error.message });
+      return;
+    }
+
+    console.error(`[LowStock] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
-import { MonitoringService } from '../services/monitoring.service';
+import { MonitoringService, monitoringService } from '../services/monitoring.service';
+import { schedulerService } from '../services/scheduler.service';
 
 export class MetricsController {
   private monitoringService: MonitoringService;
@@ -214,10 +215,55 @@ export class MetricsController {
 
 export const getMetrics = async (req: Request, res: Response) => {
   try {
-    const metrics = await MonitoringService.getMetrics();
+    const [metrics, schedulerMetrics] = await Promise.all([
+      monitoringService.getMetrics(),
+      schedulerService.getMetrics(),
+    ]);
     res.set('Content-Type', 'text/plain');
-    res.send(metrics);
+    res.send(`${metrics}\n${schedulerMetrics}`);
   } catch (error) {
     res.status(500).json({ success: false, message: 'Failed to get metrics', error });
   }
 };
+
+// Scheduled jobs with their last run status and duration
+export const getJobMetrics = async (req: Request, res: Response) => {
+  try {
+    const jobs = await schedulerService.getJobs();
+    res.json({ success: true, message: 'Scheduled jobs retrieved successfully', data: jobs });
+  } catch (error) {
+    console.error('Job metrics error:', error);
+    res.status(500).json({ success: false, message: 'Failed to retrieve scheduled jobs' });
+  }
+};
+
+// Trigger a scheduled job manually (admin only)
+export const runJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name } = req.params;
+
+    if (!schedulerService.hasJob(name)) {
+      res.status(404).json({ success: false, message: `Unknown job: ${name}` });
+      return;
+    }
+
+    const execution = await schedulerService.execute(name);
+
+    if (!execution.executed) {
+      res.status(409).json({
+        success: false,
+        message: 'Job is already running on another instance',
+      });
+      return;
+    }
+
+    res.json({
+      success: execution.run.status === 'success',
+      message: `Job ${name} ${execution.run.status}`,
+      data: execution.run,
+    });
+  } catch (error) {
+    console.error('Run job error:', error);
+    res.status(500).json({ success: false, message: 'Failed to run job' });
+  }
+};
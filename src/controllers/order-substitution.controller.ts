@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { OrderActor } from '../services/order-lifecycle.service';
+import {
+  OrderSubstitutionService,
+  proposeSubstitutionSchema,
+  shortPickSchema,
+  substitutionResponseSchema,
+} from '../services/order-substitution.service';
+
+export class OrderSubstitutionController {
+  private substitutionService: OrderSubstitutionService;
+
+  constructor() {
+    this.substitutionService = new OrderSubstitutionService();
+  }
+
+  // List the short picks and substitutions on an order
+  getAdjustments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const adjustments = await this.substitutionService.getAdjustments(req.params.orderId, {
+        userId: this.getUserId(req),
+        role: req.user?.role || 'customer',
+      });
+
+      res.json({
+        success: true,
+        data: { adjustments },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing order adjustments');
+    }
+  };
+
+  // Mark an order line as short-picked (store manager)
+  shortPick = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = shortPickSchema.parse(req.body);
+      const adjustment = await this.substitutionService.shortPick(
+        req.params.orderId,
+        req.params.itemId,
+        data,
+        this.getManagerActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Item short-picked',
+        data: { adjustment },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'short-picking order item');
+    }
+  };
+
+  // Offer a substitute for an order line (store manager)
+  proposeSubstitution = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = proposeSubstitutionSchema.parse(req.body);
+      const adjustment = await this.substitutionService.proposeSubstitution(
+        req.params.orderId,
+        req.params.itemId,
+        data,
+        this.getManagerActor(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Substitution sent to the customer',
+        data: { adjustment },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'proposing substitution');
+    }
+  };
+
+  // Approve or reject a substitution (customer). Also available over the
+  // realtime substitution_response event.
+  respond = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = substitutionResponseSchema.parse({
+        ...req.body,
+        adjustmentId: req.params.adjustmentId,
+      });
+      const adjustment = await this.substitutionService.respond(this.getUserId(req), data);
+
+      res.json({
+        success: true,
+        message:
+          adjustment.status === 'applied' ? 'Substitution approved' : 'Substitution rejected',
+        data: { adjustment },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'answering substitution');
+    }
+  };
+
+  // Retry a refund that failed when a change was applied (store manager)
+  retryRefund = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const adjustment = await this.substitutionService.retryRefund(
+        req.params.orderId,
+        req.params.adjustmentId,
+        this.getManagerActor(req)
+      );
+
+      if (Number(adjustment.refundDue) > 0) {
+        res.status(502).json({
+          success: false,
+          message: 'Refund failed',
+          data: { adjustment },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Adjustment refunded',
+        data: { adjustment },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'retrying adjustment refund');
+    }
+  };
+
+  private getUserId(req: Request): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new Error('Unauthorized');
+    }
+    return userId;
+  }
+
+  private getManagerActor(req: Request): OrderActor {
+    return {
+      userId: this.getUserId(req),
+      role: req.user?.role === 'admin' ? 'admin' : 'manager',
+      storeId: (req as any).storeManager?.storeId,
+    };
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (
+        error.message === 'Order item has already been adjusted' ||
+        error.message === 'Substitution has already been answered' ||
+        error.message === 'Order can no longer be changed' ||
+        error.message === 'Adjustment has no refund due'
+      ) {
+        res.status(409).json({ success: false, message: error.message });
+        return;
+      }
+
+      // Picking rules, such as a substitute costing too much or being out of stock
+      console.warn(`[Substitution] Rejected ${action}:`, error.message);
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+
+    console.error(`[Substitution] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
@@ -178,7 +178,14 @@ export class OrderController {
       // Validate request body
       const validatedData = updateOrderStatusSchema.parse(req.body);
 
-      const order = await this.orderService.updateOrderStatus(orderId, validatedData);
+      const user = (req as any).user;
+      const storeManager = (req as any).storeManager;
+
+      const order = await this.orderService.updateOrderStatus(orderId, validatedData, {
+        userId: user?.userId,
+        role: user?.role === 'admin' ? 'admin' : 'manager',
+        storeId: storeManager?.storeId,
+      });
 
       res.json({
         success: true,
@@ -233,7 +240,9 @@ export class OrderController {
         return;
       }
 
-      const order = await this.orderService.cancelOrder(orderId, userId);
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+
+      const order = await this.orderService.cancelOrder(orderId, userId, reason);
 
       res.json({
         success: true,
@@ -257,6 +266,80 @@ export class OrderController {
     }
   };
 
+  // Get order status timeline (owner, store manager or admin)
+  getOrderTimeline = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const user = (req as any).user;
+      const { orderId } = req.params;
+
+      if (!user?.userId) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      if (!orderId) {
+        res.status(400).json({
+          success: false,
+          message: 'Order ID is required',
+        });
+        return;
+      }
+
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: { id: true, orderNumber: true, userId: true, storeId: true, status: true },
+      });
+
+      if (!order) {
+        res.status(404).json({
+          success: false,
+          message: 'Order not found',
+        });
+        return;
+      }
+
+      // Owners and admins can always see the timeline, managers only for their stores
+      if (order.userId !== user.userId && user.role !== 'admin') {
+        const storeManager = await prisma.storeManager.findFirst({
+          where: {
+            userId: user.userId,
+            storeId: order.storeId,
+            isActive: true,
+          },
+        });
+
+        if (!storeManager) {
+          res.status(403).json({
+            success: false,
+            message: 'Unauthorized',
+          });
+          return;
+        }
+      }
+
+      const timeline = await this.orderService.getOrderTimeline(orderId);
+
+      res.json({
+        success: true,
+        data: {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          currentStatus: order.status,
+          timeline,
+        },
+      });
+    } catch (error) {
+      console.error('[Order] Error getting order timeline:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+
   // Get order summary (admin/store manager)
   getOrderSummary = async (req: Request, res: Response): Promise<void> => {
     try {
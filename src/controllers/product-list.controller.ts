@@ -0,0 +1,240 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  ProductListService,
+  addListItemSchema,
+  moveToCartSchema,
+  productListSchema,
+  saveForLaterSchema,
+  updateListItemSchema,
+} from '../services/product-list.service';
+
+export class ProductListController {
+  private productListService: ProductListService;
+
+  constructor() {
+    this.productListService = new ProductListService();
+  }
+
+  // List the user's product lists
+  getLists = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const lists = await this.productListService.getLists(this.getUserId(req));
+
+      res.json({
+        success: true,
+        data: { lists },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing product lists');
+    }
+  };
+
+  // Create a named list
+  createList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = productListSchema.parse(req.body);
+      const list = await this.productListService.createList(this.getUserId(req), data);
+
+      res.status(201).json({
+        success: true,
+        message: 'List created',
+        data: { list },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'creating product list');
+    }
+  };
+
+  // Get a list with live availability and prices
+  getList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const list = await this.productListService.getList(this.getUserId(req), req.params.listId);
+
+      res.json({
+        success: true,
+        data: { list },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting product list');
+    }
+  };
+
+  // Rename a list
+  renameList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = productListSchema.parse(req.body);
+      const list = await this.productListService.renameList(
+        this.getUserId(req),
+        req.params.listId,
+        data
+      );
+
+      res.json({
+        success: true,
+        message: 'List renamed',
+        data: { list },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'renaming product list');
+    }
+  };
+
+  // Delete a list
+  deleteList = async (req: Request, res: Response): Promise<void> => {
+    try {
+      await this.productListService.deleteList(this.getUserId(req), req.params.listId);
+
+      res.json({
+        success: true,
+        message: 'List deleted',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'deleting product list');
+    }
+  };
+
+  // Add a product to a list
+  addItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = addListItemSchema.parse(req.body);
+      const list = await this.productListService.addItem(
+        this.getUserId(req),
+        req.params.listId,
+        data
+      );
+
+      res.json({
+        success: true,
+        message: 'Item added to list',
+        data: { list },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'adding list item');
+    }
+  };
+
+  // Update a list item
+  updateItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = updateListItemSchema.parse(req.body);
+      const list = await this.productListService.updateItem(
+        this.getUserId(req),
+        req.params.listId,
+        req.params.itemId,
+        data
+      );
+
+      res.json({
+        success: true,
+        message: 'List item updated',
+        data: { list },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'updating list item');
+    }
+  };
+
+  // Remove a product from a list
+  removeItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const list = await this.productListService.removeItem(
+        this.getUserId(req),
+        req.params.listId,
+        req.params.itemId
+      );
+
+      res.json({
+        success: true,
+        message: 'Item removed from list',
+        data: { list },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'removing list item');
+    }
+  };
+
+  // Move a cart item onto a list
+  saveForLater = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = saveForLaterSchema.parse(req.body);
+      const result = await this.productListService.saveForLater(this.getUserId(req), data);
+
+      res.json({
+        success: true,
+        message: 'Item saved for later',
+        data: result,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'saving item for later');
+    }
+  };
+
+  // Move a list item into the cart
+  moveToCart = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = moveToCartSchema.parse(req.body);
+      const cart = await this.productListService.moveToCart(
+        this.getUserId(req),
+        req.params.listId,
+        req.params.itemId,
+        data
+      );
+
+      res.json({
+        success: true,
+        message: 'Item moved to cart',
+        data: { cart },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'moving list item to cart');
+    }
+  };
+
+  private getUserId(req: Request): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new Error('Unauthorized');
+    }
+    return userId;
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === 'A list with this name already exists') {
+        res.status(409).json({ success: false, message: error.message });
+        return;
+      }
+
+      // Cart rules, such as stock limits, when moving an item into the cart
+      console.warn(`[ProductList] Rejected ${action}:`, error.message);
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+
+    console.error(`[ProductList] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,196 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  ReplenishmentActor,
+  ReplenishmentService,
+  createPurchaseOrderSchema,
+  listPurchaseOrdersSchema,
+  receivePurchaseOrderSchema,
+  suggestionQuerySchema,
+} from '../services/replenishment.service';
+
+export class ReplenishmentController {
+  private replenishmentService: ReplenishmentService;
+
+  constructor() {
+    this.replenishmentService = new ReplenishmentService();
+  }
+
+  // Suggested order quantities for a store
+  getSuggestions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = suggestionQuerySchema.parse(req.query);
+      const suggestions = await this.replenishmentService.getSuggestions(query, this.getActor(req));
+
+      res.json({
+        success: true,
+        data: {
+          storeId: query.storeId,
+          windowDays: query.windowDays,
+          leadTimeDays: query.leadTimeDays,
+          suggestions,
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting replenishment suggestions');
+    }
+  };
+
+  // List a store's purchase orders
+  listPurchaseOrders = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = listPurchaseOrdersSchema.parse(req.query);
+      const { purchaseOrders, total } = await this.replenishmentService.listPurchaseOrders(
+        query,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          purchaseOrders,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            totalPages: Math.ceil(total / query.limit),
+          },
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing purchase orders');
+    }
+  };
+
+  // Create a draft purchase order
+  createPurchaseOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = createPurchaseOrderSchema.parse(req.body);
+      const purchaseOrder = await this.replenishmentService.createPurchaseOrder(
+        data,
+        this.getActor(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Purchase order created successfully',
+        data: purchaseOrder,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'creating purchase order');
+    }
+  };
+
+  // Get a single purchase order
+  getPurchaseOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const purchaseOrder = await this.replenishmentService.getPurchaseOrder(
+        req.params.purchaseOrderId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: purchaseOrder,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting purchase order');
+    }
+  };
+
+  // Send a draft purchase order to the supplier
+  submitPurchaseOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const purchaseOrder = await this.replenishmentService.submitPurchaseOrder(
+        req.params.purchaseOrderId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Purchase order submitted',
+        data: purchaseOrder,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'submitting purchase order');
+    }
+  };
+
+  // Receive all or part of a purchase order
+  receivePurchaseOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = receivePurchaseOrderSchema.parse(req.body);
+      const purchaseOrder = await this.replenishmentService.receivePurchaseOrder(
+        req.params.purchaseOrderId,
+        data,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message:
+          purchaseOrder.status === 'received'
+            ? 'Purchase order received'
+            : 'Partial receipt recorded',
+        data: purchaseOrder,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'receiving purchase order');
+    }
+  };
+
+  // Cancel a purchase order before anything is received
+  cancelPurchaseOrder = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const purchaseOrder = await this.replenishmentService.cancelPurchaseOrder(
+        req.params.purchaseOrderId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Purchase order cancelled',
+        data: purchaseOrder,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'cancelling purchase order');
+    }
+  };
+
+  private getActor(req: Request): ReplenishmentActor {
+    const user = req.user as any;
+    return { userId: user.userId, role: user.role };
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Purchase order not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+
+    console.error(`[Replenishment] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
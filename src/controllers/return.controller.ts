@@ -0,0 +1,234 @@
+import { Request, Response } from 'express';
+import { ReturnStatus } from '@prisma/client';
+import { z } from 'zod';
+import { OrderActor } from '../services/order-lifecycle.service';
+import {
+  ReturnService,
+  createReturnSchema,
+  receiveReturnSchema,
+  reviewReturnSchema,
+} from '../services/return.service';
+
+const storeReturnsQuerySchema = z.object({
+  status: z.nativeEnum(ReturnStatus).optional(),
+});
+
+export class ReturnController {
+  private returnService: ReturnService;
+
+  constructor() {
+    this.returnService = new ReturnService();
+  }
+
+  // Request a return on a completed order (customer)
+  createReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = createReturnSchema.parse(req.body);
+      const request = await this.returnService.createReturn(this.getUserId(req), data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Return requested',
+        data: { return: request },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'requesting return');
+    }
+  };
+
+  // List the current user's returns
+  getMyReturns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const returns = await this.returnService.getReturnsByUser(this.getUserId(req));
+
+      res.json({
+        success: true,
+        data: { returns },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing returns');
+    }
+  };
+
+  // List a store's returns, optionally by status (store manager)
+  getStoreReturns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { status } = storeReturnsQuerySchema.parse(req.query);
+      const returns = await this.returnService.getStoreReturns(req.params.storeId, status);
+
+      res.json({
+        success: true,
+        data: { returns },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing store returns');
+    }
+  };
+
+  // Get a single return
+  getReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request = await this.returnService.getReturn(req.params.returnId, {
+        userId: this.getUserId(req),
+        role: req.user?.role || 'customer',
+      });
+
+      res.json({
+        success: true,
+        data: { return: request },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting return');
+    }
+  };
+
+  // Approve a requested return (store manager)
+  approveReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = reviewReturnSchema.parse(req.body);
+      const request = await this.returnService.approveReturn(
+        req.params.returnId,
+        data,
+        this.getManagerActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Return approved',
+        data: { return: request },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'approving return');
+    }
+  };
+
+  // Reject a requested return (store manager)
+  rejectReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = reviewReturnSchema.parse(req.body);
+      const request = await this.returnService.rejectReturn(
+        req.params.returnId,
+        data,
+        this.getManagerActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Return rejected',
+        data: { return: request },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'rejecting return');
+    }
+  };
+
+  // Receive the goods of an approved return and refund them (store manager)
+  receiveReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = receiveReturnSchema.parse(req.body);
+      const request = await this.returnService.receiveReturn(
+        req.params.returnId,
+        data,
+        this.getManagerActor(req)
+      );
+
+      res.json({
+        success: true,
+        message:
+          request.status === 'refunded'
+            ? 'Return received and refunded'
+            : 'Return received; the refund failed and can be retried',
+        data: { return: request },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'receiving return');
+    }
+  };
+
+  // Retry the refund of a received return (store manager)
+  refundReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const request = await this.returnService.refundReturn(
+        req.params.returnId,
+        this.getManagerActor(req)
+      );
+
+      if (request.status !== 'refunded') {
+        res.status(502).json({
+          success: false,
+          message: 'Refund failed',
+          data: { return: request },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Return refunded',
+        data: { return: request },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'refunding return');
+    }
+  };
+
+  private getUserId(req: Request): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new Error('Unauthorized');
+    }
+    return userId;
+  }
+
+  private getManagerActor(req: Request): OrderActor {
+    return {
+      userId: this.getUserId(req),
+      role: req.user?.role === 'admin' ? 'admin' : 'manager',
+      storeId: (req as any).storeManager?.storeId,
+    };
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message.includes('not found')) {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (
+        error.message === 'Return has already been reviewed' ||
+        error.message === 'Return has already been received' ||
+        error.message.startsWith('Cannot receive a') ||
+        error.message.startsWith('Cannot refund a')
+      ) {
+        res.status(409).json({ success: false, message: error.message });
+        return;
+      }
+
+      // Return rules, such as the return window or returnable quantities
+      console.warn(`[Returns] Rejected ${action}:`, error.message);
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+
+    console.error(`[Returns] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
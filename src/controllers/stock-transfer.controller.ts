@@ -0,0 +1,190 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  StockTransferService,
+  TransferActor,
+  createTransferSchema,
+  dispatchTransferSchema,
+  listTransfersSchema,
+  receiveTransferSchema,
+} from '../services/stock-transfer.service';
+
+export class StockTransferController {
+  private transferService: StockTransferService;
+
+  constructor() {
+    this.transferService = new StockTransferService();
+  }
+
+  // List transfers for the stores the user manages
+  listTransfers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = listTransfersSchema.parse(req.query);
+      const { transfers, total } = await this.transferService.listTransfers(
+        query,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          transfers,
+          pagination: {
+            page: query.page,
+            limit: query.limit,
+            total,
+            totalPages: Math.ceil(total / query.limit),
+          },
+        },
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing transfers');
+    }
+  };
+
+  // Request a transfer between two stores
+  createTransfer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = createTransferSchema.parse(req.body);
+      const transfer = await this.transferService.createTransfer(data, this.getActor(req));
+
+      res.status(201).json({
+        success: true,
+        message: 'Transfer requested successfully',
+        data: transfer,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'creating transfer');
+    }
+  };
+
+  // Get a single transfer
+  getTransfer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const transfer = await this.transferService.getTransfer(
+        req.params.transferId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: transfer,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting transfer');
+    }
+  };
+
+  // Approve a requested transfer
+  approveTransfer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const transfer = await this.transferService.approveTransfer(
+        req.params.transferId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Transfer approved',
+        data: transfer,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'approving transfer');
+    }
+  };
+
+  // Dispatch an approved transfer
+  dispatchTransfer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = dispatchTransferSchema.parse(req.body || {});
+      const transfer = await this.transferService.dispatchTransfer(
+        req.params.transferId,
+        data,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Transfer dispatched',
+        data: transfer,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'dispatching transfer');
+    }
+  };
+
+  // Receive all or part of a transfer
+  receiveTransfer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = receiveTransferSchema.parse(req.body);
+      const transfer = await this.transferService.receiveTransfer(
+        req.params.transferId,
+        data,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: transfer.status === 'received' ? 'Transfer received' : 'Partial receipt recorded',
+        data: transfer,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'receiving transfer');
+    }
+  };
+
+  // Cancel a transfer before dispatch
+  cancelTransfer = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const transfer = await this.transferService.cancelTransfer(
+        req.params.transferId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Transfer cancelled',
+        data: transfer,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'cancelling transfer');
+    }
+  };
+
+  private getActor(req: Request): TransferActor {
+    const user = req.user as any;
+    return { userId: user.userId, role: user.role };
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Transfer not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === 'Unauthorized') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+
+      res.status(400).json({ success: false, message: error.message });
+      return;
+    }
+
+    console.error(`[Transfer] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
@@ -4,6 +4,7 @@ import {
   nearbyStoresSchema,
   storeAvailabilitySchema,
 } from '../services/store.service';
+import { openingHoursSchema, timezoneSchema } from '../services/opening-hours.service';
 import { z } from 'zod';
 
 export class StoreController {
@@ -22,15 +23,26 @@ export class StoreController {
         longitude: parseFloat(req.query.longitude as string),
         radius: req.query.radius ? parseFloat(req.query.radius as string) : 10,
         limit: req.query.limit ? parseInt(req.query.limit as string) : 20,
+        page: req.query.page ? parseInt(req.query.page as string) : 1,
+        openNow: req.query.openNow === 'true',
+        deliversHere: req.query.deliversHere === 'true',
+        productId: req.query.productId as string | undefined,
       });
 
-      const stores = await this.storeService.getNearbyStores(validatedParams);
+      const { stores, total, page, limit } =
+        await this.storeService.getNearbyStores(validatedParams);
 
       res.json({
         success: true,
         data: {
           stores,
           count: stores.length,
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+          },
           searchParams: validatedParams,
         },
       });
@@ -134,9 +146,12 @@ export class StoreController {
     try {
       const { storeId } = req.params;
 
-      const validatedParams = storeAvailabilitySchema.parse({ storeId });
+      const { storeId: validatedStoreId, ...options } = storeAvailabilitySchema.parse({
+        ...req.query,
+        storeId,
+      });
 
-      const availability = await this.storeService.getStoreAvailability(validatedParams.storeId);
+      const availability = await this.storeService.getStoreAvailability(validatedStoreId, options);
 
       res.json({
         success: true,
@@ -285,7 +300,8 @@ export class StoreController {
         longitude: z.number().min(-180).max(180).optional(),
         phone: z.string().optional(),
         email: z.string().email().optional(),
-        openingHours: z.any().optional(),
+        openingHours: openingHoursSchema.optional(),
+        timezone: timezoneSchema.optional(),
         deliveryRadius: z.number().min(0).optional(),
         minOrderAmount: z.number().min(0).optional(),
         isActive: z.boolean().optional(),
@@ -343,7 +359,8 @@ export class StoreController {
         longitude: z.number().min(-180).max(180),
         phone: z.string().optional(),
         email: z.string().email().optional(),
-        openingHours: z.any().optional(),
+        openingHours: openingHoursSchema.optional(),
+        timezone: timezoneSchema.optional(),
         deliveryRadius: z.number().min(0).optional(),
         minOrderAmount: z.number().min(0).optional(),
       });
@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  TaxService,
+  createTaxRateSchema,
+  createTaxZoneSchema,
+  taxExemptionSchema,
+  updateTaxZoneSchema,
+} from '../services/tax.service';
+
+export class TaxController {
+  private taxService: TaxService;
+
+  constructor() {
+    this.taxService = new TaxService();
+  }
+
+  // List tax zones with their rates and exemptions
+  listZones = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const zones = await this.taxService.listZones();
+
+      res.json({
+        success: true,
+        data: zones,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'listing tax zones');
+    }
+  };
+
+  // Create a tax zone
+  createZone = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = createTaxZoneSchema.parse(req.body);
+      const zone = await this.taxService.createZone(data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Tax zone created',
+        data: zone,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'creating tax zone');
+    }
+  };
+
+  // Update a tax zone
+  updateZone = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = updateTaxZoneSchema.parse(req.body);
+      const zone = await this.taxService.updateZone(req.params.zoneId, data);
+
+      res.json({
+        success: true,
+        message: 'Tax zone updated',
+        data: zone,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'updating tax zone');
+    }
+  };
+
+  // Add a dated rate to a zone
+  addRate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const data = createTaxRateSchema.parse(req.body);
+      const rate = await this.taxService.addRate(req.params.zoneId, data);
+
+      res.status(201).json({
+        success: true,
+        message: 'Tax rate added',
+        data: rate,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'adding tax rate');
+    }
+  };
+
+  // Exempt a category in a zone
+  addExemption = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { categoryId } = taxExemptionSchema.parse(req.body);
+      const exemption = await this.taxService.addExemption(req.params.zoneId, categoryId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Tax exemption added',
+        data: exemption,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'adding tax exemption');
+    }
+  };
+
+  // Remove a category exemption from a zone
+  removeExemption = async (req: Request, res: Response): Promise<void> => {
+    try {
+      await this.taxService.removeExemption(req.params.zoneId, req.params.categoryId);
+
+      res.json({
+        success: true,
+        message: 'Tax exemption removed',
+      });
+    } catch (error) {
+      this.handleError(res, error, 'removing tax exemption');
+    }
+  };
+
+  // Preview the zone and rate a store's orders are taxed with
+  getStoreTaxContext = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const context = await this.taxService.getTaxContext(req.params.storeId);
+
+      res.json({
+        success: true,
+        data: context,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting store tax context');
+    }
+  };
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Tax zone not found' || error.message === 'Category not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (error.message === 'Tax rate overlaps an existing rate') {
+        res.status(409).json({ success: false, message: error.message });
+        return;
+      }
+    }
+
+    console.error(`[Tax] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { SlotActor, TimeSlotService, slotTemplatesSchema } from '../services/time-slot.service';
+
+export class TimeSlotController {
+  private timeSlotService: TimeSlotService;
+
+  constructor() {
+    this.timeSlotService = new TimeSlotService();
+  }
+
+  // Get a store's pickup and delivery slot templates
+  getTemplates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const templates = await this.timeSlotService.getTemplates(
+        req.params.storeId,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: templates,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'getting slot templates');
+    }
+  };
+
+  // Replace a store's slot templates
+  replaceTemplates = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { templates } = slotTemplatesSchema.parse(req.body);
+      const saved = await this.timeSlotService.replaceTemplates(
+        req.params.storeId,
+        templates,
+        this.getActor(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Slot templates updated',
+        data: saved,
+      });
+    } catch (error) {
+      this.handleError(res, error, 'updating slot templates');
+    }
+  };
+
+  private getActor(req: Request): SlotActor {
+    const user = req.user as any;
+    return { userId: user.userId, role: user.role };
+  }
+
+  private handleError(res: Response, error: unknown, action: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      res.status(403).json({ success: false, message: error.message });
+      return;
+    }
+
+    console.error(`[TimeSlot] Error ${action}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+    });
+  }
+}
@@ -4,6 +4,7 @@ import { z } from 'zod';
 import prisma from '../db/prisma';
 import { StrapiService } from '../services/strapi.service';
 import { strapiEventQueue } from '../services/queue.service';
+import { PaymentService } from '../services/payment.service';
 
 // Webhook validation schemas
 const webhookHeadersSchema = z.object({
@@ -56,9 +57,18 @@ const promotionUpdateSchema = z.object({
       description: z.string().optional(),
       discountType: z.enum(['percentage', 'fixed']),
       discountValue: z.number(),
+      minOrderAmount: z.number().optional(),
+      maxDiscountAmount: z.number().optional(),
+      code: z.string().optional(),
       isActive: z.boolean().optional(),
       startDate: z.string(),
       endDate: z.string(),
+      applicableProducts: z.array(z.number()).optional(),
+      applicableCategories: z.array(z.number()).optional(),
+      usageLimit: z.number().int().optional(),
+      perUserLimit: z.number().int().optional(),
+      stackable: z.boolean().optional(),
+      priority: z.number().int().optional(),
     }),
   }),
   event: z.enum([
@@ -77,10 +87,12 @@ function computeRequestHash(payload: any): string {
 
 export class WebhookController {
   private strapiService: StrapiService;
+  private paymentService: PaymentService;
   private webhookSecret: string;
 
   constructor() {
     this.strapiService = new StrapiService();
+    this.paymentService = new PaymentService();
     this.webhookSecret = process.env.STRAPI_WEBHOOK_SECRET || process.env.WEBHOOK_SECRET || '';
 
     if (!this.webhookSecret) {
@@ -226,6 +238,57 @@ export class WebhookController {
     }
   };
 
+  // Handle signed events from payment providers
+  paymentEvent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { provider } = req.params;
+      const signature = req.headers['x-payment-signature'];
+
+      if (!signature || typeof signature !== 'string') {
+        res.status(401).json({ success: false, message: 'Missing webhook signature' });
+        return;
+      }
+
+      const result = await this.paymentService.handleProviderWebhook(
+        provider,
+        JSON.stringify(req.body),
+        signature,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message:
+          result.status === 'already_processed' ? 'Already processed' : 'Payment event processed',
+        data: result,
+      });
+    } catch (error) {
+      console.error('[Webhook] Payment event error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Invalid webhook signature') {
+          res.status(401).json({ success: false, message: error.message });
+          return;
+        }
+
+        if (error.message.startsWith('Unknown payment provider')) {
+          res.status(404).json({ success: false, message: error.message });
+          return;
+        }
+
+        if (error.message.startsWith('Invalid')) {
+          res.status(400).json({ success: false, message: error.message });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  };
+
   // Health check for webhooks
   healthCheck = async (req: Request, res: Response): Promise<void> => {
     try {
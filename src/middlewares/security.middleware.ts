@@ -100,6 +100,7 @@ export const corsOptions = {
     'Authorization',
     'X-Webhook-Secret',
     'X-Request-ID',
+    'X-Cart-Token',
   ],
   exposedHeaders: ['X-Request-ID', 'X-Rate-Limit-Remaining', 'X-Rate-Limit-Reset'],
 };
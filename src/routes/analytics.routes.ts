@@ -13,5 +13,9 @@ router.get('/sales', analyticsController.getSalesAnalytics.bind(analyticsControl
 router.get('/orders', analyticsController.getOrderAnalytics.bind(analyticsController));
 router.get('/products', analyticsController.getProductAnalytics.bind(analyticsController));
 router.get('/stores', analyticsController.getStoreAnalytics.bind(analyticsController));
+router.get(
+  '/cart-recovery',
+  analyticsController.getCartRecoveryAnalytics.bind(analyticsController)
+);
 
 export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { BackInStockController } from '../controllers/back-in-stock.controller';
+import { AuthMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+const backInStockController = new BackInStockController();
+const authMiddleware = new AuthMiddleware();
+
+// All subscription routes require authentication
+router.use(authMiddleware.verifyToken);
+
+router.get('/', backInStockController.listSubscriptions);
+router.post('/', backInStockController.subscribe);
+router.delete('/:subscriptionId', backInStockController.unsubscribe);
+
+export default router;
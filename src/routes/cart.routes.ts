@@ -6,16 +6,20 @@ const router = Router();
 const cartController = new CartController();
 const authMiddleware = new AuthMiddleware();
 
-// All cart routes require authentication
-router.use(authMiddleware.verifyToken);
+// Signed-in users work on their own cart; guests send the X-Cart-Token
+// header they got back when adding their first item
+router.use(authMiddleware.optionalToken);
 
 // Cart routes
 router.get('/', cartController.getCart);
+router.get('/all', cartController.getAllCarts);
+router.post('/move', cartController.moveCart);
 router.post('/items', cartController.addToCart);
 router.put('/items/:itemId', cartController.updateCartItem);
 router.delete('/items/:itemId', cartController.removeCartItem);
 router.delete('/clear', cartController.clearCart);
 router.post('/promo-code', cartController.applyPromoCode);
+router.delete('/promo-code/:code', cartController.removePromoCode);
 router.get('/summary', cartController.getCartSummary);
 router.get('/validate', cartController.validateCart);
 
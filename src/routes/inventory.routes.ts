@@ -1,9 +1,15 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { InventoryController } from '../controllers/inventory.controller';
+import { StockTransferController } from '../controllers/stock-transfer.controller';
+import { ReplenishmentController } from '../controllers/replenishment.controller';
+import { LowStockAlertController } from '../controllers/low-stock-alert.controller';
 import { AuthMiddleware } from '../middlewares/auth.middleware';
 
 const router = Router();
 const inventoryController = new InventoryController();
+const transferController = new StockTransferController();
+const replenishmentController = new ReplenishmentController();
+const lowStockAlertController = new LowStockAlertController();
 const authMiddleware = new AuthMiddleware();
 
 // All inventory routes require authentication
@@ -12,7 +18,49 @@ router.use(authMiddleware.verifyToken);
 // Inventory endpoints
 router.get('/', inventoryController.getInventory);
 router.get('/low-stock', inventoryController.getLowStockItems);
+
+// Low-stock alerts and the current manager's alert preferences
+router.get('/low-stock/alerts', lowStockAlertController.listAlerts);
+router.get('/low-stock/preferences', lowStockAlertController.getPreferences);
+router.put('/low-stock/preferences', lowStockAlertController.updatePreferences);
+
+// Bulk CSV import (?dryRun=true to preview) and streaming export
+router.post(
+  '/import',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  inventoryController.importInventory
+);
+router.get('/export', inventoryController.exportInventory);
+
+// Inter-store stock transfers
+router.get('/transfers', transferController.listTransfers);
+router.post('/transfers', transferController.createTransfer);
+router.get('/transfers/:transferId', transferController.getTransfer);
+router.post('/transfers/:transferId/approve', transferController.approveTransfer);
+router.post('/transfers/:transferId/dispatch', transferController.dispatchTransfer);
+router.post('/transfers/:transferId/receive', transferController.receiveTransfer);
+router.post('/transfers/:transferId/cancel', transferController.cancelTransfer);
+
+// Replenishment suggestions and purchase orders
+router.get('/replenishment', replenishmentController.getSuggestions);
+router.get('/purchase-orders', replenishmentController.listPurchaseOrders);
+router.post('/purchase-orders', replenishmentController.createPurchaseOrder);
+router.get('/purchase-orders/:purchaseOrderId', replenishmentController.getPurchaseOrder);
+router.post(
+  '/purchase-orders/:purchaseOrderId/submit',
+  replenishmentController.submitPurchaseOrder
+);
+router.post(
+  '/purchase-orders/:purchaseOrderId/receive',
+  replenishmentController.receivePurchaseOrder
+);
+router.post(
+  '/purchase-orders/:purchaseOrderId/cancel',
+  replenishmentController.cancelPurchaseOrder
+);
+
 router.get('/:id', inventoryController.getInventoryById);
+router.get('/:id/movements', inventoryController.getInventoryMovements);
 router.put('/:id', inventoryController.updateInventory);
 
 export default router;
@@ -1,8 +1,24 @@
 import { Router } from 'express';
-import { getMetrics } from '../controllers/metrics.controller';
+import { getJobMetrics, getMetrics, runJob } from '../controllers/metrics.controller';
+import { AuthMiddleware } from '../middlewares/auth.middleware';
 
 const router = Router();
+const authMiddleware = new AuthMiddleware();
 
 router.get('/metrics', getMetrics);
 
+// Scheduled jobs
+router.get(
+  '/jobs',
+  authMiddleware.verifyToken,
+  authMiddleware.requireRole(['admin']),
+  getJobMetrics
+);
+router.post(
+  '/jobs/:name/run',
+  authMiddleware.verifyToken,
+  authMiddleware.requireRole(['admin']),
+  runJob
+);
+
 export default router;
@@ -1,9 +1,11 @@
 import { Router } from 'express';
 import { OrderController } from '../controllers/order.controller';
+import { OrderSubstitutionController } from '../controllers/order-substitution.controller';
 import { AuthMiddleware } from '../middlewares/auth.middleware';
 
 const router = Router();
 const orderController = new OrderController();
+const substitutionController = new OrderSubstitutionController();
 const authMiddleware = new AuthMiddleware();
 
 // All order routes require authentication
@@ -14,6 +16,7 @@ router.post('/', orderController.createOrder);
 router.get('/user', orderController.getOrdersByUser);
 router.get('/summary', orderController.getOrderSummary);
 router.get('/:orderId', orderController.getOrderById);
+router.get('/:orderId/timeline', orderController.getOrderTimeline);
 router.get('/number/:orderNumber', orderController.getOrderByNumber);
 router.put(
   '/:orderId/status',
@@ -22,4 +25,23 @@ router.put(
 );
 router.put('/:orderId/cancel', orderController.cancelOrder);
 
+// Short picks and substitutions: managers change lines, customers answer
+router.get('/:orderId/adjustments', substitutionController.getAdjustments);
+router.post(
+  '/:orderId/items/:itemId/short-pick',
+  authMiddleware.verifyStoreManager,
+  substitutionController.shortPick
+);
+router.post(
+  '/:orderId/items/:itemId/substitutions',
+  authMiddleware.verifyStoreManager,
+  substitutionController.proposeSubstitution
+);
+router.post('/:orderId/adjustments/:adjustmentId/respond', substitutionController.respond);
+router.post(
+  '/:orderId/adjustments/:adjustmentId/refund',
+  authMiddleware.verifyStoreManager,
+  substitutionController.retryRefund
+);
+
 export default router;
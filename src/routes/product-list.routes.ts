@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { ProductListController } from '../controllers/product-list.controller';
+import { AuthMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+const productListController = new ProductListController();
+const authMiddleware = new AuthMiddleware();
+
+// All list routes require authentication
+router.use(authMiddleware.verifyToken);
+
+// Lists
+router.get('/', productListController.getLists);
+router.post('/', productListController.createList);
+router.post('/save-for-later', productListController.saveForLater);
+router.get('/:listId', productListController.getList);
+router.put('/:listId', productListController.renameList);
+router.delete('/:listId', productListController.deleteList);
+
+// List items
+router.post('/:listId/items', productListController.addItem);
+router.put('/:listId/items/:itemId', productListController.updateItem);
+router.delete('/:listId/items/:itemId', productListController.removeItem);
+router.post('/:listId/items/:itemId/move-to-cart', productListController.moveToCart);
+
+export default router;
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { ReturnController } from '../controllers/return.controller';
+import { AuthMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+const returnController = new ReturnController();
+const authMiddleware = new AuthMiddleware();
+
+// All return routes require authentication
+router.use(authMiddleware.verifyToken);
+
+// Customer routes
+router.post('/', returnController.createReturn);
+router.get('/', returnController.getMyReturns);
+
+// Store manager routes
+router.get('/store/:storeId', authMiddleware.verifyStoreManager, returnController.getStoreReturns);
+router.post(
+  '/:returnId/approve',
+  authMiddleware.verifyStoreManager,
+  returnController.approveReturn
+);
+router.post('/:returnId/reject', authMiddleware.verifyStoreManager, returnController.rejectReturn);
+router.post(
+  '/:returnId/receive',
+  authMiddleware.verifyStoreManager,
+  returnController.receiveReturn
+);
+router.post('/:returnId/refund', authMiddleware.verifyStoreManager, returnController.refundReturn);
+
+router.get('/:returnId', returnController.getReturn);
+
+export default router;
@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import { StoreController } from '../controllers/store.controller';
+import { DeliveryController } from '../controllers/delivery.controller';
+import { TimeSlotController } from '../controllers/time-slot.controller';
 import { AuthMiddleware } from '../middlewares/auth.middleware';
 
 const router = Router();
 const storeController = new StoreController();
+const deliveryController = new DeliveryController();
+const timeSlotController = new TimeSlotController();
 const authMiddleware = new AuthMiddleware();
 
 // Public routes
@@ -14,9 +18,33 @@ router.get('/:storeId', storeController.getStoreById);
 router.get('/:storeId/inventory', storeController.getStoreWithInventory);
 router.get('/:storeId/availability', storeController.getStoreAvailability);
 router.get('/:storeId/stats', storeController.getStoreStats);
+router.get('/:storeId/delivery-quote', deliveryController.getQuote);
 
 // Protected routes (admin/manager only)
 router.post('/', authMiddleware.verifyToken, storeController.createStore);
 router.put('/:storeId', authMiddleware.verifyToken, storeController.updateStore);
 
+// Delivery area and fees (admin/store manager)
+router.get('/:storeId/delivery-zones', authMiddleware.verifyToken, deliveryController.listZones);
+router.post('/:storeId/delivery-zones', authMiddleware.verifyToken, deliveryController.createZone);
+router.delete(
+  '/:storeId/delivery-zones/:zoneId',
+  authMiddleware.verifyToken,
+  deliveryController.deleteZone
+);
+router.get('/:storeId/delivery-fees', authMiddleware.verifyToken, deliveryController.getFeeTiers);
+router.put(
+  '/:storeId/delivery-fees',
+  authMiddleware.verifyToken,
+  deliveryController.replaceFeeTiers
+);
+
+// Pickup and delivery slot templates (admin/store manager)
+router.get('/:storeId/slot-templates', authMiddleware.verifyToken, timeSlotController.getTemplates);
+router.put(
+  '/:storeId/slot-templates',
+  authMiddleware.verifyToken,
+  timeSlotController.replaceTemplates
+);
+
 export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { TaxController } from '../controllers/tax.controller';
+import { AuthMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+const taxController = new TaxController();
+const authMiddleware = new AuthMiddleware();
+
+// All tax routes require admin authentication
+router.use(authMiddleware.verifyToken);
+router.use(authMiddleware.requireRole(['admin']));
+
+// Tax zones
+router.get('/zones', taxController.listZones);
+router.post('/zones', taxController.createZone);
+router.put('/zones/:zoneId', taxController.updateZone);
+
+// Rates and exemptions
+router.post('/zones/:zoneId/rates', taxController.addRate);
+router.post('/zones/:zoneId/exemptions', taxController.addExemption);
+router.delete('/zones/:zoneId/exemptions/:categoryId', taxController.removeExemption);
+
+// Resolved tax context for a store
+router.get('/stores/:storeId', taxController.getStoreTaxContext);
+
+export default router;
@@ -9,6 +9,9 @@ router.post('/inventory-updated', webhookController.inventoryUpdated);
 router.post('/product-updated', webhookController.productUpdated);
 router.post('/promotion-updated', webhookController.promotionUpdated);
 
+// Payment provider events (verified by the provider's signature)
+router.post('/payments/:provider', webhookController.paymentEvent);
+
 // Health check
 router.get('/health', webhookController.healthCheck);
 
@@ -7,7 +7,11 @@ import { StrapiService } from '../services/strapi.service';
     await strapiService.reconcileAll('products');
     console.log('[Reconcile] Products done. Now categories...');
     await strapiService.reconcileAll('categories');
-    console.log('[Reconcile] Categories done.');
+    console.log('[Reconcile] Categories done. Now banners...');
+    await strapiService.reconcileAll('banners');
+    console.log('[Reconcile] Banners done. Now promotions...');
+    await strapiService.reconcileAll('promotions');
+    console.log('[Reconcile] Promotions done.');
     process.exit(0);
   } catch (error) {
     console.error('[Reconcile] Error:', error);
@@ -2,6 +2,12 @@ import app from './app';
 import prisma from './db/prisma';
 import { createServer } from 'http';
 import { RealtimeService } from './services/realtime.service';
+import {
+  OrderSubstitutionService,
+  substitutionResponseSchema,
+} from './services/order-substitution.service';
+import { startPaymentWorker } from './workers/payment-worker';
+import { startScheduler } from './workers/scheduled-jobs';
 
 const PORT = process.env.PORT || 4000;
 
@@ -19,8 +25,20 @@ async function startServer() {
 
     // Initialize Socket.IO
     realtimeService = new RealtimeService(httpServer);
+    const substitutionService = new OrderSubstitutionService();
+    realtimeService.onSubstitutionResponse((userId, payload) =>
+      substitutionService.respond(userId, substitutionResponseSchema.parse(payload))
+    );
     console.log('✅ Socket.IO realtime service initialized');
 
+    // Start payment processing worker
+    const paymentWorker = startPaymentWorker();
+    console.log('✅ Payment worker started');
+
+    // Start recurring jobs (reservation expiry, cleanup)
+    const scheduler = startScheduler();
+    console.log('✅ Scheduler started');
+
     // Start server
     const server = httpServer.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -38,6 +56,10 @@ async function startServer() {
         console.log('🔌 HTTP server closed');
         
         try {
+          await paymentWorker.close();
+          console.log('🔌 Payment worker stopped');
+          await scheduler.stop();
+          console.log('🔌 Scheduler stopped');
           await prisma.$disconnect();
           console.log('🔌 Database connection closed');
           console.log('✅ Graceful shutdown completed');
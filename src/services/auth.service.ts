@@ -2,6 +2,7 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import prisma from '../db/prisma';
+import { CartService } from './cart.service';
 
 // Validation schemas
 export const registerSchema = z.object({
@@ -45,6 +46,7 @@ export class AuthService {
   private readonly refreshTokenSecret: string;
   private readonly accessTokenExpiresIn: string;
   private readonly refreshTokenExpiresIn: string;
+  private readonly cartService: CartService;
 
   constructor() {
     this.accessTokenSecret = process.env.JWT_ACCESS_SECRET!;
@@ -55,6 +57,8 @@ export class AuthService {
     if (!this.accessTokenSecret || !this.refreshTokenSecret) {
       throw new Error('JWT secrets are not configured');
     }
+
+    this.cartService = new CartService();
   }
 
   // Hash password
@@ -115,9 +119,10 @@ export class AuthService {
     }
   }
 
-  // Register new user
+  // Register new user; a guest cart token brings the guest's carts along
   async register(
-    userData: z.infer<typeof registerSchema>
+    userData: z.infer<typeof registerSchema>,
+    cartToken?: string
   ): Promise<{ user: AuthUser; tokens: AuthTokens }> {
     const { email, password, firstName, lastName, phone } = userData;
 
@@ -169,11 +174,12 @@ export class AuthService {
     };
 
     const tokens = await this.generateTokens(authUser);
+    await this.mergeGuestCarts(user.id, cartToken);
 
     return { user: authUser, tokens };
   }
 
-  // Login user
+  // Login user; a guest cart token merges the guest's carts into the user's
   async login(
     email: string,
     password: string,
@@ -182,7 +188,8 @@ export class AuthService {
       deviceId?: string;
       ipAddress?: string;
       userAgent?: string;
-    }
+    },
+    cartToken?: string
   ): Promise<{ user: AuthUser; tokens: AuthTokens }> {
     // Find user
     const user = await prisma.user.findUnique({
@@ -218,6 +225,7 @@ export class AuthService {
 
     // Generate tokens
     const tokens = await this.generateTokens(authUser, deviceInfo);
+    await this.mergeGuestCarts(user.id, cartToken);
 
     return { user: authUser, tokens };
   }
@@ -289,6 +297,19 @@ export class AuthService {
     }
   }
 
+  // Merge the carts of the guest a cart token names into the user's. A bad
+  // token or a failed merge never blocks signing in.
+  private async mergeGuestCarts(userId: string, cartToken?: string): Promise<void> {
+    const guestId = cartToken ? this.cartService.verifyCartToken(cartToken) : null;
+    if (!guestId) return;
+
+    try {
+      await this.cartService.mergeGuestCarts(guestId, userId);
+    } catch (error) {
+      console.error('[Auth] Error merging guest carts:', error);
+    }
+  }
+
   // Generate tokens and create session
   private async generateTokens(
     user: AuthUser,
@@ -0,0 +1,283 @@
+import { z } from 'zod';
+import { BackInStockSubscription } from '@prisma/client';
+import prisma from '../db/prisma';
+import { RealtimeService } from './realtime.service';
+
+// Validation schemas
+export const subscribeSchema = z.object({
+  storeId: z.string().uuid(),
+  productId: z.string().min(1),
+});
+
+// Types
+// The stock fields of a StoreInventory row after a change
+export interface StockSnapshot {
+  storeId: string;
+  productId: string;
+  quantityAvailable: number;
+  reservedQuantity: number;
+  isAvailable: boolean;
+}
+
+const NOTIFY_THROTTLE_MS =
+  parseInt(process.env.BACK_IN_STOCK_THROTTLE_MINUTES || '60', 10) * 60 * 1000;
+
+const DISPATCH_BATCH_SIZE = 200;
+
+// Sellable the way reservations see it: listed, with unreserved units
+export function isSellable(snapshot: StockSnapshot): boolean {
+  return snapshot.isAvailable && snapshot.quantityAvailable - snapshot.reservedQuantity > 0;
+}
+
+// Group ready subscriptions by user, leaving out users who were notified
+// within the throttle window. Their subscriptions wait for a later run, and
+// everything that is ready by then goes out in one notification.
+export function planDispatch<T extends Pick<BackInStockSubscription, 'userId'>>(
+  ready: T[],
+  lastNotified: Map<string, Date>,
+  now: Date = new Date(),
+  throttleMs: number = NOTIFY_THROTTLE_MS
+): Map<string, T[]> {
+  const batches = new Map<string, T[]>();
+
+  for (const subscription of ready) {
+    const last = lastNotified.get(subscription.userId);
+    if (last && now.getTime() - last.getTime() < throttleMs) continue;
+
+    const batch = batches.get(subscription.userId) || [];
+    batch.push(subscription);
+    batches.set(subscription.userId, batch);
+  }
+
+  return batches;
+}
+
+// Service class
+export class BackInStockService {
+  // Ask to be told when a product is sellable at a store again
+  async subscribe(
+    userId: string,
+    data: z.infer<typeof subscribeSchema>
+  ): Promise<BackInStockSubscription> {
+    const store = await prisma.store.findUnique({
+      where: { id: data.storeId },
+      select: { id: true },
+    });
+    if (!store) {
+      throw new Error('Store not found');
+    }
+
+    const subscription = await this.watch(userId, data.storeId, data.productId);
+    if (!subscription) {
+      throw new Error('Product is in stock at this store');
+    }
+
+    return subscription;
+  }
+
+  // Open subscription for a user, store and product, created if needed.
+  // Null when the product is sellable there now, so there's nothing to wait for.
+  async watch(
+    userId: string,
+    storeId: string,
+    productId: string
+  ): Promise<BackInStockSubscription | null> {
+    const inventory = await prisma.storeInventory.findFirst({
+      where: { storeId, productId },
+    });
+    if (inventory && isSellable(inventory)) {
+      return null;
+    }
+
+    const existing = await prisma.backInStockSubscription.findFirst({
+      where: { userId, storeId, productId, notifiedAt: null },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    return prisma.backInStockSubscription.create({
+      data: { userId, storeId, productId },
+    });
+  }
+
+  // A user's open subscriptions
+  async listSubscriptions(userId: string): Promise<BackInStockSubscription[]> {
+    return prisma.backInStockSubscription.findMany({
+      where: { userId, notifiedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Cancel a subscription
+  async unsubscribe(userId: string, subscriptionId: string): Promise<void> {
+    const subscription = await prisma.backInStockSubscription.findUnique({
+      where: { id: subscriptionId },
+    });
+
+    if (!subscription) {
+      throw new Error('Subscription not found');
+    }
+
+    if (subscription.userId !== userId) {
+      throw new Error('Unauthorized');
+    }
+
+    await prisma.backInStockSubscription.delete({ where: { id: subscriptionId } });
+  }
+
+  // Flag the open subscriptions of a row that is sellable after a change.
+  // Runs inside the caller's transaction, so a rolled-back change flags
+  // nothing; the dispatcher sends the notifications afterwards.
+  async markAvailable(tx: any, snapshot: StockSnapshot): Promise<number> {
+    if (!isSellable(snapshot)) {
+      return 0;
+    }
+
+    const { count } = await tx.backInStockSubscription.updateMany({
+      where: {
+        storeId: snapshot.storeId,
+        productId: snapshot.productId,
+        availableAt: null,
+        notifiedAt: null,
+      },
+      data: { availableAt: new Date() },
+    });
+
+    return count;
+  }
+
+  // Notify subscribers whose product is back, at most once per user per
+  // throttle window, and close the subscriptions that fired
+  async dispatchAvailable(): Promise<{ subscriptions: number; notifications: number }> {
+    const ready = await prisma.backInStockSubscription.findMany({
+      where: { availableAt: { not: null }, notifiedAt: null },
+      orderBy: { availableAt: 'asc' },
+      take: DISPATCH_BATCH_SIZE,
+    });
+
+    if (ready.length === 0) {
+      return { subscriptions: 0, notifications: 0 };
+    }
+
+    // Stock can sell out again before this runs; those keep waiting
+    const inventories = await prisma.storeInventory.findMany({
+      where: {
+        OR: ready.map(subscription => ({
+          storeId: subscription.storeId,
+          productId: subscription.productId,
+        })),
+      },
+    });
+    const sellable = (subscription: BackInStockSubscription) =>
+      inventories.some(
+        inventory =>
+          inventory.storeId === subscription.storeId &&
+          inventory.productId === subscription.productId &&
+          isSellable(inventory)
+      );
+
+    const soldOut = ready.filter(subscription => !sellable(subscription));
+    if (soldOut.length > 0) {
+      await prisma.backInStockSubscription.updateMany({
+        where: { id: { in: soldOut.map(subscription => subscription.id) }, notifiedAt: null },
+        data: { availableAt: null },
+      });
+    }
+
+    const available = ready.filter(sellable);
+    const lastNotified = await this.getLastNotified(
+      Array.from(new Set(available.map(subscription => subscription.userId)))
+    );
+    const batches = planDispatch(available, lastNotified);
+
+    const [products, stores] = await Promise.all([
+      prisma.product.findMany({
+        where: { id: { in: available.map(subscription => subscription.productId) } },
+        select: { id: true, name: true },
+      }),
+      prisma.store.findMany({
+        where: { id: { in: available.map(subscription => subscription.storeId) } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    const realtime = RealtimeService.getInstance();
+    let subscriptions = 0;
+    let notifications = 0;
+
+    for (const [userId, batch] of batches) {
+      // Claim the subscriptions so they are never sent twice
+      const claimed: BackInStockSubscription[] = [];
+      for (const subscription of batch) {
+        const { count } = await prisma.backInStockSubscription.updateMany({
+          where: { id: subscription.id, notifiedAt: null },
+          data: { notifiedAt: new Date() },
+        });
+        if (count > 0) claimed.push(subscription);
+      }
+
+      if (claimed.length === 0) continue;
+
+      const items = claimed.map(subscription => ({
+        subscriptionId: subscription.id,
+        storeId: subscription.storeId,
+        storeName: stores.find(store => store.id === subscription.storeId)?.name,
+        productId: subscription.productId,
+        productName: products.find(product => product.id === subscription.productId)?.name,
+      }));
+      const storeIds = new Set(items.map(item => item.storeId));
+      const title = 'Back in stock';
+      const message =
+        items.length === 1
+          ? `${items[0].productName || 'An item you wanted'} is back in stock at ${items[0].storeName || 'your store'}`
+          : `${items.length} items you wanted are back in stock`;
+      const data = { items };
+
+      await prisma.pushNotification.create({
+        data: {
+          userId,
+          storeId: storeIds.size === 1 ? items[0].storeId : null,
+          title,
+          message,
+          type: 'back_in_stock',
+          data,
+          sentAt: new Date(),
+        },
+      });
+
+      if (realtime) {
+        realtime.sendNotification(userId, { title, message, type: 'info', data });
+      }
+
+      subscriptions += claimed.length;
+      notifications++;
+    }
+
+    console.log(
+      `[BackInStock] Notified ${notifications} users of ${subscriptions} subscriptions` +
+        (soldOut.length > 0 ? ` (${soldOut.length} sold out again)` : '')
+    );
+
+    return { subscriptions, notifications };
+  }
+
+  // When each user was last sent a back-in-stock notification
+  private async getLastNotified(userIds: string[]): Promise<Map<string, Date>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await prisma.backInStockSubscription.groupBy({
+      by: ['userId'],
+      where: { userId: { in: userIds }, notifiedAt: { not: null } },
+      _max: { notifiedAt: true },
+    });
+
+    return new Map(
+      rows
+        .filter(row => row._max.notifiedAt !== null)
+        .map(row => [row.userId, row._max.notifiedAt as Date])
+    );
+  }
+}
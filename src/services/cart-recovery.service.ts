@@ -0,0 +1,300 @@
+import { randomBytes } from 'crypto';
+import { CartRecovery, Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { CartService } from './cart.service';
+import { RealtimeService } from './realtime.service';
+import { roundMoney } from './pricing.service';
+
+// Types
+export interface RecoverySettings {
+  // Idle hours after which each reminder goes out, ascending
+  thresholdsHours: number[];
+  // Carts idle for longer than this are left alone
+  maxIdleDays: number;
+  // Percent off the single-use code sent with the last reminder; 0 sends none
+  promoPercent: number;
+  promoValidDays: number;
+  // An order within this many days of a reminder counts as recovered
+  attributionDays: number;
+}
+
+export interface RecoverySummary {
+  remindersSent: number;
+  cartsReminded: number;
+  cartsRecovered: number;
+  // Recovered carts over reminded carts, 0 to 1
+  recoveryRate: number;
+  recoveredRevenue: number;
+  byStage: { stage: number; sent: number; converted: number }[];
+}
+
+interface AbandonedCartRow {
+  id: string;
+  userId: string;
+  storeId: string;
+  updatedAt: Date;
+  lastStage: number;
+}
+
+const DETECT_BATCH_SIZE = 200;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export function getRecoverySettings(
+  env: Record<string, string | undefined> = process.env
+): RecoverySettings {
+  const thresholdsHours = (env.CART_ABANDONMENT_HOURS || '4,24')
+    .split(',')
+    .map(Number)
+    .filter(hours => Number.isFinite(hours) && hours > 0)
+    .sort((a, b) => a - b);
+
+  return {
+    thresholdsHours: thresholdsHours.length > 0 ? thresholdsHours : [4, 24],
+    maxIdleDays: Number(env.CART_ABANDONMENT_MAX_IDLE_DAYS) || 7,
+    promoPercent: Number(env.CART_RECOVERY_PROMO_PERCENT) || 0,
+    promoValidDays: Number(env.CART_RECOVERY_PROMO_DAYS) || 3,
+    attributionDays: Number(env.CART_RECOVERY_ATTRIBUTION_DAYS) || 7,
+  };
+}
+
+// The reminder due for a cart that has been idle for idleMs, or null. A job
+// that fell behind sends only the latest reminder reached, never one twice.
+export function dueStage(
+  idleMs: number,
+  thresholdsHours: number[],
+  lastSentStage: number
+): number | null {
+  const reached = thresholdsHours.filter(hours => idleMs >= hours * HOUR_MS).length;
+  return reached > lastSentStage ? reached : null;
+}
+
+// Reminder and conversion counts. A cart counts once per idle period, and
+// each conversion is credited to the last reminder before the order.
+export function summarizeRecoveries(
+  recoveries: Pick<CartRecovery, 'cartId' | 'cartUpdatedAt' | 'stage' | 'convertedAt'>[],
+  recoveredRevenue: number
+): RecoverySummary {
+  const periods = new Set(
+    recoveries.map(recovery => `${recovery.cartId}:${recovery.cartUpdatedAt.getTime()}`)
+  );
+  const converted = recoveries.filter(recovery => recovery.convertedAt !== null);
+  const stages = Array.from(new Set(recoveries.map(recovery => recovery.stage))).sort(
+    (a, b) => a - b
+  );
+
+  return {
+    remindersSent: recoveries.length,
+    cartsReminded: periods.size,
+    cartsRecovered: converted.length,
+    recoveryRate:
+      periods.size > 0 ? Math.round((converted.length / periods.size) * 10000) / 10000 : 0,
+    recoveredRevenue: roundMoney(recoveredRevenue),
+    byStage: stages.map(stage => ({
+      stage,
+      sent: recoveries.filter(recovery => recovery.stage === stage).length,
+      converted: converted.filter(recovery => recovery.stage === stage).length,
+    })),
+  };
+}
+
+// Service class
+export class CartRecoveryService {
+  private cartService: CartService;
+
+  constructor() {
+    this.cartService = new CartService();
+  }
+
+  // Remind users of carts they left with items in. Each threshold sends one
+  // reminder per idle period; changing the cart starts a new period.
+  async detectAbandonedCarts(): Promise<{ reminders: number; promoCodes: number }> {
+    const settings = getRecoverySettings();
+    const now = Date.now();
+
+    const carts: AbandonedCartRow[] = await prisma.$queryRaw`
+      SELECT c."id", c."userId", c."storeId", c."updatedAt",
+        COALESCE((
+          SELECT MAX(r."stage") FROM "backend"."cart_recoveries" r
+          WHERE r."cartId" = c."id" AND r."cartUpdatedAt" = c."updatedAt"
+        ), 0)::int AS "lastStage"
+      FROM "backend"."shopping_carts" c
+      WHERE c."isActive" = true
+        AND c."userId" IS NOT NULL
+        AND c."updatedAt" <= ${new Date(now - settings.thresholdsHours[0] * HOUR_MS)}
+        AND c."updatedAt" >= ${new Date(now - settings.maxIdleDays * DAY_MS)}
+        AND EXISTS (SELECT 1 FROM "backend"."cart_items" i WHERE i."cartId" = c."id")
+        AND COALESCE((
+          SELECT MAX(r."stage") FROM "backend"."cart_recoveries" r
+          WHERE r."cartId" = c."id" AND r."cartUpdatedAt" = c."updatedAt"
+        ), 0) < ${settings.thresholdsHours.length}
+      ORDER BY c."updatedAt" ASC
+      LIMIT ${DETECT_BATCH_SIZE}
+    `;
+
+    let reminders = 0;
+    let promoCodes = 0;
+
+    for (const cart of carts) {
+      const stage = dueStage(
+        now - cart.updatedAt.getTime(),
+        settings.thresholdsHours,
+        cart.lastStage
+      );
+      if (stage === null) continue;
+
+      try {
+        const sent = await this.sendReminder(cart, stage, settings);
+        if (sent) {
+          reminders++;
+          if (sent.promoCode) promoCodes++;
+        }
+      } catch (error) {
+        console.error(`[CartRecovery] Error reminding cart ${cart.id}:`, error);
+      }
+    }
+
+    console.log(`[CartRecovery] Sent ${reminders} reminders (${promoCodes} with promo codes)`);
+
+    return { reminders, promoCodes };
+  }
+
+  // Credit an order to the cart's last reminder, when that reminder went out
+  // within the attribution window and hasn't been credited yet. Runs in the
+  // checkout transaction.
+  async markConverted(tx: any, cartId: string, orderId: string): Promise<boolean> {
+    const { attributionDays } = getRecoverySettings();
+    const latest = await tx.cartRecovery.findFirst({
+      where: { cartId, notifiedAt: { gte: new Date(Date.now() - attributionDays * DAY_MS) } },
+      orderBy: { notifiedAt: 'desc' },
+    });
+
+    if (!latest || latest.convertedAt) {
+      return false;
+    }
+
+    await tx.cartRecovery.update({
+      where: { id: latest.id },
+      data: { orderId, convertedAt: new Date() },
+    });
+
+    return true;
+  }
+
+  // Reminders and recoveries for reminders sent since a date
+  async getSummary(where: Prisma.CartRecoveryWhereInput): Promise<RecoverySummary> {
+    const recoveries = await prisma.cartRecovery.findMany({
+      where,
+      select: { cartId: true, cartUpdatedAt: true, stage: true, convertedAt: true, orderId: true },
+    });
+
+    const orderIds = recoveries
+      .map(recovery => recovery.orderId)
+      .filter((orderId): orderId is string => orderId !== null);
+    const revenue =
+      orderIds.length > 0
+        ? await prisma.order.aggregate({
+            where: { id: { in: orderIds }, status: { not: 'cancelled' } },
+            _sum: { totalAmount: true },
+          })
+        : null;
+
+    return summarizeRecoveries(recoveries, Number(revenue?._sum.totalAmount || 0));
+  }
+
+  // Record and send one reminder; null when the cart emptied meanwhile or
+  // another run got there first
+  private async sendReminder(
+    cart: AbandonedCartRow,
+    stage: number,
+    settings: RecoverySettings
+  ): Promise<CartRecovery | null> {
+    const priced = await this.cartService.getCartWithItems({ userId: cart.userId }, cart.storeId);
+    if (!priced || priced.items.length === 0) {
+      return null;
+    }
+
+    const lastStage = stage === settings.thresholdsHours.length;
+    const promotion =
+      lastStage && settings.promoPercent > 0 ? await this.createPromoCode(settings) : null;
+
+    let recovery: CartRecovery;
+    try {
+      recovery = await prisma.cartRecovery.create({
+        data: {
+          cartId: cart.id,
+          userId: cart.userId,
+          storeId: cart.storeId,
+          stage,
+          cartUpdatedAt: cart.updatedAt,
+          cartTotal: priced.totals.subtotal,
+          promotionId: promotion?.id,
+          promoCode: promotion?.code,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        if (promotion) {
+          await prisma.promotion.update({ where: { id: promotion.id }, data: { isActive: false } });
+        }
+        return null;
+      }
+      throw error;
+    }
+
+    const itemCount = priced.items.reduce((sum, item) => sum + item.quantity, 0);
+    const title = 'You left something in your cart';
+    const message = promotion
+      ? `Your ${itemCount} item${itemCount === 1 ? ' is' : 's are'} still waiting. Use ${promotion.code} for ${settings.promoPercent}% off.`
+      : `Your ${itemCount} item${itemCount === 1 ? ' is' : 's are'} still waiting.`;
+    const data = {
+      recoveryId: recovery.id,
+      cartId: cart.id,
+      storeId: cart.storeId,
+      stage,
+      subtotal: priced.totals.subtotal,
+      ...(promotion && { promoCode: promotion.code, promoExpiresAt: promotion.endDate }),
+    };
+
+    await prisma.pushNotification.create({
+      data: {
+        userId: cart.userId,
+        storeId: cart.storeId,
+        title,
+        message,
+        type: 'cart_recovery',
+        data,
+        sentAt: new Date(),
+      },
+    });
+
+    const realtime = RealtimeService.getInstance();
+    if (realtime) {
+      realtime.sendNotification(cart.userId, { title, message, type: 'info', data });
+    }
+
+    return recovery;
+  }
+
+  // A percentage code that one customer can use once before it expires
+  private async createPromoCode(settings: RecoverySettings) {
+    const now = new Date();
+
+    return prisma.promotion.create({
+      data: {
+        name: 'Cart recovery',
+        description: `${settings.promoPercent}% off to complete an abandoned cart`,
+        discountType: 'percentage',
+        discountValue: settings.promoPercent,
+        code: `COMEBACK-${randomBytes(4).toString('hex').toUpperCase()}`,
+        isActive: true,
+        startDate: now,
+        endDate: new Date(now.getTime() + settings.promoValidDays * DAY_MS),
+        applicableProducts: [],
+        applicableCategories: [],
+        usageLimit: 1,
+        perUserLimit: 1,
+      },
+    });
+  }
+}
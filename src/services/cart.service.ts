@@ -1,24 +1,40 @@
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import prisma from '../db/prisma';
 import { StrapiService } from './strapi.service';
+import { PriceBreakdown, PricingInput, PricingService } from './pricing.service';
+import { PromotionService, checkPromotionAvailability, checkStacking } from './promotion.service';
 import { ShoppingCart, CartItem } from '@prisma/client';
 
+// Most of one product a cart can hold
+export const MAX_CART_ITEM_QUANTITY = 100;
+
 // Validation schemas
 export const addToCartSchema = z.object({
   productId: z.string().min(1),
-  quantity: z.number().min(1).max(100),
+  quantity: z.number().min(1).max(MAX_CART_ITEM_QUANTITY),
   storeId: z.string().uuid(),
 });
 
 export const updateCartItemSchema = z.object({
-  quantity: z.number().min(1).max(100),
+  quantity: z.number().min(1).max(MAX_CART_ITEM_QUANTITY),
 });
 
 export const promoCodeSchema = z.object({
   code: z.string().min(1),
 });
 
+export const moveCartSchema = z.object({
+  fromStoreId: z.string().uuid(),
+  toStoreId: z.string().uuid(),
+});
+
 // Types
+// A cart belongs to a signed-in user, or to a guest identified by the id in
+// their signed cart token
+export type CartOwner = { userId: string } | { guestId: string };
+
 export interface CartWithItems extends ShoppingCart {
   items: (CartItem & {
     product?: any; // Strapi product data
@@ -30,6 +46,45 @@ export interface CartWithItems extends ShoppingCart {
     discount: number;
     total: number;
   };
+  // Itemized result of the pricing pipeline the totals come from
+  pricing: PriceBreakdown;
+}
+
+// One of the owner's carts, with the store it belongs to
+export interface CartOverview extends CartWithItems {
+  store: { id: string; name: string; city: string | null } | null;
+}
+
+// Why a product ended up short when carts were merged
+export type CartItemShortfall = 'not_available' | 'insufficient_stock' | 'quantity_limit';
+
+export interface CartItemIssue {
+  productId: string;
+  name?: string;
+  // Quantity that was asked to move, and how much of it did
+  requested: number;
+  moved: number;
+  reason: CartItemShortfall;
+}
+
+export interface CartMoveResult {
+  cart: CartWithItems;
+  unavailable: CartItemIssue[];
+}
+
+// An item headed into another cart, at the price it should have there
+interface IncomingCartItem {
+  productId: string;
+  name?: string;
+  quantity: number;
+  priceAtTime: CartItem['priceAtTime'] | number;
+}
+
+interface MergeTarget {
+  id: string;
+  storeId: string;
+  items: CartItem[];
+  promotions: unknown[];
 }
 
 export interface CartSummary {
@@ -41,19 +96,87 @@ export interface CartSummary {
   estimatedTotal: number;
 }
 
+// Prisma filter for an owner's carts
+function ownerWhere(owner: CartOwner): CartOwner {
+  return 'userId' in owner ? { userId: owner.userId } : { guestId: owner.guestId };
+}
+
+function ownerUserId(owner: CartOwner): string | null {
+  return 'userId' in owner ? owner.userId : null;
+}
+
+function isOwnedBy(cart: Pick<ShoppingCart, 'userId' | 'guestId'>, owner: CartOwner): boolean {
+  return 'userId' in owner ? cart.userId === owner.userId : cart.guestId === owner.guestId;
+}
+
+// Quantity of a product once a guest cart merges into a user's cart: both
+// quantities add up, capped by the store's stock and the per-product maximum.
+// 0 means the product can't stay in the cart.
+export function resolveMergedQuantity(
+  existing: number,
+  incoming: number,
+  available: number,
+  max: number = MAX_CART_ITEM_QUANTITY
+): number {
+  return Math.max(0, Math.min(existing + incoming, available, max));
+}
+
+// Merged quantity of a product and, when it falls short of both carts
+// together, why. A null availability means the store doesn't sell it.
+export function mergeCartItem(
+  existing: number,
+  incoming: number,
+  available: number | null
+): { quantity: number; shortfall: CartItemShortfall | null } {
+  const quantity = resolveMergedQuantity(existing, incoming, available ?? 0);
+
+  if (quantity >= existing + incoming) {
+    return { quantity, shortfall: null };
+  }
+  if (available === null) {
+    return { quantity, shortfall: 'not_available' };
+  }
+  return { quantity, shortfall: quantity < available ? 'quantity_limit' : 'insufficient_stock' };
+}
+
 // Service class
 export class CartService {
   private strapiService: StrapiService;
+  private pricingService: PricingService;
+  private promotionService: PromotionService;
 
   constructor() {
     this.strapiService = new StrapiService();
+    this.pricingService = new PricingService();
+    this.promotionService = new PromotionService();
+  }
+
+  // Start a guest and sign the cart token that identifies them
+  issueCartToken(): { guestId: string; cartToken: string } {
+    const guestId = randomUUID();
+    const cartToken = jwt.sign({ guestId, type: 'guest_cart' }, this.getCartTokenSecret(), {
+      expiresIn: `${this.getGuestCartTtlDays()}d`,
+    } as jwt.SignOptions);
+
+    return { guestId, cartToken };
+  }
+
+  // Guest id from a cart token, or null when it is invalid or expired
+  verifyCartToken(token: string): string | null {
+    try {
+      const decoded = jwt.verify(token, this.getCartTokenSecret()) as any;
+      if (decoded.type !== 'guest_cart' || typeof decoded.guestId !== 'string') return null;
+      return decoded.guestId;
+    } catch {
+      return null;
+    }
   }
 
-  // Get or create cart for user and store
-  async getOrCreateCart(userId: string, storeId: string): Promise<ShoppingCart> {
+  // Get or create cart for an owner and store
+  async getOrCreateCart(owner: CartOwner, storeId: string): Promise<ShoppingCart> {
     let cart = await prisma.shoppingCart.findFirst({
       where: {
-        userId,
+        ...ownerWhere(owner),
         storeId,
         isActive: true,
       },
@@ -62,7 +185,7 @@ export class CartService {
     if (!cart) {
       cart = await prisma.shoppingCart.create({
         data: {
-          userId,
+          ...ownerWhere(owner),
           storeId,
         },
       });
@@ -72,10 +195,14 @@ export class CartService {
   }
 
   // Get cart with items and totals
-  async getCartWithItems(userId: string, storeId: string): Promise<CartWithItems | null> {
+  async getCartWithItems(
+    owner: CartOwner,
+    storeId: string,
+    pricingInput: Omit<PricingInput, 'items'> = {}
+  ): Promise<CartWithItems | null> {
     const cart = await prisma.shoppingCart.findFirst({
       where: {
-        userId,
+        ...ownerWhere(owner),
         storeId,
         isActive: true,
       },
@@ -110,25 +237,45 @@ export class CartService {
       })
     );
 
-    // Calculate totals
-    const totals = this.calculateCartTotals(itemsWithProducts);
+    // Price the cart at current catalogue and store prices, with the
+    // promotions applied to it
+    const promotions =
+      pricingInput.promotions ??
+      (await this.promotionService.getPricingPromotions(cart.id, ownerUserId(owner)));
+    const pricing = await this.pricingService.priceItems(
+      storeId,
+      itemsWithProducts.map(item => ({
+        productId: item.productId,
+        name: item.product?.attributes?.name,
+        quantity: item.quantity,
+        basePrice: item.product?.attributes?.price ?? Number(item.priceAtTime),
+      })),
+      { ...pricingInput, promotions }
+    );
 
     return {
       ...cart,
       items: itemsWithProducts,
-      totals,
+      totals: {
+        subtotal: pricing.subtotal,
+        tax: pricing.tax,
+        deliveryFee: pricing.deliveryFee,
+        discount: pricing.discount,
+        total: pricing.total,
+      },
+      pricing,
     };
   }
 
   // Add item to cart
-  async addToCart(userId: string, data: z.infer<typeof addToCartSchema>): Promise<CartWithItems> {
+  async addToCart(owner: CartOwner, data: z.infer<typeof addToCartSchema>): Promise<CartWithItems> {
     const { productId, quantity, storeId } = data;
 
-    // Validate product exists and get current price
-    let productPrice: number;
+    // Validate product exists and get current catalogue price
+    let basePrice: number;
     try {
       const productResponse = await this.strapiService.getProductById(parseInt(productId));
-      productPrice = productResponse.data.attributes.price;
+      basePrice = productResponse.data.attributes.price;
     } catch (error) {
       throw new Error('Product not found');
     }
@@ -150,8 +297,11 @@ export class CartService {
       throw new Error(`Only ${inventory.quantityAvailable} items available`);
     }
 
+    // The store's price override wins over the catalogue price
+    const productPrice = await this.pricingService.getUnitPrice(storeId, productId, basePrice);
+
     // Get or create cart
-    const cart = await this.getOrCreateCart(userId, storeId);
+    const cart = await this.getOrCreateCart(owner, storeId);
 
     // Check if item already exists in cart
     const existingItem = await prisma.cartItem.findFirst({
@@ -189,14 +339,15 @@ export class CartService {
         },
       });
     }
+    await this.touchCart(cart.id);
 
     // Return updated cart
-    return this.getCartWithItems(userId, storeId) as Promise<CartWithItems>;
+    return this.getCartWithItems(owner, storeId) as Promise<CartWithItems>;
   }
 
   // Update cart item quantity
   async updateCartItem(
-    userId: string,
+    owner: CartOwner,
     itemId: string,
     data: z.infer<typeof updateCartItemSchema>
   ): Promise<CartWithItems> {
@@ -214,7 +365,7 @@ export class CartService {
       throw new Error('Cart item not found');
     }
 
-    if (cartItem.cart.userId !== userId) {
+    if (!isOwnedBy(cartItem.cart, owner)) {
       throw new Error('Unauthorized');
     }
 
@@ -240,13 +391,14 @@ export class CartService {
       where: { id: itemId },
       data: { quantity },
     });
+    await this.touchCart(cartItem.cartId);
 
     // Return updated cart
-    return this.getCartWithItems(userId, cartItem.cart.storeId) as Promise<CartWithItems>;
+    return this.getCartWithItems(owner, cartItem.cart.storeId) as Promise<CartWithItems>;
   }
 
   // Remove item from cart
-  async removeCartItem(userId: string, itemId: string): Promise<CartWithItems> {
+  async removeCartItem(owner: CartOwner, itemId: string): Promise<CartWithItems> {
     // Find the cart item
     const cartItem = await prisma.cartItem.findFirst({
       where: { id: itemId },
@@ -259,7 +411,7 @@ export class CartService {
       throw new Error('Cart item not found');
     }
 
-    if (cartItem.cart.userId !== userId) {
+    if (!isOwnedBy(cartItem.cart, owner)) {
       throw new Error('Unauthorized');
     }
 
@@ -267,16 +419,17 @@ export class CartService {
     await prisma.cartItem.delete({
       where: { id: itemId },
     });
+    await this.touchCart(cartItem.cartId);
 
     // Return updated cart
-    return this.getCartWithItems(userId, cartItem.cart.storeId) as Promise<CartWithItems>;
+    return this.getCartWithItems(owner, cartItem.cart.storeId) as Promise<CartWithItems>;
   }
 
   // Clear cart
-  async clearCart(userId: string, storeId: string): Promise<void> {
+  async clearCart(owner: CartOwner, storeId: string): Promise<void> {
     const cart = await prisma.shoppingCart.findFirst({
       where: {
-        userId,
+        ...ownerWhere(owner),
         storeId,
         isActive: true,
       },
@@ -290,9 +443,10 @@ export class CartService {
     }
   }
 
-  // Apply promo code
+  // Apply promo code: the promotion is stored on the cart and discounts it
+  // until checkout, where its redemption is recorded
   async applyPromoCode(
-    userId: string,
+    owner: CartOwner,
     storeId: string,
     data: z.infer<typeof promoCodeSchema>
   ): Promise<{
@@ -301,129 +455,83 @@ export class CartService {
     message: string;
   }> {
     const { code } = data;
+    const invalid = (message: string) => ({ valid: false, discount: 0, message });
 
     try {
-      // Get active promotions from Strapi
-      const promotions = await this.strapiService.getPromotions({
-        filters: {
-          code: code,
-          isActive: true,
-        },
-      });
-
-      if (promotions.data.length === 0) {
-        return {
-          valid: false,
-          discount: 0,
-          message: 'Invalid promo code',
-        };
-      }
-
-      const promotion = promotions.data[0];
-      const now = new Date();
-      const startDate = new Date(promotion.attributes.startDate);
-      const endDate = new Date(promotion.attributes.endDate);
-
-      // Check if promotion is active
-      if (now < startDate || now > endDate) {
-        return {
-          valid: false,
-          discount: 0,
-          message: 'Promo code has expired',
-        };
+      const cart = await this.getCartWithItems(owner, storeId);
+      if (!cart || cart.items.length === 0) {
+        return invalid('Cart is empty');
       }
 
-      // Get cart to calculate discount
-      const cart = await this.getCartWithItems(userId, storeId);
-      if (!cart) {
-        return {
-          valid: false,
-          discount: 0,
-          message: 'Cart is empty',
-        };
+      const promotion = await this.promotionService.findByCode(code);
+      if (!promotion) {
+        return invalid('Invalid promo code');
       }
 
-      // Check minimum order amount
-      if (
-        promotion.attributes.minOrderAmount &&
-        cart.totals.subtotal < promotion.attributes.minOrderAmount
-      ) {
-        return {
-          valid: false,
-          discount: 0,
-          message: `Minimum order amount of $${promotion.attributes.minOrderAmount} required`,
-        };
+      // Guests have no redemptions yet; their per-user limit is checked once
+      // the cart is theirs at checkout
+      const userId = ownerUserId(owner);
+      const userRedemptions = userId
+        ? await this.promotionService.countUserRedemptions(promotion.id, userId)
+        : 0;
+      const unavailable = checkPromotionAvailability(promotion, userRedemptions);
+      if (unavailable) {
+        return invalid(unavailable);
       }
 
-      // Calculate discount
-      let discount = 0;
-      if (promotion.attributes.discountType === 'percentage') {
-        discount = (cart.totals.subtotal * promotion.attributes.discountValue) / 100;
-      } else {
-        discount = promotion.attributes.discountValue;
+      const applied = await this.promotionService.getCartPromotions(cart.id);
+      const conflict = checkStacking(
+        promotion,
+        applied.map(entry => entry.promotion)
+      );
+      if (conflict) {
+        return invalid(conflict);
       }
 
-      // Apply maximum discount limit
-      if (
-        promotion.attributes.maxDiscountAmount &&
-        discount > promotion.attributes.maxDiscountAmount
-      ) {
-        discount = promotion.attributes.maxDiscountAmount;
+      // Store it, then price the cart with it; a code that takes nothing off
+      // doesn't stay on the cart
+      await this.promotionService.addToCart(cart.id, promotion, code);
+      const priced = (await this.getCartWithItems(owner, storeId)) as CartWithItems;
+      const appliedCode = promotion.code || code;
+      const discount =
+        priced.pricing.promotions.find(entry => entry.code === appliedCode)?.amount ?? 0;
+
+      if (discount === 0) {
+        await this.promotionService.removeFromCart(cart.id, appliedCode);
+        const minOrderAmount = Number(promotion.minOrderAmount ?? 0);
+        return invalid(
+          priced.totals.subtotal < minOrderAmount
+            ? `Minimum order amount of $${minOrderAmount} required`
+            : 'Promo code does not apply to any item in your cart'
+        );
       }
 
       return {
         valid: true,
-        discount: Math.round(discount * 100) / 100,
+        discount,
         message: `Promo code applied! You saved $${discount.toFixed(2)}`,
       };
     } catch (error) {
       console.error('[Cart] Error applying promo code:', error);
-      return {
-        valid: false,
-        discount: 0,
-        message: 'Error applying promo code',
-      };
+      return invalid('Error applying promo code');
     }
   }
 
-  // Calculate cart totals
-  private calculateCartTotals(
-    items: (CartItem & { product?: any })[]
-  ): {
-    subtotal: number;
-    tax: number;
-    deliveryFee: number;
-    discount: number;
-    total: number;
-  } {
-    const subtotal = items.reduce((sum, item) => {
-      return sum + Number(item.priceAtTime) * item.quantity;
-    }, 0);
-
-    // Calculate tax (simplified - 8.5% for now)
-    const taxRate = 0.085;
-    const tax = subtotal * taxRate;
-
-    // Calculate delivery fee (simplified - $2.99 for orders under $25)
-    const deliveryFee = subtotal < 25 ? 2.99 : 0;
-
-    // No discount applied yet (would be calculated separately)
-    const discount = 0;
+  // Remove a promo code from the cart
+  async removePromoCode(owner: CartOwner, storeId: string, code: string): Promise<CartWithItems> {
+    const cart = await this.getOrCreateCart(owner, storeId);
 
-    const total = subtotal + tax + deliveryFee - discount;
+    const removed = await this.promotionService.removeFromCart(cart.id, code);
+    if (!removed) {
+      throw new Error('Promo code not found on cart');
+    }
 
-    return {
-      subtotal: Math.round(subtotal * 100) / 100,
-      tax: Math.round(tax * 100) / 100,
-      deliveryFee: Math.round(deliveryFee * 100) / 100,
-      discount: Math.round(discount * 100) / 100,
-      total: Math.round(total * 100) / 100,
-    };
+    return this.getCartWithItems(owner, storeId) as Promise<CartWithItems>;
   }
 
   // Get cart summary
-  async getCartSummary(userId: string, storeId: string): Promise<CartSummary | null> {
-    const cart = await this.getCartWithItems(userId, storeId);
+  async getCartSummary(owner: CartOwner, storeId: string): Promise<CartSummary | null> {
+    const cart = await this.getCartWithItems(owner, storeId);
     if (!cart) {
       return null;
     }
@@ -440,20 +548,30 @@ export class CartService {
 
   // Validate cart before checkout
   async validateCartForCheckout(
-    userId: string,
+    owner: CartOwner,
     storeId: string
   ): Promise<{
     valid: boolean;
     errors: string[];
   }> {
     const errors: string[] = [];
-    const cart = await this.getCartWithItems(userId, storeId);
+    const cart = await this.getCartWithItems(owner, storeId);
 
     if (!cart || cart.items.length === 0) {
       errors.push('Cart is empty');
       return { valid: false, errors };
     }
 
+    // Stores don't take orders below their minimum amount
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { minOrderAmount: true },
+    });
+    const minOrderAmount = Number(store?.minOrderAmount ?? 0);
+    if (cart.totals.subtotal < minOrderAmount) {
+      errors.push(`Minimum order amount of $${minOrderAmount.toFixed(2)} required`);
+    }
+
     // Check each item for availability
     for (const item of cart.items) {
       const inventory = await prisma.storeInventory.findFirst({
@@ -479,4 +597,220 @@ export class CartService {
       errors,
     };
   }
+
+  // Move a guest's carts to a user who just signed in. A store the user has
+  // no cart for gets the guest cart as is; otherwise the items merge into the
+  // user's cart within the store's stock, and the guest cart goes away.
+  async mergeGuestCarts(guestId: string, userId: string): Promise<number> {
+    const guestCarts = await prisma.shoppingCart.findMany({
+      where: { guestId, isActive: true },
+      include: { items: true, promotions: true },
+    });
+
+    for (const guestCart of guestCarts) {
+      await prisma.$transaction(async (tx: any) => {
+        const userCart = await tx.shoppingCart.findFirst({
+          where: { userId, storeId: guestCart.storeId, isActive: true },
+          include: { items: true, promotions: true },
+        });
+
+        if (!userCart) {
+          await tx.shoppingCart.update({
+            where: { id: guestCart.id },
+            data: { userId, guestId: null },
+          });
+          return;
+        }
+
+        await this.mergeCartInto(tx, guestCart.id, userCart, guestCart.items);
+      });
+    }
+
+    if (guestCarts.length > 0) {
+      console.log(`[Cart] Merged ${guestCarts.length} guest cart(s) into user ${userId}`);
+    }
+
+    return guestCarts.length;
+  }
+
+  // All of an owner's active carts, one per store, with their totals
+  async getAllCarts(owner: CartOwner): Promise<CartOverview[]> {
+    const carts = await prisma.shoppingCart.findMany({
+      where: { ...ownerWhere(owner), isActive: true },
+      select: { storeId: true },
+      orderBy: { updatedAt: 'desc' },
+    });
+    const stores = await prisma.store.findMany({
+      where: { id: { in: carts.map(cart => cart.storeId) } },
+      select: { id: true, name: true, city: true },
+    });
+
+    const overviews = await Promise.all(
+      carts.map(async cart => {
+        const priced = await this.getCartWithItems(owner, cart.storeId);
+        const store = stores.find(candidate => candidate.id === cart.storeId) ?? null;
+        return priced ? { ...priced, store } : null;
+      })
+    );
+
+    return overviews.filter((overview): overview is CartOverview => overview !== null);
+  }
+
+  // Move a cart to another store, priced at that store and limited to what
+  // it stocks. Items join the owner's cart there if they already have one.
+  async moveCartToStore(
+    owner: CartOwner,
+    data: z.infer<typeof moveCartSchema>
+  ): Promise<CartMoveResult> {
+    const { fromStoreId, toStoreId } = data;
+
+    if (fromStoreId === toStoreId) {
+      throw new Error('Cart is already in this store');
+    }
+
+    const store = await prisma.store.findUnique({
+      where: { id: toStoreId },
+      select: { isActive: true },
+    });
+    if (!store || !store.isActive) {
+      throw new Error('Store not found');
+    }
+
+    const cart = await this.getCartWithItems(owner, fromStoreId);
+    if (!cart) {
+      throw new Error('Cart not found');
+    }
+
+    // Price the items at the target store before anything moves
+    const items: IncomingCartItem[] = await Promise.all(
+      cart.items.map(async item => ({
+        productId: item.productId,
+        name: item.product?.attributes?.name,
+        quantity: item.quantity,
+        priceAtTime: await this.pricingService.getUnitPrice(
+          toStoreId,
+          item.productId,
+          item.product?.attributes?.price ?? Number(item.priceAtTime)
+        ),
+      }))
+    );
+
+    const unavailable: CartItemIssue[] = await prisma.$transaction(async (tx: any) => {
+      const target =
+        (await tx.shoppingCart.findFirst({
+          where: { ...ownerWhere(owner), storeId: toStoreId, isActive: true },
+          include: { items: true, promotions: true },
+        })) ??
+        (await tx.shoppingCart.create({
+          data: { ...ownerWhere(owner), storeId: toStoreId },
+          include: { items: true, promotions: true },
+        }));
+
+      return this.mergeCartInto(tx, cart.id, target, items);
+    });
+
+    console.log(
+      `[Cart] Moved cart ${cart.id} from store ${fromStoreId} to ${toStoreId}` +
+        (unavailable.length > 0 ? ` (${unavailable.length} item(s) short)` : '')
+    );
+
+    return {
+      cart: (await this.getCartWithItems(owner, toStoreId)) as CartWithItems,
+      unavailable,
+    };
+  }
+
+  // Delete guest carts older than a cart token lives: the token that reached
+  // them was issued before the cart was created, so it has expired
+  async purgeStaleGuestCarts(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.getGuestCartTtlDays() * 24 * 60 * 60 * 1000);
+    const { count } = await prisma.shoppingCart.deleteMany({
+      where: { userId: null, createdAt: { lt: cutoff } },
+    });
+
+    return count;
+  }
+
+  // Merge items into a cart within its store's stock, then delete the cart
+  // they came from. Promo codes come along only when the target has none, so
+  // they can't clash with its own. Returns the items that fell short.
+  private async mergeCartInto(
+    tx: any,
+    sourceCartId: string,
+    target: MergeTarget,
+    items: IncomingCartItem[]
+  ): Promise<CartItemIssue[]> {
+    const issues: CartItemIssue[] = [];
+
+    for (const item of items) {
+      const existing = target.items.find(candidate => candidate.productId === item.productId);
+      const inventory = await tx.storeInventory.findFirst({
+        where: { storeId: target.storeId, productId: item.productId, isAvailable: true },
+      });
+      const existingQuantity = existing?.quantity ?? 0;
+      const { quantity, shortfall } = mergeCartItem(
+        existingQuantity,
+        item.quantity,
+        inventory ? inventory.quantityAvailable : null
+      );
+
+      if (existing && quantity > 0) {
+        await tx.cartItem.update({ where: { id: existing.id }, data: { quantity } });
+      } else if (existing) {
+        await tx.cartItem.delete({ where: { id: existing.id } });
+      } else if (quantity > 0) {
+        await tx.cartItem.create({
+          data: {
+            cartId: target.id,
+            productId: item.productId,
+            quantity,
+            priceAtTime: item.priceAtTime,
+          },
+        });
+      }
+
+      if (shortfall) {
+        issues.push({
+          productId: item.productId,
+          name: item.name,
+          requested: item.quantity,
+          moved: Math.max(0, quantity - existingQuantity),
+          reason: shortfall,
+        });
+      }
+    }
+
+    if (target.promotions.length === 0) {
+      await tx.appliedPromotion.updateMany({
+        where: { cartId: sourceCartId },
+        data: { cartId: target.id },
+      });
+    }
+
+    await tx.shoppingCart.delete({ where: { id: sourceCartId } });
+    await tx.shoppingCart.update({ where: { id: target.id }, data: { updatedAt: new Date() } });
+
+    return issues;
+  }
+
+  // Item changes don't write the cart row, so bump updatedAt by hand; cart
+  // recovery measures how long a cart has sat untouched from it
+  private async touchCart(cartId: string): Promise<void> {
+    await prisma.shoppingCart.update({
+      where: { id: cartId },
+      data: { updatedAt: new Date() },
+    });
+  }
+
+  private getCartTokenSecret(): string {
+    const secret = process.env.CART_TOKEN_SECRET || process.env.JWT_ACCESS_SECRET;
+    if (!secret) {
+      throw new Error('CART_TOKEN_SECRET or JWT_ACCESS_SECRET must be set');
+    }
+    return secret;
+  }
+
+  private getGuestCartTtlDays(): number {
+    return Number(process.env.GUEST_CART_TTL_DAYS) || 30;
+  }
 }
@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { DeliveryFeeTier, DeliveryZone, Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { DEFAULT_PRICING_OPTIONS } from './pricing.service';
+import { assertManagesStore } from './store-access.service';
+
+// Validation schemas
+export const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export const deliveryQuoteSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+});
+
+export const createDeliveryZoneSchema = z.object({
+  name: z.string().min(1).max(100),
+  polygon: z.array(geoPointSchema).min(3).max(500),
+  isActive: z.boolean().optional(),
+});
+
+export const deliveryFeeTiersSchema = z.object({
+  tiers: z
+    .array(
+      z.object({
+        maxDistanceKm: z.number().positive().max(1000),
+        fee: z.number().min(0),
+      })
+    )
+    .max(20)
+    .refine(
+      tiers => new Set(tiers.map(tier => tier.maxDistanceKm)).size === tiers.length,
+      'Each tier needs a different maxDistanceKm'
+    ),
+});
+
+// Types
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DeliveryActor {
+  userId: string;
+  role: string;
+}
+
+export type DeliveryRefusal = 'delivery_disabled' | 'outside_radius' | 'outside_zone';
+
+export interface DeliveryAreaCheck {
+  eligible: boolean;
+  reason: DeliveryRefusal | null;
+  distanceKm: number;
+  // Zone the address fell in, when the store delivers by zone
+  zoneId: string | null;
+}
+
+export interface DeliveryQuote extends DeliveryAreaCheck {
+  // Fee before the free delivery threshold; null when the store can't deliver
+  fee: number | null;
+  minOrderAmount: number;
+}
+
+export interface FeeTier {
+  maxDistanceKm: number;
+  fee: number;
+}
+
+// Where a point falls relative to a store's delivery area, as PostGIS sees it
+export interface DeliveryAreaMatch {
+  eligible: boolean;
+  distanceKm: number;
+  hasZones: boolean;
+  zoneId: string | null;
+}
+
+// Whether the store aliased "s" delivers to a point (a PostGIS geometry in
+// SRID 4326). Stores with active zones deliver only inside them; otherwise
+// the point must be within Store.deliveryRadius km. Checkout quotes and the
+// nearby store search both use this, so they never disagree.
+export function buildDeliversToPointSql(point: Prisma.Sql): Prisma.Sql {
+  return Prisma.sql`CASE
+    WHEN EXISTS (
+      SELECT 1 FROM "backend"."delivery_zones" z WHERE z."storeId" = s."id" AND z."isActive"
+    )
+    THEN EXISTS (
+      SELECT 1 FROM "backend"."delivery_zones" z
+      WHERE z."storeId" = s."id" AND z."isActive" AND public.ST_Covers(z."area", ${point})
+    )
+    ELSE s."deliveryRadius" > 0
+      AND public.ST_DWithin(s."location", ${point}::public.geography, s."deliveryRadius" * 1000)
+  END`;
+}
+
+// Why a store does or doesn't deliver to a point
+export function checkDeliveryArea(
+  store: { deliveryRadius: number },
+  match: DeliveryAreaMatch
+): DeliveryAreaCheck {
+  let reason: DeliveryRefusal | null = null;
+
+  if (!match.eligible) {
+    reason = match.hasZones
+      ? 'outside_zone'
+      : store.deliveryRadius <= 0
+        ? 'delivery_disabled'
+        : 'outside_radius';
+  }
+
+  return {
+    eligible: match.eligible,
+    reason,
+    distanceKm: Number(match.distanceKm),
+    zoneId: match.eligible ? match.zoneId : null,
+  };
+}
+
+// Fee of the nearest tier that reaches the distance. Beyond the last tier the
+// last tier's fee applies; stores without tiers charge the default fee.
+export function selectDeliveryFee(tiers: FeeTier[], distance: number, defaultFee: number): number {
+  if (tiers.length === 0) {
+    return defaultFee;
+  }
+
+  const sorted = [...tiers].sort((a, b) => a.maxDistanceKm - b.maxDistanceKm);
+  const tier = sorted.find(candidate => distance <= candidate.maxDistanceKm);
+  return (tier ?? sorted[sorted.length - 1]).fee;
+}
+
+// Service class
+export class DeliveryService {
+  // Whether a store delivers to a point, and at what fee
+  async getDeliveryQuote(storeId: string, point: GeoPoint): Promise<DeliveryQuote> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      include: { deliveryFeeTiers: true },
+    });
+
+    if (!store) {
+      throw new Error('Store not found');
+    }
+
+    const area = checkDeliveryArea(store, await this.matchDeliveryArea(storeId, point));
+    const tiers = store.deliveryFeeTiers.map(tier => ({
+      maxDistanceKm: Number(tier.maxDistanceKm),
+      fee: Number(tier.fee),
+    }));
+
+    return {
+      ...area,
+      distanceKm: Math.round(area.distanceKm * 100) / 100,
+      fee: area.eligible
+        ? selectDeliveryFee(tiers, area.distanceKm, DEFAULT_PRICING_OPTIONS.deliveryFee)
+        : null,
+      minOrderAmount: Number(store.minOrderAmount),
+    };
+  }
+
+  // Quote for a checkout address, refusing addresses the store can't deliver to
+  async quoteDeliveryAddress(
+    storeId: string,
+    address: Partial<GeoPoint> | undefined
+  ): Promise<DeliveryQuote> {
+    if (address?.latitude === undefined || address?.longitude === undefined) {
+      throw new Error('Delivery address with latitude and longitude is required');
+    }
+
+    const quote = await this.getDeliveryQuote(storeId, {
+      latitude: address.latitude,
+      longitude: address.longitude,
+    });
+
+    if (!quote.eligible) {
+      throw new Error(
+        quote.reason === 'delivery_disabled'
+          ? 'This store does not deliver'
+          : 'Delivery address is outside the store delivery area'
+      );
+    }
+
+    return quote;
+  }
+
+  async listZones(storeId: string, actor: DeliveryActor): Promise<DeliveryZone[]> {
+    await assertManagesStore(actor, storeId);
+
+    return prisma.deliveryZone.findMany({
+      where: { storeId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async createZone(
+    storeId: string,
+    data: z.infer<typeof createDeliveryZoneSchema>,
+    actor: DeliveryActor
+  ): Promise<DeliveryZone> {
+    await assertManagesStore(actor, storeId);
+
+    return prisma.deliveryZone.create({
+      data: {
+        storeId,
+        name: data.name,
+        polygon: data.polygon,
+        isActive: data.isActive,
+      },
+    });
+  }
+
+  async deleteZone(storeId: string, zoneId: string, actor: DeliveryActor): Promise<void> {
+    await assertManagesStore(actor, storeId);
+
+    const { count } = await prisma.deliveryZone.deleteMany({
+      where: { id: zoneId, storeId },
+    });
+
+    if (count === 0) {
+      throw new Error('Delivery zone not found');
+    }
+  }
+
+  async getFeeTiers(storeId: string, actor: DeliveryActor): Promise<DeliveryFeeTier[]> {
+    await assertManagesStore(actor, storeId);
+
+    return prisma.deliveryFeeTier.findMany({
+      where: { storeId },
+      orderBy: { maxDistanceKm: 'asc' },
+    });
+  }
+
+  // Replace a store's fee tiers as a whole
+  async replaceFeeTiers(
+    storeId: string,
+    tiers: FeeTier[],
+    actor: DeliveryActor
+  ): Promise<DeliveryFeeTier[]> {
+    await assertManagesStore(actor, storeId);
+
+    return prisma.$transaction(async (tx: any) => {
+      await tx.deliveryFeeTier.deleteMany({ where: { storeId } });
+      await tx.deliveryFeeTier.createMany({
+        data: tiers.map(tier => ({ storeId, ...tier })),
+      });
+
+      return tx.deliveryFeeTier.findMany({
+        where: { storeId },
+        orderBy: { maxDistanceKm: 'asc' },
+      });
+    });
+  }
+
+  // Locate a point against a store's delivery area in PostGIS
+  private async matchDeliveryArea(storeId: string, point: GeoPoint): Promise<DeliveryAreaMatch> {
+    const location = Prisma.sql`public.ST_SetSRID(public.ST_MakePoint(${point.longitude}, ${point.latitude}), 4326)`;
+
+    const [match]: DeliveryAreaMatch[] = await prisma.$queryRaw`
+      SELECT ${buildDeliversToPointSql(location)} AS "eligible",
+        public.ST_Distance(s."location", ${location}::public.geography) / 1000 AS "distanceKm",
+        EXISTS (
+          SELECT 1 FROM "backend"."delivery_zones" z WHERE z."storeId" = s."id" AND z."isActive"
+        ) AS "hasZones",
+        (
+          SELECT z."id" FROM "backend"."delivery_zones" z
+          WHERE z."storeId" = s."id" AND z."isActive" AND public.ST_Covers(z."area", ${location})
+          ORDER BY z."createdAt" ASC
+          LIMIT 1
+        ) AS "zoneId"
+      FROM "backend"."stores" s
+      WHERE s."id" = ${storeId}
+    `;
+
+    return match;
+  }
+}
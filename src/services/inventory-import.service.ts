@@ -0,0 +1,478 @@
+import { z } from 'zod';
+import { Readable, Writable } from 'stream';
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify';
+import prisma from '../db/prisma';
+import {
+  InventoryMovementService,
+  MovementActor,
+  emitInventoryLevels,
+} from './inventory-movement.service';
+import { LowStockAlertService } from './low-stock-alert.service';
+import { BackInStockService } from './back-in-stock.service';
+
+// Columns shared by the import and the export. Export-only columns
+// (productName, reservedQuantity) are ignored on import.
+export const INVENTORY_CSV_COLUMNS = [
+  'storeId',
+  'sku',
+  'productName',
+  'quantityAvailable',
+  'reservedQuantity',
+  'reorderLevel',
+  'maxStockLevel',
+  'priceOverride',
+  'isAvailable',
+];
+
+const MAX_IMPORT_ROWS = 5000;
+const EXPORT_BATCH_SIZE = 500;
+
+// Empty cells leave the current value untouched
+const emptyToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const optionalInt = z.preprocess(emptyToUndefined, z.coerce.number().int().min(0).optional());
+
+// Validation schemas
+export const inventoryImportRowSchema = z.object({
+  storeId: z.string().uuid(),
+  sku: z.string().trim().min(1),
+  quantityAvailable: optionalInt,
+  reorderLevel: optionalInt,
+  maxStockLevel: optionalInt,
+  // "null" clears the store price override
+  priceOverride: z.preprocess(
+    value =>
+      typeof value === 'string' && value.trim().toLowerCase() === 'null'
+        ? null
+        : emptyToUndefined(value),
+    z.coerce.number().min(0).nullable().optional()
+  ),
+  isAvailable: z.preprocess(value => {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    const normalized = value.trim().toLowerCase();
+    if (['true', 'yes', '1'].includes(normalized)) return true;
+    if (['false', 'no', '0'].includes(normalized)) return false;
+    return value;
+  }, z.boolean().optional()),
+});
+
+export const importOptionsSchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform(value => value === 'true'),
+});
+
+export const exportQuerySchema = z.object({
+  storeId: z.string().uuid().optional(),
+});
+
+// Types
+type ImportRow = z.infer<typeof inventoryImportRowSchema>;
+type ImportField =
+  | 'quantityAvailable'
+  | 'reorderLevel'
+  | 'maxStockLevel'
+  | 'priceOverride'
+  | 'isAvailable';
+
+const IMPORT_FIELDS: ImportField[] = [
+  'quantityAvailable',
+  'reorderLevel',
+  'maxStockLevel',
+  'priceOverride',
+  'isAvailable',
+];
+
+export interface ImportRowError {
+  line: number;
+  storeId?: string;
+  sku?: string;
+  errors: string[];
+}
+
+export interface ImportRowDiff {
+  line: number;
+  storeId: string;
+  sku: string;
+  productId: string;
+  action: 'create' | 'update' | 'unchanged';
+  changes: Partial<Record<ImportField, { from: unknown; to: unknown }>>;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  applied: boolean;
+  summary: {
+    rows: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    errors: number;
+  };
+  rows: ImportRowDiff[];
+  errors: ImportRowError[];
+}
+
+interface PlannedRow {
+  diff: ImportRowDiff;
+  row: ImportRow;
+  inventoryId?: string;
+}
+
+// Service class
+export class InventoryImportService {
+  private movementService: InventoryMovementService;
+  private lowStockAlertService: LowStockAlertService;
+  private backInStockService: BackInStockService;
+
+  constructor() {
+    this.movementService = new InventoryMovementService();
+    this.lowStockAlertService = new LowStockAlertService();
+    this.backInStockService = new BackInStockService();
+  }
+
+  // Validate a CSV and, unless dry-running, apply every row in one transaction.
+  // Nothing is applied when any row has an error.
+  async importInventory(csv: string, dryRun: boolean, actor: MovementActor): Promise<ImportReport> {
+    const records = this.parseCsv(csv);
+    const allowedStores = await this.getManagedStoreIds(actor);
+
+    const errors: ImportRowError[] = [];
+    const valid: Array<{ line: number; row: ImportRow }> = [];
+    const seen = new Set<string>();
+
+    records.forEach((record, index) => {
+      // Line 1 is the header
+      const line = index + 2;
+      const result = inventoryImportRowSchema.safeParse(record);
+
+      if (!result.success) {
+        errors.push({
+          line,
+          storeId: record.storeId,
+          sku: record.sku,
+          errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        });
+        return;
+      }
+
+      const key = `${result.data.storeId}:${result.data.sku}`;
+      if (seen.has(key)) {
+        errors.push({ line, ...result.data, errors: ['Duplicate row for this store and SKU'] });
+        return;
+      }
+      seen.add(key);
+
+      if (allowedStores && !allowedStores.has(result.data.storeId)) {
+        errors.push({ line, ...result.data, errors: ['You do not manage this store'] });
+        return;
+      }
+
+      valid.push({ line, row: result.data });
+    });
+
+    const planned = await this.planRows(valid, errors);
+    const rows = planned.map(plan => plan.diff);
+
+    const report: ImportReport = {
+      dryRun,
+      applied: false,
+      summary: {
+        rows: records.length,
+        created: rows.filter(row => row.action === 'create').length,
+        updated: rows.filter(row => row.action === 'update').length,
+        unchanged: rows.filter(row => row.action === 'unchanged').length,
+        errors: errors.length,
+      },
+      rows,
+      errors: errors.sort((a, b) => a.line - b.line),
+    };
+
+    if (dryRun || errors.length > 0) {
+      return report;
+    }
+
+    const changed = planned.filter(plan => plan.diff.action !== 'unchanged');
+    await prisma.$transaction(
+      async (tx: any) => {
+        for (const plan of changed) {
+          await this.applyRow(tx, plan, actor);
+        }
+      },
+      { timeout: 60000 }
+    );
+
+    console.log(`[InventoryImport] Applied ${changed.length} of ${records.length} rows`);
+    await emitInventoryLevels(
+      changed.map(plan => ({ storeId: plan.row.storeId, productId: plan.diff.productId }))
+    );
+
+    return { ...report, applied: true };
+  }
+
+  // Stream inventory rows as CSV, paging through the table so memory stays flat
+  async exportInventory(
+    output: Writable,
+    query: z.infer<typeof exportQuerySchema>,
+    actor: MovementActor
+  ): Promise<void> {
+    const allowedStores = await this.getManagedStoreIds(actor);
+
+    if (query.storeId && allowedStores && !allowedStores.has(query.storeId)) {
+      throw new Error('Unauthorized');
+    }
+
+    const storeIds = query.storeId
+      ? [query.storeId]
+      : allowedStores
+        ? Array.from(allowedStores)
+        : undefined;
+    const where = storeIds ? { storeId: { in: storeIds } } : {};
+
+    const csv = stringify({
+      header: true,
+      columns: INVENTORY_CSV_COLUMNS,
+      cast: { boolean: value => (value ? 'true' : 'false') },
+    });
+    csv.pipe(output);
+
+    // Stop reading once the client goes away, or a wait for drain would
+    // hold the loop and its connection forever
+    let closed = output.destroyed;
+    const onClose = () => {
+      closed = true;
+    };
+    output.once('close', onClose);
+    output.once('error', onClose);
+
+    let cursor: string | undefined;
+
+    try {
+      while (!closed) {
+        const batch = await prisma.storeInventory.findMany({
+          where,
+          include: { product: { select: { sku: true, name: true } } },
+          orderBy: { id: 'asc' },
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+
+        for (const inventory of batch) {
+          const ok = csv.write({
+            storeId: inventory.storeId,
+            sku: inventory.product.sku ?? '',
+            productName: inventory.product.name,
+            quantityAvailable: inventory.quantityAvailable,
+            reservedQuantity: inventory.reservedQuantity,
+            reorderLevel: inventory.reorderLevel ?? '',
+            maxStockLevel: inventory.maxStockLevel ?? '',
+            priceOverride: inventory.priceOverride?.toString() ?? '',
+            isAvailable: inventory.isAvailable,
+          });
+
+          // Respect backpressure from slow clients
+          if (!ok) {
+            await this.waitForDrain(csv, output);
+          }
+
+          if (closed) break;
+        }
+
+        if (batch.length < EXPORT_BATCH_SIZE) break;
+        cursor = batch[batch.length - 1].id;
+      }
+    } finally {
+      output.off('close', onClose);
+      output.off('error', onClose);
+
+      if (closed) {
+        csv.destroy();
+      } else {
+        csv.end();
+      }
+    }
+  }
+
+  // Settles when the stringifier drains or the output closes or fails
+  private waitForDrain(csv: Readable, output: Writable): Promise<void> {
+    if (output.destroyed) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      const settle = () => {
+        csv.off('drain', settle);
+        output.off('close', settle);
+        output.off('error', settle);
+        resolve();
+      };
+
+      csv.once('drain', settle);
+      output.once('close', settle);
+      output.once('error', settle);
+    });
+  }
+
+  private parseCsv(csv: string): Array<Record<string, string>> {
+    let records: Array<Record<string, string>>;
+
+    try {
+      records = parse(csv, {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true,
+        bom: true,
+      });
+    } catch (error) {
+      throw new Error(`Invalid CSV: ${error instanceof Error ? error.message : 'parse error'}`);
+    }
+
+    if (records.length === 0) {
+      throw new Error('CSV contains no rows');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new Error(`CSV exceeds the limit of ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    return records;
+  }
+
+  // Resolve stores, products and current inventory, and diff each row against it
+  private async planRows(
+    valid: Array<{ line: number; row: ImportRow }>,
+    errors: ImportRowError[]
+  ): Promise<PlannedRow[]> {
+    if (valid.length === 0) return [];
+
+    const storeIds = Array.from(new Set(valid.map(({ row }) => row.storeId)));
+    const skus = Array.from(new Set(valid.map(({ row }) => row.sku)));
+
+    const [stores, products] = await Promise.all([
+      prisma.store.findMany({ where: { id: { in: storeIds } }, select: { id: true } }),
+      prisma.product.findMany({ where: { sku: { in: skus } }, select: { id: true, sku: true } }),
+    ]);
+
+    const knownStores = new Set(stores.map(store => store.id));
+    const productsBySku = new Map(products.map(product => [product.sku, product.id]));
+
+    const inventories = await prisma.storeInventory.findMany({
+      where: {
+        storeId: { in: storeIds },
+        productId: { in: products.map(product => product.id) },
+      },
+    });
+    const inventoryByKey = new Map(
+      inventories.map(inventory => [`${inventory.storeId}:${inventory.productId}`, inventory])
+    );
+
+    const planned: PlannedRow[] = [];
+
+    for (const { line, row } of valid) {
+      const productId = productsBySku.get(row.sku);
+      const rowErrors: string[] = [];
+
+      if (!knownStores.has(row.storeId)) rowErrors.push('Unknown store');
+      if (!productId) rowErrors.push('Unknown SKU');
+
+      if (rowErrors.length > 0 || !productId) {
+        errors.push({ line, storeId: row.storeId, sku: row.sku, errors: rowErrors });
+        continue;
+      }
+
+      const existing = inventoryByKey.get(`${row.storeId}:${productId}`);
+      const changes: ImportRowDiff['changes'] = {};
+
+      for (const field of IMPORT_FIELDS) {
+        const to = row[field];
+        if (to === undefined) continue;
+
+        const current = existing ? existing[field] : undefined;
+        const from = current !== null && typeof current === 'object' ? Number(current) : current;
+
+        if (from !== to) {
+          changes[field] = { from: from ?? null, to };
+        }
+      }
+
+      const action = !existing
+        ? 'create'
+        : Object.keys(changes).length > 0
+          ? 'update'
+          : 'unchanged';
+
+      planned.push({
+        diff: { line, storeId: row.storeId, sku: row.sku, productId, action, changes },
+        row,
+        inventoryId: existing?.id,
+      });
+    }
+
+    return planned;
+  }
+
+  // Apply one planned row; stock levels go through the movement ledger
+  private async applyRow(tx: any, plan: PlannedRow, actor: MovementActor): Promise<void> {
+    const { row, diff } = plan;
+    const attributes = {
+      ...(row.reorderLevel !== undefined && { reorderLevel: row.reorderLevel }),
+      ...(row.maxStockLevel !== undefined && { maxStockLevel: row.maxStockLevel }),
+      ...(row.priceOverride !== undefined && { priceOverride: row.priceOverride }),
+      ...(row.isAvailable !== undefined && { isAvailable: row.isAvailable }),
+    };
+
+    const inventory = await tx.storeInventory.upsert({
+      where: { storeId_productId: { storeId: row.storeId, productId: diff.productId } },
+      update: attributes,
+      create: {
+        storeId: row.storeId,
+        productId: diff.productId,
+        quantityAvailable: 0,
+        reservedQuantity: 0,
+        ...attributes,
+      },
+    });
+
+    // A new reorder level can open or resolve the low-stock alert
+    if (diff.changes.reorderLevel) {
+      await this.lowStockAlertService.syncAlert(tx, inventory);
+    }
+
+    if (row.quantityAvailable !== undefined) {
+      await this.movementService.setLevels(tx, {
+        inventoryId: inventory.id,
+        quantityAvailable: row.quantityAvailable,
+        reason: 'adjustment',
+        actor,
+        note: `CSV import line ${diff.line}`,
+      });
+    }
+
+    // Relisting an item can make it sellable without any stock change
+    if (diff.changes.isAvailable && row.isAvailable) {
+      const current = await tx.storeInventory.findUnique({ where: { id: inventory.id } });
+      await this.backInStockService.markAvailable(tx, current);
+    }
+  }
+
+  // Stores the actor may import into; undefined means all stores (admin)
+  private async getManagedStoreIds(actor: MovementActor): Promise<Set<string> | undefined> {
+    if (actor.role === 'admin') {
+      return undefined;
+    }
+
+    const managed = await prisma.storeManager.findMany({
+      where: { userId: actor.userId, isActive: true },
+      select: { storeId: true },
+    });
+
+    if (managed.length === 0) {
+      throw new Error('Unauthorized');
+    }
+
+    return new Set(managed.map(manager => manager.storeId));
+  }
+}
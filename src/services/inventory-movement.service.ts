@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import { InventoryMovement, InventoryMovementReason, Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { LowStockAlertService } from './low-stock-alert.service';
+import { BackInStockService } from './back-in-stock.service';
+import { RealtimeService } from './realtime.service';
+
+// Validation schemas
+export const movementQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  reason: z.nativeEnum(InventoryMovementReason).optional(),
+});
+
+// Types
+export interface MovementActor {
+  userId?: string;
+  // User role, or 'system' / 'webhook' for automated changes
+  role: string;
+}
+
+export interface MovementReference {
+  actor?: MovementActor;
+  orderId?: string;
+  reservationId?: string;
+  note?: string;
+}
+
+export interface StockChange extends MovementReference {
+  storeId: string;
+  productId: string;
+  reason: InventoryMovementReason;
+  // Change to quantityAvailable (on-hand units)
+  quantityDelta?: number;
+  // Change to reservedQuantity; clamped so it never drops below zero
+  reservedDelta?: number;
+  // Refuse the change unless the row is available and keeps unreserved stock >= 0
+  requireAvailable?: boolean;
+}
+
+export interface StockLevels extends MovementReference {
+  inventoryId: string;
+  reason: InventoryMovementReason;
+  quantityAvailable?: number;
+  reservedQuantity?: number;
+}
+
+interface LevelsRow {
+  id: string;
+  storeId: string;
+  productId: string;
+  quantityAvailable: number;
+  reservedQuantity: number;
+  reorderLevel: number | null;
+  isAvailable: boolean;
+  previousQuantity: number;
+  previousReserved: number;
+}
+
+const SYSTEM_ACTOR: MovementActor = { role: 'system' };
+
+// Push the new stock levels of the given store products to each store's
+// inventory room
+export async function emitInventoryLevels(
+  changes: { storeId: string; productId: string }[]
+): Promise<void> {
+  const realtime = RealtimeService.getInstance();
+  if (!realtime || changes.length === 0) {
+    return;
+  }
+
+  const inventories = await prisma.storeInventory.findMany({
+    where: { OR: changes.map(({ storeId, productId }) => ({ storeId, productId })) },
+  });
+
+  for (const inventory of inventories) {
+    realtime.sendInventoryUpdate(inventory.storeId, {
+      storeId: inventory.storeId,
+      productId: inventory.productId,
+      quantityAvailable: inventory.quantityAvailable,
+      reservedQuantity: inventory.reservedQuantity,
+      isAvailable: inventory.isAvailable,
+    });
+  }
+}
+
+// Every write to StoreInventory stock levels goes through this service so the
+// change and its movement row are committed together. All methods expect to
+// run inside a transaction.
+export class InventoryMovementService {
+  private lowStockAlertService: LowStockAlertService;
+  private backInStockService: BackInStockService;
+
+  constructor() {
+    this.lowStockAlertService = new LowStockAlertService();
+    this.backInStockService = new BackInStockService();
+  }
+
+  // Apply a relative change. Returns null when no row matched (missing, or
+  // the guard refused the change); callers decide which error to raise.
+  async applyChange(tx: any, change: StockChange): Promise<InventoryMovement | null> {
+    const quantityDelta = change.quantityDelta || 0;
+    const reservedDelta = change.reservedDelta || 0;
+
+    const guard = change.requireAvailable
+      ? Prisma.sql`AND s."isAvailable" = true
+          AND (s."quantityAvailable" + ${quantityDelta}) - GREATEST(s."reservedQuantity" + ${reservedDelta}, 0) >= 0`
+      : Prisma.empty;
+
+    const rows: LevelsRow[] = await tx.$queryRaw`
+      WITH previous AS (
+        SELECT "id", "quantityAvailable", "reservedQuantity"
+        FROM "backend"."store_inventory"
+        WHERE "storeId" = ${change.storeId} AND "productId" = ${change.productId}
+        FOR UPDATE
+      )
+      UPDATE "backend"."store_inventory" s
+      SET "quantityAvailable" = s."quantityAvailable" + ${quantityDelta},
+          "reservedQuantity" = GREATEST(s."reservedQuantity" + ${reservedDelta}, 0),
+          "updatedAt" = NOW()
+      FROM previous
+      WHERE s."id" = previous."id"
+        AND s."quantityAvailable" + ${quantityDelta} >= 0
+        ${guard}
+      RETURNING s."id", s."storeId", s."productId", s."quantityAvailable", s."reservedQuantity",
+        s."reorderLevel", s."isAvailable",
+        previous."quantityAvailable" AS "previousQuantity",
+        previous."reservedQuantity" AS "previousReserved"
+    `;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return this.record(tx, rows[0], change.reason, change);
+  }
+
+  // Set absolute stock levels (manual counts, upstream sync). Returns null
+  // when the levels did not change.
+  async setLevels(tx: any, levels: StockLevels): Promise<InventoryMovement | null> {
+    if (levels.quantityAvailable !== undefined && levels.quantityAvailable < 0) {
+      throw new Error('Quantity available cannot be negative');
+    }
+
+    const rows: LevelsRow[] = await tx.$queryRaw`
+      WITH previous AS (
+        SELECT "id", "quantityAvailable", "reservedQuantity"
+        FROM "backend"."store_inventory"
+        WHERE "id" = ${levels.inventoryId}
+        FOR UPDATE
+      )
+      UPDATE "backend"."store_inventory" s
+      SET "quantityAvailable" = COALESCE(${levels.quantityAvailable ?? null}::int, s."quantityAvailable"),
+          "reservedQuantity" = COALESCE(${levels.reservedQuantity ?? null}::int, s."reservedQuantity"),
+          "updatedAt" = NOW()
+      FROM previous
+      WHERE s."id" = previous."id"
+      RETURNING s."id", s."storeId", s."productId", s."quantityAvailable", s."reservedQuantity",
+        s."reorderLevel", s."isAvailable",
+        previous."quantityAvailable" AS "previousQuantity",
+        previous."reservedQuantity" AS "previousReserved"
+    `;
+
+    if (rows.length === 0) {
+      throw new Error('Inventory item not found');
+    }
+
+    return this.record(tx, rows[0], levels.reason, levels);
+  }
+
+  // Page through the movements of one inventory row, newest first
+  async getMovements(
+    inventoryId: string,
+    query: z.infer<typeof movementQuerySchema>
+  ): Promise<{ movements: InventoryMovement[]; total: number }> {
+    const where = {
+      inventoryId,
+      ...(query.reason && { reason: query.reason }),
+    };
+
+    const [movements, total] = await Promise.all([
+      prisma.inventoryMovement.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.inventoryMovement.count({ where }),
+    ]);
+
+    return { movements, total };
+  }
+
+  // Append the movement row; no-op changes are not recorded. On-hand changes
+  // also open or resolve the row's low-stock alert, and changes that free up
+  // stock flag the row's back-in-stock subscriptions.
+  private async record(
+    tx: any,
+    row: LevelsRow,
+    reason: InventoryMovementReason,
+    reference: MovementReference
+  ): Promise<InventoryMovement | null> {
+    const quantityDelta = row.quantityAvailable - row.previousQuantity;
+    const reservedDelta = row.reservedQuantity - row.previousReserved;
+
+    if (quantityDelta === 0 && reservedDelta === 0) {
+      return null;
+    }
+
+    const actor = reference.actor || SYSTEM_ACTOR;
+
+    if (quantityDelta !== 0 && row.reorderLevel !== null) {
+      await this.lowStockAlertService.syncAlert(tx, row);
+    }
+
+    if (quantityDelta > 0 || reservedDelta < 0) {
+      await this.backInStockService.markAvailable(tx, row);
+    }
+
+    return tx.inventoryMovement.create({
+      data: {
+        inventoryId: row.id,
+        storeId: row.storeId,
+        productId: row.productId,
+        reason,
+        quantityDelta,
+        reservedDelta,
+        quantityAfter: row.quantityAvailable,
+        reservedAfter: row.reservedQuantity,
+        actorId: actor.userId,
+        actorRole: actor.role,
+        orderId: reference.orderId,
+        reservationId: reference.reservationId,
+        note: reference.note,
+      },
+    });
+  }
+}
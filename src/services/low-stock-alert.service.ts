@@ -0,0 +1,378 @@
+import { z } from 'zod';
+import { LowStockAlert, LowStockAlertPreference, Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { RealtimeService } from './realtime.service';
+import { assertManagesStore } from './store-access.service';
+
+// Validation schemas
+export const alertPreferencesSchema = z.object({
+  push: z.boolean().optional(),
+  realtime: z.boolean().optional(),
+  digest: z.boolean().optional(),
+  mutedStoreIds: z.array(z.string().uuid()).max(100).optional(),
+});
+
+export const listAlertsSchema = z.object({
+  storeId: z.string().uuid(),
+  status: z.enum(['open', 'resolved', 'all']).default('open'),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Types
+export interface AlertActor {
+  userId: string;
+  role: string;
+}
+
+// The stock fields of a StoreInventory row after a change
+export interface LowStockSnapshot {
+  id: string;
+  storeId: string;
+  productId: string;
+  quantityAvailable: number;
+  reorderLevel: number | null;
+}
+
+export type AlertAction = 'trigger' | 'reopen' | 'resolve' | 'none';
+
+export type AlertPreferences = Pick<
+  LowStockAlertPreference,
+  'push' | 'realtime' | 'digest' | 'mutedStoreIds'
+>;
+
+export type AlertChannel = 'push' | 'realtime' | 'digest';
+
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  push: true,
+  realtime: true,
+  digest: false,
+  mutedStoreIds: [],
+};
+
+const ALERT_DEBOUNCE_MS =
+  parseInt(process.env.LOW_STOCK_ALERT_DEBOUNCE_MINUTES || '60', 10) * 60 * 1000;
+
+const DISPATCH_BATCH_SIZE = 200;
+
+const alertInclude = {
+  inventory: {
+    select: {
+      quantityAvailable: true,
+      product: { select: { name: true, sku: true } },
+      store: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.LowStockAlertInclude;
+
+type AlertWithInventory = Prisma.LowStockAlertGetPayload<{ include: typeof alertInclude }>;
+
+// Same rule as the /low-stock listing: on-hand units at or below the reorder level
+export function isLowStock(quantityAvailable: number, reorderLevel: number | null): boolean {
+  return reorderLevel !== null && quantityAvailable <= reorderLevel;
+}
+
+// Decide what a stock change means for the row's latest alert. A row that
+// drops back to its level within the debounce window reopens the previous
+// alert instead of raising a new one, so stock flapping around the threshold
+// notifies managers once.
+export function resolveAlertAction(
+  low: boolean,
+  lastAlert: Pick<LowStockAlert, 'resolvedAt'> | null,
+  now: Date = new Date(),
+  debounceMs: number = ALERT_DEBOUNCE_MS
+): AlertAction {
+  const open = lastAlert !== null && lastAlert.resolvedAt === null;
+
+  if (!low) {
+    return open ? 'resolve' : 'none';
+  }
+
+  if (open) {
+    return 'none';
+  }
+
+  if (lastAlert?.resolvedAt && now.getTime() - lastAlert.resolvedAt.getTime() < debounceMs) {
+    return 'reopen';
+  }
+
+  return 'trigger';
+}
+
+export function wantsAlert(
+  preferences: AlertPreferences,
+  storeId: string,
+  channel: AlertChannel
+): boolean {
+  return preferences[channel] && !preferences.mutedStoreIds.includes(storeId);
+}
+
+// Service class
+export class LowStockAlertService {
+  // Open or resolve the row's alert after a stock change. Runs inside the
+  // caller's transaction, which already holds the inventory row lock.
+  async syncAlert(tx: any, snapshot: LowStockSnapshot): Promise<AlertAction> {
+    const lastAlert = await tx.lowStockAlert.findFirst({
+      where: { inventoryId: snapshot.id },
+      orderBy: { triggeredAt: 'desc' },
+    });
+
+    const action = resolveAlertAction(
+      isLowStock(snapshot.quantityAvailable, snapshot.reorderLevel),
+      lastAlert
+    );
+
+    switch (action) {
+      case 'trigger':
+        await tx.lowStockAlert.create({
+          data: {
+            inventoryId: snapshot.id,
+            storeId: snapshot.storeId,
+            productId: snapshot.productId,
+            quantityAvailable: snapshot.quantityAvailable,
+            reorderLevel: snapshot.reorderLevel,
+          },
+        });
+        break;
+      case 'reopen':
+        await tx.lowStockAlert.update({
+          where: { id: lastAlert.id },
+          data: {
+            resolvedAt: null,
+            quantityAvailable: snapshot.quantityAvailable,
+            reorderLevel: snapshot.reorderLevel,
+          },
+        });
+        break;
+      case 'resolve':
+        await tx.lowStockAlert.update({
+          where: { id: lastAlert.id },
+          data: { resolvedAt: new Date() },
+        });
+        break;
+    }
+
+    return action;
+  }
+
+  // Notify store managers of open alerts that have not gone out yet. Alerts
+  // resolved before this runs are never sent.
+  async dispatchPendingAlerts(): Promise<{ alerts: number; notifications: number }> {
+    const pending: AlertWithInventory[] = await prisma.lowStockAlert.findMany({
+      where: { notifiedAt: null, resolvedAt: null },
+      include: alertInclude,
+      orderBy: { triggeredAt: 'asc' },
+      take: DISPATCH_BATCH_SIZE,
+    });
+
+    if (pending.length === 0) {
+      return { alerts: 0, notifications: 0 };
+    }
+
+    const managers = await prisma.storeManager.findMany({
+      where: {
+        storeId: { in: Array.from(new Set(pending.map(alert => alert.storeId))) },
+        isActive: true,
+        user: { isActive: true },
+      },
+      select: {
+        userId: true,
+        storeId: true,
+        user: { select: { lowStockAlertPreference: true } },
+      },
+    });
+
+    const realtime = RealtimeService.getInstance();
+    let alerts = 0;
+    let notifications = 0;
+
+    for (const alert of pending) {
+      // Claim the alert so it is never sent twice
+      const claimed = await prisma.lowStockAlert.updateMany({
+        where: { id: alert.id, notifiedAt: null },
+        data: { notifiedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      alerts++;
+
+      const title = `Low stock at ${alert.inventory.store.name}`;
+      const message = `${alert.inventory.product.name} is down to ${alert.quantityAvailable} (reorder level ${alert.reorderLevel})`;
+      const data = {
+        alertId: alert.id,
+        inventoryId: alert.inventoryId,
+        storeId: alert.storeId,
+        productId: alert.productId,
+        sku: alert.inventory.product.sku,
+        quantityAvailable: alert.quantityAvailable,
+        reorderLevel: alert.reorderLevel,
+      };
+
+      for (const manager of managers) {
+        if (manager.storeId !== alert.storeId) continue;
+
+        const preferences = manager.user.lowStockAlertPreference || DEFAULT_ALERT_PREFERENCES;
+
+        if (wantsAlert(preferences, alert.storeId, 'push')) {
+          await prisma.pushNotification.create({
+            data: {
+              userId: manager.userId,
+              storeId: alert.storeId,
+              title,
+              message,
+              type: 'low_stock',
+              data,
+              sentAt: new Date(),
+            },
+          });
+          notifications++;
+        }
+
+        if (realtime && wantsAlert(preferences, alert.storeId, 'realtime')) {
+          realtime.sendNotification(manager.userId, { title, message, type: 'warning', data });
+        }
+      }
+    }
+
+    console.log(`[LowStock] Dispatched ${alerts} alerts (${notifications} notifications)`);
+
+    return { alerts, notifications };
+  }
+
+  // One summary notification per manager who opted into the digest, listing
+  // every open alert in their (unmuted) stores
+  async sendDigest(): Promise<{ recipients: number }> {
+    const subscribers = await prisma.lowStockAlertPreference.findMany({
+      where: { digest: true, user: { isActive: true } },
+      include: {
+        user: {
+          select: {
+            storeManagers: { where: { isActive: true }, select: { storeId: true } },
+          },
+        },
+      },
+    });
+
+    const realtime = RealtimeService.getInstance();
+    let recipients = 0;
+
+    for (const preferences of subscribers) {
+      const storeIds = preferences.user.storeManagers
+        .map(manager => manager.storeId)
+        .filter(storeId => wantsAlert(preferences, storeId, 'digest'));
+
+      if (storeIds.length === 0) continue;
+
+      const openAlerts: AlertWithInventory[] = await prisma.lowStockAlert.findMany({
+        where: { storeId: { in: storeIds }, resolvedAt: null },
+        include: alertInclude,
+        orderBy: { triggeredAt: 'asc' },
+      });
+
+      if (openAlerts.length === 0) continue;
+
+      const alertStoreIds = new Set(openAlerts.map(alert => alert.storeId));
+      const title = 'Low stock digest';
+      const message = `${openAlerts.length} product${openAlerts.length === 1 ? ' is' : 's are'} at or below the reorder level in ${alertStoreIds.size} store${alertStoreIds.size === 1 ? '' : 's'}`;
+      const data = {
+        alerts: openAlerts.map(alert => ({
+          alertId: alert.id,
+          storeId: alert.storeId,
+          storeName: alert.inventory.store.name,
+          productId: alert.productId,
+          productName: alert.inventory.product.name,
+          quantityAvailable: alert.inventory.quantityAvailable,
+          reorderLevel: alert.reorderLevel,
+          triggeredAt: alert.triggeredAt,
+        })),
+      };
+
+      await prisma.pushNotification.create({
+        data: {
+          userId: preferences.userId,
+          storeId: alertStoreIds.size === 1 ? openAlerts[0].storeId : null,
+          title,
+          message,
+          type: 'low_stock',
+          data,
+          sentAt: new Date(),
+        },
+      });
+
+      if (realtime && preferences.realtime) {
+        realtime.sendNotification(preferences.userId, { title, message, type: 'info', data });
+      }
+
+      recipients++;
+    }
+
+    console.log(`[LowStock] Sent digest to ${recipients} managers`);
+
+    return { recipients };
+  }
+
+  // Alerts for one store, newest first
+  async listAlerts(
+    query: z.infer<typeof listAlertsSchema>,
+    actor: AlertActor
+  ): Promise<{ alerts: AlertWithInventory[]; total: number }> {
+    await assertManagesStore(actor, query.storeId);
+
+    const where = {
+      storeId: query.storeId,
+      ...(query.status === 'open' && { resolvedAt: null }),
+      ...(query.status === 'resolved' && { resolvedAt: { not: null } }),
+    };
+
+    const [alerts, total] = await Promise.all([
+      prisma.lowStockAlert.findMany({
+        where,
+        include: alertInclude,
+        orderBy: { triggeredAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.lowStockAlert.count({ where }),
+    ]);
+
+    return { alerts, total };
+  }
+
+  // Alert preferences for a user, falling back to the defaults
+  async getPreferences(userId: string): Promise<AlertPreferences> {
+    const preferences = await prisma.lowStockAlertPreference.findUnique({
+      where: { userId },
+    });
+
+    return this.toPreferences(preferences);
+  }
+
+  async updatePreferences(
+    userId: string,
+    data: z.infer<typeof alertPreferencesSchema>
+  ): Promise<AlertPreferences> {
+    const preferences = await prisma.lowStockAlertPreference.upsert({
+      where: { userId },
+      update: data,
+      create: { ...DEFAULT_ALERT_PREFERENCES, ...data, userId },
+    });
+
+    return this.toPreferences(preferences);
+  }
+
+  private toPreferences(preferences: LowStockAlertPreference | null): AlertPreferences {
+    if (!preferences) {
+      return { ...DEFAULT_ALERT_PREFERENCES };
+    }
+
+    return {
+      push: preferences.push,
+      realtime: preferences.realtime,
+      digest: preferences.digest,
+      mutedStoreIds: preferences.mutedStoreIds,
+    };
+  }
+}
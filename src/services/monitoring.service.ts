@@ -6,7 +6,7 @@ import { collectDefaultMetrics, Registry } from 'prom-client';
 
 const prisma = new PrismaClient();
 
-class MonitoringService {
+export class MonitoringService {
   private redis: Redis;
   private strapiUrl: string;
   private registry: Registry;
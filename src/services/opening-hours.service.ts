@@ -0,0 +1,247 @@
+import { z } from 'zod';
+
+// Validation schemas
+const timeOfDaySchema = z
+  .string()
+  .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, 'Use HH:MM between 00:00 and 24:00');
+
+export const openIntervalSchema = z
+  .object({
+    open: timeOfDaySchema,
+    close: timeOfDaySchema,
+  })
+  .refine(
+    interval => interval.open !== interval.close,
+    'An interval needs different open and close times'
+  );
+
+// A day's hours: one interval, or several (e.g. closed over lunch)
+const dayHoursSchema = z.union([openIntervalSchema, z.array(openIntervalSchema).max(6)]);
+
+export const openingHoursSchema = z.object({
+  mon: dayHoursSchema.optional(),
+  tue: dayHoursSchema.optional(),
+  wed: dayHoursSchema.optional(),
+  thu: dayHoursSchema.optional(),
+  fri: dayHoursSchema.optional(),
+  sat: dayHoursSchema.optional(),
+  sun: dayHoursSchema.optional(),
+  // Dates (YYYY-MM-DD, store time) whose hours replace the weekday's; an
+  // empty list closes the store for the day
+  exceptions: z
+    .record(
+      z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+      z.array(openIntervalSchema).max(6)
+    )
+    .optional(),
+});
+
+export const timezoneSchema = z
+  .string()
+  .refine(timezone => isValidTimezone(timezone), 'Unknown IANA timezone');
+
+// Types
+export type OpenInterval = z.infer<typeof openIntervalSchema>;
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+
+// A calendar date in the store's timezone; month is 1-12
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface TimeRange {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface OpenStatus {
+  isOpen: boolean;
+  // Next time the store opens after now; null when it stays closed for the
+  // whole search horizon
+  nextOpenAt: Date | null;
+  // When the current opening ends, or the next one when closed
+  nextCloseAt: Date | null;
+}
+
+const DAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const STATUS_SEARCH_DAYS = 14;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock fields of an instant in a timezone
+function getWallClock(instant: Date, timezone: string): Record<string, number> {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timezone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return fields;
+}
+
+// How far the timezone's clock is ahead of UTC at an instant
+function getOffsetMs(instant: Date, timezone: string): number {
+  const wall = getWallClock(instant, timezone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// The store-time calendar date of an instant
+export function toLocalDate(instant: Date, timezone: string): LocalDate {
+  const wall = getWallClock(instant, timezone);
+  return { year: wall.year, month: wall.month, day: wall.day };
+}
+
+export function parseLocalDate(value: string): LocalDate {
+  const [year, month, day] = value.split('-').map(Number);
+  return { year, month, day };
+}
+
+export function formatLocalDate(date: LocalDate): string {
+  return [date.year, date.month, date.day]
+    .map((value, index) => String(value).padStart(index === 0 ? 4 : 2, '0'))
+    .join('-');
+}
+
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+// Calendar days from one date to another
+export function daysBetween(from: LocalDate, to: LocalDate): number {
+  return Math.round(
+    (Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) /
+      DAY_MS
+  );
+}
+
+// The instant a wall-clock time happens in a timezone. Minutes may run past
+// midnight into the next day. A time skipped by a DST jump moves forward by
+// the jump; a time that happens twice takes the first.
+export function fromLocalTime(date: LocalDate, minutes: number, timezone: string): Date {
+  const wall = Date.UTC(date.year, date.month - 1, date.day) + minutes * MINUTE_MS;
+  const candidates = [wall - DAY_MS, wall + DAY_MS].map(
+    probe => wall - getOffsetMs(new Date(probe), timezone)
+  );
+  const valid = candidates.filter(
+    candidate => candidate + getOffsetMs(new Date(candidate), timezone) === wall
+  );
+
+  return new Date(valid.length > 0 ? Math.min(...valid) : Math.max(...candidates));
+}
+
+function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// A day's opening intervals as minutes from its midnight. A date exception
+// replaces the weekday's hours; intervals that close before they open run
+// past midnight.
+export function getDayIntervals(
+  hours: OpeningHours | null | undefined,
+  date: LocalDate
+): { open: number; close: number }[] {
+  const exception = hours?.exceptions?.[formatLocalDate(date)];
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  const dayHours = exception ?? hours?.[DAY_KEYS[weekday]];
+  if (!dayHours) {
+    return [];
+  }
+
+  return (Array.isArray(dayHours) ? dayHours : [dayHours])
+    .filter(interval => interval?.open && interval?.close)
+    .map(interval => {
+      const open = parseTimeOfDay(interval.open);
+      const close = parseTimeOfDay(interval.close);
+      return { open, close: close <= open ? close + 24 * 60 : close };
+    })
+    .filter(interval => !Number.isNaN(interval.open) && !Number.isNaN(interval.close))
+    .sort((a, b) => a.open - b.open);
+}
+
+// When the store is open on a store-time date
+export function getOpenIntervals(
+  hours: OpeningHours | null | undefined,
+  timezone: string,
+  date: LocalDate
+): TimeRange[] {
+  return getDayIntervals(hours, date).map(interval => ({
+    startsAt: fromLocalTime(date, interval.open, timezone),
+    endsAt: fromLocalTime(date, interval.close, timezone),
+  }));
+}
+
+// Whether the store is open at an instant, and when it next opens and
+// closes. Intervals that touch across midnight count as one opening.
+export function getOpenStatus(
+  hours: OpeningHours | null | undefined,
+  timezone: string,
+  now: Date
+): OpenStatus {
+  const today = toLocalDate(now, timezone);
+  const ranges: TimeRange[] = [];
+
+  for (let offset = -1; offset <= STATUS_SEARCH_DAYS; offset++) {
+    ranges.push(...getOpenIntervals(hours, timezone, addDays(today, offset)));
+  }
+
+  const merged = ranges
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+    .reduce<TimeRange[]>((result, range) => {
+      const last = result[result.length - 1];
+      if (last && range.startsAt.getTime() <= last.endsAt.getTime()) {
+        if (range.endsAt > last.endsAt) {
+          last.endsAt = range.endsAt;
+        }
+      } else {
+        result.push({ ...range });
+      }
+      return result;
+    }, []);
+
+  const current = merged.find(range => range.startsAt <= now && now < range.endsAt);
+  const next = merged.find(range => range.startsAt > now);
+
+  return {
+    isOpen: current !== undefined,
+    nextOpenAt: next?.startsAt ?? null,
+    nextCloseAt: (current ?? next)?.endsAt ?? null,
+  };
+}
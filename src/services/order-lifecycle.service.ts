@@ -0,0 +1,322 @@
+import prisma from '../db/prisma';
+import { Order, OrderStatus, OrderStatusEvent } from '@prisma/client';
+import { PaymentService } from './payment.service';
+import { ReservationService } from './reservation.service';
+import { RealtimeService } from './realtime.service';
+import { PromotionService } from './promotion.service';
+import { TimeSlotService } from './time-slot.service';
+
+// Types
+export type OrderActorRole = 'customer' | 'manager' | 'admin' | 'system';
+
+export interface OrderActor {
+  userId?: string;
+  role: OrderActorRole;
+  storeId?: string; // store the manager acts for
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  estimatedPickupTime?: Date;
+  actualPickupTime?: Date;
+}
+
+export interface OrderTimelineEntry {
+  id: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorId: string | null;
+  actorRole: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export type OrderTransitionGraph = Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, OrderActorRole[]>>
+>;
+
+// Allowed transitions and the roles that may perform each of them
+export const ORDER_TRANSITIONS: OrderTransitionGraph = {
+  pending: {
+    confirmed: ['manager', 'admin', 'system'],
+    cancelled: ['customer', 'manager', 'admin', 'system'],
+  },
+  confirmed: {
+    preparing: ['manager', 'admin'],
+    cancelled: ['customer', 'manager', 'admin', 'system'],
+  },
+  preparing: {
+    ready: ['manager', 'admin'],
+    cancelled: ['manager', 'admin'],
+  },
+  ready: {
+    completed: ['manager', 'admin'],
+    cancelled: ['manager', 'admin'],
+  },
+  completed: {},
+  cancelled: {},
+};
+
+// Check whether a transition exists in the graph, optionally for a given role
+export function canTransition(from: OrderStatus, to: OrderStatus, role?: OrderActorRole): boolean {
+  const allowedRoles = ORDER_TRANSITIONS[from][to];
+  if (!allowedRoles) {
+    return false;
+  }
+
+  return role ? allowedRoles.includes(role) : true;
+}
+
+// Statuses reachable from the given status
+export function getNextStatuses(from: OrderStatus, role?: OrderActorRole): OrderStatus[] {
+  return (Object.keys(ORDER_TRANSITIONS[from]) as OrderStatus[]).filter(to =>
+    canTransition(from, to, role)
+  );
+}
+
+// Service class
+export class OrderLifecycleService {
+  private reservationService: ReservationService;
+  private paymentService: PaymentService;
+  private promotionService: PromotionService;
+  private timeSlotService: TimeSlotService;
+
+  constructor() {
+    this.reservationService = new ReservationService();
+    this.paymentService = new PaymentService();
+    this.promotionService = new PromotionService();
+    this.timeSlotService = new TimeSlotService();
+  }
+
+  // Move an order to a new status, recording the event and running side effects
+  async transition(
+    orderId: string,
+    toStatus: OrderStatus,
+    actor: OrderActor,
+    options: TransitionOptions = {}
+  ): Promise<Order> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    this.assertActorCanAct(order, actor);
+
+    if (!canTransition(order.status, toStatus)) {
+      throw new Error(`Cannot change order status from ${order.status} to ${toStatus}`);
+    }
+
+    if (!canTransition(order.status, toStatus, actor.role)) {
+      throw new Error(`Role ${actor.role} cannot change order status to ${toStatus}`);
+    }
+
+    const updateData: any = {
+      status: toStatus,
+      updatedAt: new Date(),
+    };
+
+    // Committed with the cancellation, cleared once its clean-up is done
+    if (toStatus === 'cancelled') {
+      updateData.cleanupPending = true;
+    }
+
+    if (options.estimatedPickupTime) {
+      updateData.estimatedPickupTime = options.estimatedPickupTime;
+    }
+
+    if (options.actualPickupTime) {
+      updateData.actualPickupTime = options.actualPickupTime;
+    } else if (toStatus === 'completed' && !order.actualPickupTime) {
+      updateData.actualPickupTime = new Date();
+    }
+
+    // Guard on the current status so concurrent transitions cannot both apply
+    const updatedOrder = await prisma.$transaction(async (tx: any) => {
+      const result = await tx.order.updateMany({
+        where: { id: orderId, status: order.status },
+        data: updateData,
+      });
+
+      if (result.count === 0) {
+        throw new Error('Order status was changed by another request, please retry');
+      }
+
+      await tx.orderStatusEvent.create({
+        data: {
+          orderId,
+          fromStatus: order.status,
+          toStatus,
+          actorId: actor.userId,
+          actorRole: actor.role,
+          reason: options.reason,
+        },
+      });
+
+      return tx.order.findUnique({ where: { id: orderId } });
+    });
+
+    await this.runSideEffects(updatedOrder, options);
+
+    console.log(
+      `[OrderLifecycle] Order ${order.orderNumber}: ${order.status} -> ${toStatus} by ${actor.role}`
+    );
+
+    return updatedOrder;
+  }
+
+  // Record a status event without changing the order (used when the order is created)
+  async recordEvent(
+    tx: any,
+    orderId: string,
+    fromStatus: OrderStatus | null,
+    toStatus: OrderStatus,
+    actor: OrderActor,
+    reason?: string
+  ): Promise<OrderStatusEvent> {
+    return tx.orderStatusEvent.create({
+      data: {
+        orderId,
+        fromStatus,
+        toStatus,
+        actorId: actor.userId,
+        actorRole: actor.role,
+        reason,
+      },
+    });
+  }
+
+  // Get the status history of an order, oldest first
+  async getTimeline(orderId: string): Promise<OrderTimelineEntry[]> {
+    const events = await prisma.orderStatusEvent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return events.map((event: any) => ({
+      id: event.id,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      actorId: event.actorId,
+      actorRole: event.actorRole,
+      reason: event.reason,
+      createdAt: event.createdAt,
+    }));
+  }
+
+  // Customers may only act on their own orders, managers only on their store's orders
+  private assertActorCanAct(order: Order, actor: OrderActor): void {
+    if (actor.role === 'customer' && order.userId !== actor.userId) {
+      throw new Error('Unauthorized');
+    }
+
+    if (actor.role === 'manager' && actor.storeId && order.storeId !== actor.storeId) {
+      throw new Error('Unauthorized');
+    }
+  }
+
+  // Retry the clean-up of cancelled orders whose clean-up failed (scheduled).
+  // Orders cancelled in the last minute are left to the request cancelling them.
+  async retryPendingCleanups(): Promise<{ retried: number; cleaned: number }> {
+    const orders = await prisma.order.findMany({
+      where: {
+        cleanupPending: true,
+        status: 'cancelled',
+        updatedAt: { lt: new Date(Date.now() - 60 * 1000) },
+      },
+      orderBy: { updatedAt: 'asc' },
+      take: 100,
+    });
+
+    let cleaned = 0;
+    for (const order of orders) {
+      if (await this.cleanUpCancelledOrder(order, 'Order cancelled')) cleaned++;
+    }
+
+    if (orders.length > 0) {
+      console.log(`[OrderLifecycle] Retried clean-up of ${orders.length} cancelled orders`);
+    }
+
+    return { retried: orders.length, cleaned };
+  }
+
+  // Side effects that follow a committed transition
+  private async runSideEffects(updated: Order, options: TransitionOptions): Promise<void> {
+    if (updated.status === 'cancelled') {
+      await this.cleanUpCancelledOrder(updated, options.reason || 'Order cancelled');
+    }
+
+    this.emitStatusUpdate(updated, options.reason);
+  }
+
+  // Give back what a cancelled order held: its stock, promotion uses and
+  // slot place, and whatever earlier partial refunds left of the payment.
+  // Every step is safe to repeat. Clears the order's cleanupPending flag
+  // once all of them went through; a failure leaves it for the retry job.
+  private async cleanUpCancelledOrder(order: Order, reason: string): Promise<boolean> {
+    try {
+      await this.releaseReservationsForOrder(order.id);
+      await this.promotionService.releaseRedemptions(order.id);
+      await this.timeSlotService.releaseSlot(order.id);
+
+      // The payment service moves the order to refunded
+      if (order.paymentStatus === 'paid' || order.paymentStatus === 'partially_refunded') {
+        const refund = await this.paymentService.refundRemaining(order.id, reason);
+        if (refund && !refund.success) {
+          throw new Error(`Refund failed: ${refund.error}`);
+        }
+      }
+
+      await prisma.order.updateMany({
+        where: { id: order.id, cleanupPending: true },
+        data: { cleanupPending: false },
+      });
+      return true;
+    } catch (error) {
+      console.error(
+        `[OrderLifecycle] Clean-up of cancelled order ${order.orderNumber} failed, will retry:`,
+        error instanceof Error ? error.message : error
+      );
+      return false;
+    }
+  }
+
+  // Release inventory held for an order
+  private async releaseReservationsForOrder(orderId: string): Promise<void> {
+    const reservations = await prisma.inventoryReservation.findMany({
+      where: {
+        orderId,
+        status: { in: ['reserved', 'used'] },
+      },
+    });
+
+    for (const reservation of reservations) {
+      await this.reservationService.updateReservation(reservation.id, {
+        status: 'released',
+      });
+    }
+  }
+
+  // Notify the customer and the store over the realtime channels
+  emitStatusUpdate(order: Order, message?: string): void {
+    const realtime = RealtimeService.getInstance();
+    if (!realtime) {
+      return;
+    }
+
+    const update = {
+      orderId: order.id,
+      orderNumber: order.orderNumber,
+      status: order.status,
+      estimatedPickupTime: order.estimatedPickupTime?.toISOString(),
+      actualPickupTime: order.actualPickupTime?.toISOString(),
+      message,
+    };
+
+    realtime.sendOrderStatusUpdate(order.userId, update);
+    realtime.sendOrderUpdateToStore(order.storeId, update);
+  }
+}
@@ -0,0 +1,621 @@
+import { z } from 'zod';
+import { Order, OrderItem, OrderItemAdjustment, OrderStatus } from '@prisma/client';
+import prisma from '../db/prisma';
+import { MAX_CART_ITEM_QUANTITY } from './cart.service';
+import { OrderActor, OrderLifecycleService } from './order-lifecycle.service';
+import { PaymentService } from './payment.service';
+import { ReservationService } from './reservation.service';
+import { RealtimeService } from './realtime.service';
+import { roundMoney } from './pricing.service';
+import { assertManagesStore } from './store-access.service';
+
+// Validation schemas
+export const shortPickSchema = z.object({
+  storeId: z.string().uuid(),
+  pickedQuantity: z.number().int().min(0),
+  reason: z.string().max(500).optional(),
+});
+
+export const proposeSubstitutionSchema = shortPickSchema.extend({
+  // Units of the ordered product that are still supplied alongside the substitute
+  pickedQuantity: z.number().int().min(0).default(0),
+  productId: z.string().min(1),
+  quantity: z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY),
+  unitPrice: z.number().min(0),
+});
+
+export const substitutionResponseSchema = z.object({
+  adjustmentId: z.string().uuid(),
+  approve: z.boolean(),
+});
+
+// Types
+export interface AdjustableLine {
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  taxRate: number;
+  taxAmount: number;
+}
+
+export interface LineChangePlan {
+  // The ordered line after the change
+  quantity: number;
+  totalPrice: number;
+  taxAmount: number;
+  substitute: { quantity: number; unitPrice: number; totalPrice: number; taxAmount: number } | null;
+  discountDelta: number;
+  taxDelta: number;
+  // Owed back to the customer; the order total drops by the same amount
+  refund: number;
+}
+
+// Picking happens between confirmation and the order being ready
+const ADJUSTABLE_STATUSES: OrderStatus[] = ['confirmed', 'preparing'];
+
+const SUBSTITUTION_RESPONSE_MINUTES = parseInt(
+  process.env.SUBSTITUTION_RESPONSE_MINUTES || '30',
+  10
+);
+
+// Price the change to an order line. The missing units give back their
+// price, their share of the order discount and their tax. A substitute is
+// taxed at the line's rate and gets no discount; the payment is already
+// captured, so it may not cost more than the units it replaces.
+export function planLineChange(
+  line: AdjustableLine,
+  order: { subtotal: number; discountAmount: number },
+  pickedQuantity: number,
+  substitute?: { quantity: number; unitPrice: number }
+): LineChangePlan {
+  if (pickedQuantity < 0 || pickedQuantity >= line.quantity) {
+    throw new Error('Picked quantity must be less than the ordered quantity');
+  }
+
+  const share = (line.quantity - pickedQuantity) / line.quantity;
+  const lineDiscount =
+    order.subtotal > 0 ? (order.discountAmount * line.totalPrice) / order.subtotal : 0;
+
+  const totalPrice = roundMoney(line.unitPrice * pickedQuantity);
+  const removedPrice = roundMoney(line.totalPrice - totalPrice);
+  const removedDiscount = roundMoney(lineDiscount * share);
+  const removedTax = roundMoney(line.taxAmount * share);
+  const removedValue = removedPrice - removedDiscount + removedTax;
+
+  let planned: LineChangePlan['substitute'] = null;
+  let charge = 0;
+  if (substitute) {
+    const substituteTotal = roundMoney(substitute.unitPrice * substitute.quantity);
+    const substituteTax = roundMoney(substituteTotal * line.taxRate);
+    charge = substituteTotal + substituteTax;
+
+    if (charge > removedValue + 0.001) {
+      throw new Error('A substitute cannot cost more than the items it replaces');
+    }
+
+    planned = {
+      quantity: substitute.quantity,
+      unitPrice: roundMoney(substitute.unitPrice),
+      totalPrice: substituteTotal,
+      taxAmount: substituteTax,
+    };
+  }
+
+  return {
+    quantity: pickedQuantity,
+    totalPrice,
+    taxAmount: roundMoney(line.taxAmount - removedTax),
+    substitute: planned,
+    discountDelta: -removedDiscount,
+    taxDelta: roundMoney((planned?.taxAmount ?? 0) - removedTax),
+    refund: roundMoney(removedValue - charge),
+  };
+}
+
+// What a change owes back now: only paid orders get a refund
+export function getRefundDue(order: Pick<Order, 'paymentStatus'>, plan: LineChangePlan): number {
+  return ['paid', 'partially_refunded'].includes(order.paymentStatus) ? plan.refund : 0;
+}
+
+// Service class
+export class OrderSubstitutionService {
+  private reservationService: ReservationService;
+  private paymentService: PaymentService;
+  private lifecycleService: OrderLifecycleService;
+
+  constructor() {
+    this.reservationService = new ReservationService();
+    this.paymentService = new PaymentService();
+    this.lifecycleService = new OrderLifecycleService();
+  }
+
+  // Every change made to an order's lines, newest first. The customer,
+  // admins and the store's managers may look.
+  async getAdjustments(
+    orderId: string,
+    viewer: { userId: string; role: string }
+  ): Promise<OrderItemAdjustment[]> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { userId: true, storeId: true },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (order.userId !== viewer.userId) {
+      await assertManagesStore(viewer, order.storeId);
+    }
+
+    return prisma.orderItemAdjustment.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Record that only some of a line's units could be picked. Applies at
+  // once and refunds the difference.
+  async shortPick(
+    orderId: string,
+    itemId: string,
+    data: z.infer<typeof shortPickSchema>,
+    actor: OrderActor
+  ): Promise<OrderItemAdjustment> {
+    const { order, item, subtotal } = await this.getAdjustableItem(orderId, itemId, actor);
+    const plan = planLineChange(
+      this.toLine(item),
+      { subtotal, discountAmount: Number(order.discountAmount) },
+      data.pickedQuantity
+    );
+
+    const adjustment = await prisma.$transaction(async (tx: any) => {
+      await this.lockUnadjustedItem(tx, orderId, itemId);
+      await this.applyPlan(tx, order, item, plan, 'short_picked');
+
+      return tx.orderItemAdjustment.create({
+        data: {
+          orderId,
+          orderItemId: itemId,
+          type: 'short_pick',
+          status: 'applied',
+          originalQuantity: item.quantity,
+          pickedQuantity: data.pickedQuantity,
+          refundDue: getRefundDue(order, plan),
+          reason: data.reason,
+          actorId: actor.userId,
+          respondedAt: new Date(),
+        },
+      });
+    });
+
+    console.log(
+      `[Substitution] Short-picked ${item.productName} on ${order.orderNumber}: ${data.pickedQuantity}/${item.quantity}`
+    );
+
+    this.lifecycleService.emitStatusUpdate(
+      order,
+      `Only ${data.pickedQuantity} of ${item.quantity} ${item.productName} could be picked`
+    );
+
+    return this.settleRefund(order, adjustment);
+  }
+
+  // Offer a replacement for a line's missing units. The substitute's stock
+  // is held until the customer answers or the hold expires.
+  async proposeSubstitution(
+    orderId: string,
+    itemId: string,
+    data: z.infer<typeof proposeSubstitutionSchema>,
+    actor: OrderActor
+  ): Promise<OrderItemAdjustment> {
+    const { order, item, subtotal } = await this.getAdjustableItem(orderId, itemId, actor);
+
+    if (data.productId === item.productId) {
+      throw new Error('A substitute must be a different product');
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: data.productId },
+      select: { id: true, name: true },
+    });
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    // Priced now so a substitute that costs too much is refused up front
+    planLineChange(
+      this.toLine(item),
+      { subtotal, discountAmount: Number(order.discountAmount) },
+      data.pickedQuantity,
+      data
+    );
+
+    const adjustment = await prisma.$transaction(async (tx: any) => {
+      await this.lockUnadjustedItem(tx, orderId, itemId);
+
+      const reservation = await tx.inventoryReservation.create({
+        data: {
+          storeId: order.storeId,
+          productId: product.id,
+          quantity: data.quantity,
+          userId: order.userId,
+          orderId,
+          status: 'reserved',
+          expiresAt: new Date(Date.now() + SUBSTITUTION_RESPONSE_MINUTES * 60 * 1000),
+        },
+      });
+
+      await this.reservationService.reserveStock(tx, order.storeId, product.id, data.quantity, {
+        actor: actor.userId ? { userId: actor.userId, role: actor.role } : undefined,
+        orderId,
+        reservationId: reservation.id,
+      });
+
+      return tx.orderItemAdjustment.create({
+        data: {
+          orderId,
+          orderItemId: itemId,
+          type: 'substitution',
+          status: 'pending',
+          originalQuantity: item.quantity,
+          pickedQuantity: data.pickedQuantity,
+          substituteProductId: product.id,
+          substituteProductName: product.name,
+          substituteQuantity: data.quantity,
+          substituteUnitPrice: data.unitPrice,
+          reservationId: reservation.id,
+          reason: data.reason,
+          actorId: actor.userId,
+        },
+      });
+    });
+
+    const title = 'Substitution proposed';
+    const message = `${item.productName} is out of stock. Accept ${data.quantity} × ${product.name} instead?`;
+    await prisma.pushNotification.create({
+      data: {
+        userId: order.userId,
+        storeId: order.storeId,
+        title,
+        message,
+        type: 'order_update',
+        data: { orderId, adjustmentId: adjustment.id },
+        sentAt: new Date(),
+      },
+    });
+
+    const realtime = RealtimeService.getInstance();
+    if (realtime) {
+      realtime.sendSubstitutionRequest(order.userId, {
+        orderId,
+        orderNumber: order.orderNumber,
+        adjustmentId: adjustment.id,
+        productName: item.productName,
+        pickedQuantity: data.pickedQuantity,
+        orderedQuantity: item.quantity,
+        substituteProductName: product.name,
+        substituteQuantity: data.quantity,
+        substituteUnitPrice: roundMoney(data.unitPrice),
+        message,
+      });
+    }
+
+    console.log(
+      `[Substitution] Proposed ${product.name} for ${item.productName} on ${order.orderNumber}`
+    );
+
+    return adjustment;
+  }
+
+  // The customer's answer to a substitution. Rejecting, or answering after
+  // the stock hold expired, leaves the line short-picked.
+  async respond(
+    userId: string,
+    data: z.infer<typeof substitutionResponseSchema>
+  ): Promise<OrderItemAdjustment> {
+    const adjustment = await prisma.orderItemAdjustment.findUnique({
+      where: { id: data.adjustmentId },
+      include: { orderItem: { include: { order: true } } },
+    });
+
+    if (!adjustment) {
+      throw new Error('Substitution not found');
+    }
+
+    const { orderItem: item } = adjustment;
+    const { order } = item;
+
+    if (order.userId !== userId) {
+      throw new Error('Unauthorized');
+    }
+
+    if (adjustment.type !== 'substitution' || adjustment.status !== 'pending') {
+      throw new Error('Substitution has already been answered');
+    }
+
+    const reservation = adjustment.reservationId
+      ? await prisma.inventoryReservation.findUnique({ where: { id: adjustment.reservationId } })
+      : null;
+    const approved = data.approve && reservation?.status === 'reserved';
+
+    const subtotal = await this.getSubtotal(order.id);
+    const plan = planLineChange(
+      this.toLine(item),
+      { subtotal, discountAmount: Number(order.discountAmount) },
+      adjustment.pickedQuantity,
+      approved
+        ? {
+            quantity: adjustment.substituteQuantity as number,
+            unitPrice: Number(adjustment.substituteUnitPrice),
+          }
+        : undefined
+    );
+
+    const updated = await prisma.$transaction(async (tx: any) => {
+      const { count } = await tx.orderItemAdjustment.updateMany({
+        where: { id: adjustment.id, status: 'pending' },
+        data: { status: approved ? 'applied' : 'rejected', respondedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new Error('Substitution has already been answered');
+      }
+
+      // The held substitute is sold on approval, back on the shelf otherwise
+      if (reservation?.status === 'reserved') {
+        const settled = await this.reservationService.transitionReservation(
+          tx,
+          reservation,
+          approved ? 'used' : 'released',
+          { actor: { userId, role: 'customer' } }
+        );
+        if (approved && !settled) {
+          throw new Error('Substitution has expired, please try again');
+        }
+      }
+
+      await this.applyPlan(tx, order, item, plan, approved ? 'substituted' : 'short_picked');
+
+      let substituteItemId: string | undefined;
+      if (plan.substitute) {
+        const substituteItem = await tx.orderItem.create({
+          data: {
+            orderId: order.id,
+            productId: adjustment.substituteProductId,
+            productName: adjustment.substituteProductName,
+            quantity: plan.substitute.quantity,
+            unitPrice: plan.substitute.unitPrice,
+            totalPrice: plan.substitute.totalPrice,
+            taxRate: item.taxRate,
+            taxAmount: plan.substitute.taxAmount,
+            taxExempt: item.taxExempt,
+            status: 'substitute',
+          },
+        });
+        substituteItemId = substituteItem.id;
+      }
+
+      return tx.orderItemAdjustment.update({
+        where: { id: adjustment.id },
+        data: { substituteItemId, refundDue: getRefundDue(order, plan) },
+      });
+    });
+
+    console.log(
+      `[Substitution] ${approved ? 'Approved' : 'Rejected'} ${adjustment.substituteProductName} on ${order.orderNumber}`
+    );
+
+    this.lifecycleService.emitStatusUpdate(
+      order,
+      approved
+        ? `Substitution approved: ${adjustment.substituteProductName}`
+        : `Substitution rejected: ${adjustment.substituteProductName}`
+    );
+
+    return this.settleRefund(order, updated);
+  }
+
+  // Retry the refund of an applied change whose refund failed
+  async retryRefund(
+    orderId: string,
+    adjustmentId: string,
+    actor: OrderActor
+  ): Promise<OrderItemAdjustment> {
+    const adjustment = await prisma.orderItemAdjustment.findFirst({
+      where: { id: adjustmentId, orderId },
+    });
+
+    if (!adjustment) {
+      throw new Error('Adjustment not found');
+    }
+
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+
+    if (actor.role === 'manager' && actor.storeId && order.storeId !== actor.storeId) {
+      throw new Error('Unauthorized');
+    }
+
+    if (Number(adjustment.refundDue) <= 0) {
+      throw new Error('Adjustment has no refund due');
+    }
+
+    return this.settleRefund(order, adjustment);
+  }
+
+  // Retry every refund still due on applied changes (scheduled)
+  async retryDueRefunds(): Promise<{ retried: number; refunded: number }> {
+    const due = await prisma.orderItemAdjustment.findMany({
+      where: { status: 'applied', refundDue: { gt: 0 } },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+
+    let refunded = 0;
+    for (const adjustment of due) {
+      const order = await prisma.order.findUniqueOrThrow({ where: { id: adjustment.orderId } });
+      const settled = await this.settleRefund(order, adjustment);
+      if (Number(settled.refundDue) === 0) refunded++;
+    }
+
+    if (due.length > 0) {
+      console.log(`[Substitution] Retried ${due.length} due refunds, ${refunded} went through`);
+    }
+
+    return { retried: due.length, refunded };
+  }
+
+  // A line that can still be changed, on an order the actor may pick for
+  private async getAdjustableItem(
+    orderId: string,
+    itemId: string,
+    actor: OrderActor
+  ): Promise<{ order: Order; item: OrderItem; subtotal: number }> {
+    const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (actor.role === 'manager' && actor.storeId && order.storeId !== actor.storeId) {
+      throw new Error('Unauthorized');
+    }
+
+    if (!ADJUSTABLE_STATUSES.includes(order.status)) {
+      throw new Error(`Items cannot be changed on a ${order.status} order`);
+    }
+
+    const item = await prisma.orderItem.findFirst({
+      where: { id: itemId, orderId },
+    });
+
+    if (!item) {
+      throw new Error('Order item not found');
+    }
+
+    const pending = await prisma.orderItemAdjustment.findFirst({
+      where: { orderItemId: itemId, status: 'pending' },
+    });
+
+    if (item.status !== 'ordered' || pending) {
+      throw new Error('Order item has already been adjusted');
+    }
+
+    return { order, item, subtotal: await this.getSubtotal(orderId) };
+  }
+
+  // Serialize changes to an order, then make sure no other short pick or
+  // proposal got to the line since it was read
+  private async lockUnadjustedItem(tx: any, orderId: string, itemId: string): Promise<void> {
+    await tx.$queryRaw`
+      SELECT "id" FROM "backend"."orders" WHERE "id" = ${orderId} FOR UPDATE
+    `;
+
+    const item = await tx.orderItem.findUnique({ where: { id: itemId } });
+    const pending = await tx.orderItemAdjustment.findFirst({
+      where: { orderItemId: itemId, status: 'pending' },
+    });
+
+    if (item?.status !== 'ordered' || pending) {
+      throw new Error('Order item has already been adjusted');
+    }
+  }
+
+  // Write the changed line and move the order amounts by the plan's deltas.
+  // Guarded on the line and the order status, so a line changes only once
+  // and not after the order is ready.
+  private async applyPlan(
+    tx: any,
+    order: Order,
+    item: OrderItem,
+    plan: LineChangePlan,
+    status: 'short_picked' | 'substituted'
+  ): Promise<void> {
+    // Guarded on the line being untouched, so a double submit can't change
+    // it, and refund it, twice
+    const changed = await tx.orderItem.updateMany({
+      where: { id: item.id, status: 'ordered' },
+      data: {
+        quantity: plan.quantity,
+        totalPrice: plan.totalPrice,
+        taxAmount: plan.taxAmount,
+        status,
+      },
+    });
+
+    if (changed.count === 0) {
+      throw new Error('Order item has already been adjusted');
+    }
+
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, status: { in: ADJUSTABLE_STATUSES } },
+      data: {
+        totalAmount: { decrement: plan.refund },
+        taxAmount: { increment: plan.taxDelta },
+        discountAmount: { increment: plan.discountDelta },
+      },
+    });
+
+    if (count === 0) {
+      throw new Error('Order can no longer be changed');
+    }
+  }
+
+  // Give the customer back what a change took off a paid order. The refund
+  // stays due on the adjustment until it goes through; it is keyed on the
+  // adjustment so a retry never pays out twice.
+  private async settleRefund(
+    order: Order,
+    adjustment: OrderItemAdjustment
+  ): Promise<OrderItemAdjustment> {
+    const refund = Number(adjustment.refundDue);
+    if (refund <= 0) {
+      return adjustment;
+    }
+
+    // A fully refunded or cancelled order already gave back what was due
+    if (!['paid', 'partially_refunded'].includes(order.paymentStatus)) {
+      return prisma.orderItemAdjustment.update({
+        where: { id: adjustment.id },
+        data: { refundDue: 0 },
+      });
+    }
+
+    const result = await this.paymentService.processRefund({
+      orderId: order.id,
+      amount: refund,
+      reason: adjustment.type === 'short_pick' ? 'Items short-picked' : 'Items substituted',
+      reference: `adjustment:${adjustment.id}`,
+    });
+
+    if (!result.success) {
+      console.error(
+        `[Substitution] Refund of ${refund} for ${order.orderNumber} failed: ${result.error}`
+      );
+      return adjustment;
+    }
+
+    return prisma.orderItemAdjustment.update({
+      where: { id: adjustment.id },
+      data: { refundAmount: { increment: refund }, refundDue: 0 },
+    });
+  }
+
+  private async getSubtotal(orderId: string): Promise<number> {
+    const { _sum } = await prisma.orderItem.aggregate({
+      where: { orderId },
+      _sum: { totalPrice: true },
+    });
+
+    return Number(_sum.totalPrice || 0);
+  }
+
+  private toLine(item: OrderItem): AdjustableLine {
+    return {
+      quantity: item.quantity,
+      unitPrice: Number(item.unitPrice),
+      totalPrice: Number(item.totalPrice),
+      taxRate: Number(item.taxRate),
+      taxAmount: Number(item.taxAmount),
+    };
+  }
+}
@@ -1,9 +1,15 @@
 import { z } from 'zod';
 import prisma from '../db/prisma';
 import { CartService } from './cart.service';
-import { ReservationService } from './reservation.service';
+import { ReservationService, getUnheldQuantities } from './reservation.service';
 import { PaymentService } from './payment.service';
-import { OrderStatus, PaymentStatus, DeliveryType } from '@prisma/client';
+import { OrderLifecycleService, OrderActor } from './order-lifecycle.service';
+import { DeliveryService } from './delivery.service';
+import { PromotionService } from './promotion.service';
+import { CartRecoveryService } from './cart-recovery.service';
+import { TimeSlotService } from './time-slot.service';
+import { paymentQueue } from './queue.service';
+import { OrderStatus, PaymentStatus, DeliveryType, OrderItemStatus } from '@prisma/client';
 import crypto from 'crypto';
 
 // Validation schemas
@@ -25,6 +31,8 @@ export const createOrderSchema = z.object({
     .optional(),
   specialInstructions: z.string().optional(),
   paymentMethod: z.string().min(1),
+  // Start of the pickup or delivery slot to book, from the store's availability
+  slotStartsAt: z.string().datetime().optional(),
   idempotencyKey: z.string().uuid().optional(),
 });
 
@@ -32,6 +40,7 @@ export const updateOrderStatusSchema = z.object({
   status: z.enum(['pending', 'confirmed', 'preparing', 'ready', 'completed', 'cancelled']),
   estimatedPickupTime: z.string().datetime().optional(),
   actualPickupTime: z.string().datetime().optional(),
+  reason: z.string().max(500).optional(),
 });
 
 // Types
@@ -43,6 +52,7 @@ export interface OrderWithItems {
   status: OrderStatus;
   totalAmount: number;
   taxAmount: number;
+  taxZoneId: string | null;
   deliveryFee: number;
   discountAmount: number;
   paymentMethod: string | null;
@@ -52,6 +62,7 @@ export interface OrderWithItems {
   estimatedPickupTime: Date | null;
   actualPickupTime: Date | null;
   specialInstructions: string | null;
+  timeSlot: { startsAt: Date; endsAt: Date } | null;
   createdAt: Date;
   updatedAt: Date;
   items: Array<{
@@ -61,7 +72,12 @@ export interface OrderWithItems {
     quantity: number;
     unitPrice: number;
     totalPrice: number;
+    taxRate: number;
+    taxAmount: number;
+    taxExempt: boolean;
     specialInstructions: string | null;
+    // Changed by the picker: short_picked, substituted, or a substitute line
+    status: OrderItemStatus;
   }>;
   store?: {
     name: string;
@@ -70,6 +86,8 @@ export interface OrderWithItems {
   };
 }
 
+export type PaymentOutcome = 'confirmed' | 'failed' | 'skipped';
+
 export interface OrderSummary {
   totalOrders: number;
   pendingOrders: number;
@@ -84,11 +102,23 @@ export class OrderService {
   private cartService: CartService;
   private reservationService: ReservationService;
   private paymentService: PaymentService;
+  private lifecycleService: OrderLifecycleService;
+  private deliveryService: DeliveryService;
+  private promotionService: PromotionService;
+  private cartRecoveryService: CartRecoveryService;
+  private timeSlotService: TimeSlotService;
+  private readonly paymentReservationTTLMinutes: number;
 
   constructor() {
+    this.paymentReservationTTLMinutes = parseInt(process.env.RESERVATION_TTL_MINUTES || '15');
     this.cartService = new CartService();
     this.reservationService = new ReservationService();
     this.paymentService = new PaymentService();
+    this.lifecycleService = new OrderLifecycleService();
+    this.deliveryService = new DeliveryService();
+    this.promotionService = new PromotionService();
+    this.cartRecoveryService = new CartRecoveryService();
+    this.timeSlotService = new TimeSlotService();
   }
 
   // Create order with idempotency
@@ -102,6 +132,7 @@ export class OrderService {
       deliveryAddress,
       specialInstructions,
       paymentMethod,
+      slotStartsAt,
       idempotencyKey,
     } = data;
 
@@ -144,53 +175,41 @@ export class OrderService {
 
     try {
       // Validate cart
-      const cartValidation = await this.cartService.validateCartForCheckout(userId, storeId);
+      const cartValidation = await this.cartService.validateCartForCheckout({ userId }, storeId);
       if (!cartValidation.valid) {
         throw new Error(`Cart validation failed: ${cartValidation.errors.join(', ')}`);
       }
 
-      // Get cart with items
-      const cart = await this.cartService.getCartWithItems(userId, storeId);
+      // Delivery orders must be inside the store's delivery area, and pay the
+      // fee for the address's distance
+      const deliveryQuote =
+        deliveryType === 'delivery'
+          ? await this.deliveryService.quoteDeliveryAddress(storeId, deliveryAddress)
+          : null;
+
+      // Get cart with items, priced for the chosen delivery type
+      const cart = await this.cartService.getCartWithItems({ userId }, storeId, {
+        deliveryType,
+        deliveryFee: deliveryQuote?.fee,
+      });
       if (!cart || cart.items.length === 0) {
         throw new Error('Cart is empty');
       }
 
-      // Start transaction
+      // Phase one: commit the pending order with its reservations. Payment runs afterwards
+      // in the payment queue so no provider call holds inventory row locks.
       const result = await prisma.$transaction(async (tx: any) => {
-        // Create inventory reservations
-        const reservations = [];
-        for (const item of cart.items) {
-          const reservation = await tx.inventoryReservation.create({
-            data: {
-              storeId,
-              productId: item.productId,
-              quantity: item.quantity,
-              userId,
-              status: 'reserved',
-              expiresAt: new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
-            },
-          });
-          reservations.push(reservation);
-
-          // Update store inventory
-          await tx.storeInventory.update({
-            where: {
-              storeId_productId: {
-                storeId,
-                productId: item.productId,
-              },
-            },
-            data: {
-              reservedQuantity: {
-                increment: item.quantity,
-              },
-            },
-          });
-        }
-
         // Generate order number
         const orderNumber = await this.generateOrderNumber();
 
+        // Book the chosen slot; rejected when it is full or outside opening hours
+        const timeSlot = await this.timeSlotService.holdSlot(
+          tx,
+          storeId,
+          deliveryType,
+          slotStartsAt ? new Date(slotStartsAt) : undefined
+        );
+
         // Create order
         const order = await tx.order.create({
           data: {
@@ -200,6 +219,7 @@ export class OrderService {
             status: 'pending',
             totalAmount: cart.totals.total,
             taxAmount: cart.totals.tax,
+            taxZoneId: cart.pricing.taxZoneId,
             deliveryFee: cart.totals.deliveryFee,
             discountAmount: cart.totals.discount,
             paymentMethod,
@@ -207,59 +227,69 @@ export class OrderService {
             deliveryType,
             deliveryAddress,
             specialInstructions,
+            timeSlotId: timeSlot?.id,
+            estimatedPickupTime: deliveryType === 'pickup' ? timeSlot?.startsAt : undefined,
           },
         });
 
-        // Create order items
+        await this.lifecycleService.recordEvent(tx, order.id, null, 'pending', {
+          userId,
+          role: 'customer',
+        });
+
+        // Create inventory reservations held by the order until payment settles
+        for (const item of cart.items) {
+          const reservation = await tx.inventoryReservation.create({
+            data: {
+              storeId,
+              productId: item.productId,
+              quantity: item.quantity,
+              userId,
+              orderId: order.id,
+              status: 'reserved',
+              expiresAt: new Date(Date.now() + this.paymentReservationTTLMinutes * 60 * 1000),
+            },
+          });
+
+          // Guarded update: fails the checkout instead of overselling
+          await this.reservationService.reserveStock(tx, storeId, item.productId, item.quantity, {
+            actor: { userId, role: 'customer' },
+            orderId: order.id,
+            reservationId: reservation.id,
+          });
+        }
+
+        // Create order items at the prices and tax the totals were built from,
+        // so every line keeps its own tax breakdown for auditing
         const orderItems = await Promise.all(
-          cart.items.map(item =>
+          cart.items.map((item, index) =>
             tx.orderItem.create({
               data: {
                 orderId: order.id,
                 productId: item.productId,
                 productName: item.product?.attributes?.name || `Product ${item.productId}`,
                 quantity: item.quantity,
-                unitPrice: item.priceAtTime,
-                totalPrice: Number(item.priceAtTime) * item.quantity,
+                unitPrice: cart.pricing.lines[index].unitPrice,
+                totalPrice: cart.pricing.lines[index].lineTotal,
+                taxRate: cart.pricing.lines[index].taxRate,
+                taxAmount: cart.pricing.lines[index].tax,
+                taxExempt: cart.pricing.lines[index].taxExempt,
                 specialInstructions: null,
               },
             })
           )
         );
 
-        // Process payment
-        const paymentResult = await this.paymentService.processPayment({
-          amount: cart.totals.total,
-          paymentMethod,
+        // Count the promotions the order used against their limits
+        await this.promotionService.redeemCartPromotions(tx, {
+          cartId: cart.id,
           orderId: order.id,
           userId,
+          discounts: cart.pricing.promotions,
         });
 
-        if (!paymentResult.success) {
-          throw new Error(`Payment failed: ${paymentResult.error}`);
-        }
-
-    // Update order with payment result
-    await tx.order.update({
-      where: { id: order.id },
-      data: {
-        paymentStatus: paymentResult.success ? 'paid' : 'failed',
-        status: paymentResult.success ? 'confirmed' : 'pending',
-      },
-    });
-
-        // Update reservations to used
-        if (paymentResult.success) {
-          await tx.inventoryReservation.updateMany({
-            where: {
-              id: { in: reservations.map(r => r.id) },
-            },
-            data: {
-              status: 'used',
-              orderId: order.id,
-            },
-          });
-        }
+        // Credit a recovery reminder sent for this cart, if any
+        await this.cartRecoveryService.markConverted(tx, cart.id, order.id);
 
         // Clear cart
         await tx.cartItem.deleteMany({
@@ -272,6 +302,22 @@ export class OrderService {
         };
       });
 
+      // Phase two: hand payment over to the payment queue
+      try {
+        await paymentQueue.add(
+          'capture',
+          { orderId: result.order.id },
+          { jobId: `payment-${result.order.id}` }
+        );
+      } catch (queueError) {
+        console.error(
+          `[Order] Could not enqueue payment for ${result.order.orderNumber}`,
+          queueError
+        );
+        await this.compensateFailedPayment(result.order.id, 'Payment could not be scheduled');
+        throw new Error('Payment could not be started, please try again');
+      }
+
       // Update idempotency key with success
       await prisma.idempotencyKey.update({
         where: { id: idempotencyRecord.id },
@@ -284,6 +330,8 @@ export class OrderService {
       // Get order with store details
       const orderWithDetails = await this.getOrderById(result.order.id);
 
+      this.lifecycleService.emitStatusUpdate(result.order, 'Order received, processing payment');
+
       console.log(`[Order] Created order ${result.order.orderNumber} for user ${userId}`);
 
       return orderWithDetails!;
@@ -297,19 +345,260 @@ export class OrderService {
         },
       });
 
-      // Release any reservations that were created
-      await this.releaseReservationsForFailedOrder(userId, storeId);
-
       throw error;
     }
   }
 
+  // Run the payment for a pending order (called by the payment worker).
+  // Safe to retry: each step resumes from the stored payment intent.
+  async processOrderPayment(orderId: string): Promise<PaymentOutcome> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    let intent = await prisma.paymentIntent.findFirst({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Captured already, e.g. a webhook arrived before this run got to confirm it
+    if (
+      order.status === 'pending' &&
+      (order.paymentStatus === 'paid' || intent?.status === 'captured')
+    ) {
+      await this.confirmPaidOrder(orderId);
+      return 'confirmed';
+    }
+
+    // The order moved on without us (e.g. cancelled by the customer): drop any open intent
+    if (order.status !== 'pending' || order.paymentStatus !== 'pending') {
+      if (intent && ['requires_authorization', 'authorized'].includes(intent.status)) {
+        await this.paymentService.cancelPayment(intent.id);
+      }
+      return 'skipped';
+    }
+
+    if (!intent || ['failed', 'cancelled'].includes(intent.status)) {
+      intent = await this.paymentService.createPaymentIntent({
+        orderId,
+        amount: Number(order.totalAmount),
+        paymentMethod: order.paymentMethod || 'unknown',
+      });
+    }
+
+    if (intent.status === 'requires_authorization') {
+      intent = await this.paymentService.authorizePayment(intent.id);
+    }
+
+    if (intent.status === 'authorized') {
+      intent = await this.paymentService.capturePayment(intent.id);
+    }
+
+    if (intent.status === 'captured') {
+      await this.confirmPaidOrder(orderId);
+      return 'confirmed';
+    }
+
+    await this.compensateFailedPayment(orderId, intent.failureReason || 'Payment failed');
+    return 'failed';
+  }
+
+  // Compensate an order whose payment failed: release stock, mark payment failed, cancel.
+  // A capture that went through before the failure is never marked failed:
+  // the order is cancelled as paid, so cancelling refunds it.
+  async compensateFailedPayment(orderId: string, reason: string): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+    });
+
+    if (!order || order.status !== 'pending') {
+      return;
+    }
+
+    const intent = await prisma.paymentIntent.findFirst({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (intent?.status === 'captured' || order.paymentStatus === 'paid') {
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { paymentStatus: 'paid' },
+      });
+      await this.lifecycleService.transition(
+        orderId,
+        'cancelled',
+        { role: 'system' },
+        { reason: `Order could not be confirmed after payment: ${reason}` }
+      );
+
+      console.error(`[Order] Cancelled and refunding paid order ${order.orderNumber}: ${reason}`);
+      return;
+    }
+
+    // Guarded so a capture recorded meanwhile is not overwritten
+    await prisma.order.updateMany({
+      where: { id: orderId, paymentStatus: 'pending' },
+      data: { paymentStatus: 'failed' },
+    });
+
+    // Cancelling releases the order's reservations and notifies the customer
+    await this.lifecycleService.transition(
+      orderId,
+      'cancelled',
+      { role: 'system' },
+      { reason: `Payment failed: ${reason}` }
+    );
+
+    console.log(`[Order] Payment failed for order ${order.orderNumber}: ${reason}`);
+  }
+
+  // Mark a captured order as paid and confirm it. The held units become a
+  // sale; units whose hold was released meanwhile are reserved again, and
+  // when the stock is gone the order is cancelled, which refunds it. An
+  // order cancelled while the capture was in flight is refunded instead.
+  private async confirmPaidOrder(orderId: string): Promise<void> {
+    let shortage: string | null = null;
+    let status: string | null = null;
+
+    try {
+      await prisma.$transaction(async (tx: any) => {
+        // Lock the order so a cancellation waits until the units are sold
+        await tx.$queryRaw`SELECT "id" FROM "backend"."orders" WHERE "id" = ${orderId} FOR UPDATE`;
+
+        const current = await tx.order.findUnique({ where: { id: orderId } });
+        status = current.status;
+
+        if (current.status !== 'pending') {
+          // Cancelled before the capture landed, so its clean-up found nothing
+          // to refund: record the capture and flag the clean-up to retry
+          if (
+            current.status === 'cancelled' &&
+            ['pending', 'failed'].includes(current.paymentStatus)
+          ) {
+            await tx.order.update({
+              where: { id: orderId },
+              data: { paymentStatus: 'paid', cleanupPending: true },
+            });
+          }
+          return;
+        }
+
+        const order = await tx.order.update({
+          where: { id: orderId },
+          data: { paymentStatus: 'paid' },
+          include: { items: true },
+        });
+
+        const reservations = await tx.inventoryReservation.findMany({
+          where: { orderId, status: { in: ['reserved', 'used'] } },
+        });
+
+        for (const [productId, quantity] of getUnheldQuantities(order.items, reservations)) {
+          const reservation = await tx.inventoryReservation.create({
+            data: {
+              storeId: order.storeId,
+              productId,
+              quantity,
+              userId: order.userId,
+              orderId,
+              status: 'reserved',
+              expiresAt: new Date(Date.now() + this.paymentReservationTTLMinutes * 60 * 1000),
+            },
+          });
+
+          try {
+            await this.reservationService.reserveStock(tx, order.storeId, productId, quantity, {
+              orderId,
+              reservationId: reservation.id,
+            });
+          } catch (error) {
+            shortage = error instanceof Error ? error.message : String(error);
+            throw error;
+          }
+
+          reservations.push(reservation);
+        }
+
+        // The held units are now sold
+        for (const reservation of reservations) {
+          if (reservation.status === 'reserved') {
+            await this.reservationService.transitionReservation(tx, reservation, 'used');
+          }
+        }
+      });
+    } catch (error) {
+      if (!shortage) {
+        throw error;
+      }
+
+      // Record the capture so cancelling refunds it
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { paymentStatus: 'paid' },
+      });
+      await this.lifecycleService.transition(
+        orderId,
+        'cancelled',
+        { role: 'system' },
+        { reason: `Stock ran out before payment completed: ${shortage}` }
+      );
+
+      console.warn(`[Order] Cancelled paid order ${orderId}: ${shortage}`);
+      return;
+    }
+
+    if (status === 'cancelled') {
+      await this.refundCancelledOrder(orderId);
+      return;
+    }
+
+    if (status !== 'pending') {
+      return;
+    }
+
+    try {
+      await this.lifecycleService.transition(
+        orderId,
+        'confirmed',
+        { role: 'system' },
+        { reason: 'Payment captured' }
+      );
+    } catch (error) {
+      // The order was cancelled while the capture was in flight: give the money back
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+      if (order?.status !== 'cancelled') {
+        throw error;
+      }
+
+      await this.refundCancelledOrder(orderId);
+    }
+  }
+
+  // Refund a capture that landed on a cancelled order. Shares its refund key
+  // with the cancellation clean-up, which retries it if this attempt fails.
+  private async refundCancelledOrder(orderId: string): Promise<void> {
+    const refund = await this.paymentService.refundRemaining(
+      orderId,
+      'Order cancelled during payment'
+    );
+
+    if (refund && !refund.success) {
+      console.error(`[Order] Refund for cancelled order ${orderId} failed: ${refund.error}`);
+    }
+  }
+
   // Get order by ID
   async getOrderById(orderId: string): Promise<OrderWithItems | null> {
     const order = await prisma.order.findUnique({
       where: { id: orderId },
       include: {
         items: true,
+        timeSlot: true,
         store: {
           select: {
             name: true,
@@ -332,6 +621,7 @@ export class OrderService {
       status: order.status,
       totalAmount: Number(order.totalAmount),
       taxAmount: Number(order.taxAmount),
+      taxZoneId: order.taxZoneId,
       deliveryFee: Number(order.deliveryFee),
       discountAmount: Number(order.discountAmount),
       paymentMethod: order.paymentMethod,
@@ -341,6 +631,9 @@ export class OrderService {
       estimatedPickupTime: order.estimatedPickupTime,
       actualPickupTime: order.actualPickupTime,
       specialInstructions: order.specialInstructions,
+      timeSlot: order.timeSlot
+        ? { startsAt: order.timeSlot.startsAt, endsAt: order.timeSlot.endsAt }
+        : null,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
       items: order.items.map((item: any) => ({
@@ -350,7 +643,11 @@ export class OrderService {
         quantity: item.quantity,
         unitPrice: Number(item.unitPrice),
         totalPrice: Number(item.totalPrice),
+        taxRate: Number(item.taxRate),
+        taxAmount: Number(item.taxAmount),
+        taxExempt: item.taxExempt,
         specialInstructions: item.specialInstructions,
+        status: item.status,
       })),
       store: order.store
         ? {
@@ -372,6 +669,7 @@ export class OrderService {
       where: { userId },
       include: {
         items: true,
+        timeSlot: true,
         store: {
           select: {
             name: true,
@@ -393,6 +691,7 @@ export class OrderService {
       status: order.status,
       totalAmount: Number(order.totalAmount),
       taxAmount: Number(order.taxAmount),
+      taxZoneId: order.taxZoneId,
       deliveryFee: Number(order.deliveryFee),
       discountAmount: Number(order.discountAmount),
       paymentMethod: order.paymentMethod,
@@ -402,6 +701,9 @@ export class OrderService {
       estimatedPickupTime: order.estimatedPickupTime,
       actualPickupTime: order.actualPickupTime,
       specialInstructions: order.specialInstructions,
+      timeSlot: order.timeSlot
+        ? { startsAt: order.timeSlot.startsAt, endsAt: order.timeSlot.endsAt }
+        : null,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
       items: order.items.map((item: any) => ({
@@ -411,90 +713,50 @@ export class OrderService {
         quantity: item.quantity,
         unitPrice: Number(item.unitPrice),
         totalPrice: Number(item.totalPrice),
+        taxRate: Number(item.taxRate),
+        taxAmount: Number(item.taxAmount),
+        taxExempt: item.taxExempt,
         specialInstructions: item.specialInstructions,
+        status: item.status,
       })),
       store: order.store,
     }));
   }
 
-  // Update order status
+  // Update order status through the lifecycle state machine
   async updateOrderStatus(
     orderId: string,
-    data: z.infer<typeof updateOrderStatusSchema>
+    data: z.infer<typeof updateOrderStatusSchema>,
+    actor: OrderActor
   ): Promise<OrderWithItems> {
-    const { status, estimatedPickupTime, actualPickupTime } = data;
-
-    const updateData: any = {
-      status,
-      updatedAt: new Date(),
-    };
-
-    if (estimatedPickupTime) {
-      updateData.estimatedPickupTime = new Date(estimatedPickupTime);
-    }
+    const { status, estimatedPickupTime, actualPickupTime, reason } = data;
 
-    if (actualPickupTime) {
-      updateData.actualPickupTime = new Date(actualPickupTime);
-    }
-
-    const order = await prisma.order.update({
-      where: { id: orderId },
-      data: updateData,
+    await this.lifecycleService.transition(orderId, status, actor, {
+      reason,
+      estimatedPickupTime: estimatedPickupTime ? new Date(estimatedPickupTime) : undefined,
+      actualPickupTime: actualPickupTime ? new Date(actualPickupTime) : undefined,
     });
 
-    console.log(`[Order] Updated order ${order.orderNumber} status to ${status}`);
-
     return this.getOrderById(orderId) as Promise<OrderWithItems>;
   }
 
   // Cancel order
-  async cancelOrder(orderId: string, userId: string): Promise<OrderWithItems> {
-    const order = await prisma.order.findUnique({
-      where: { id: orderId },
-    });
-
-    if (!order) {
-      throw new Error('Order not found');
-    }
-
-    if (order.userId !== userId) {
-      throw new Error('Unauthorized');
-    }
-
-    if (order.status === 'completed') {
-      throw new Error('Cannot cancel completed order');
-    }
-
-    if (order.status === 'cancelled') {
-      throw new Error('Order is already cancelled');
-    }
-
-    // Update order status
-    const updatedOrder = await prisma.order.update({
-      where: { id: orderId },
-      data: {
-        status: 'cancelled',
-        updatedAt: new Date(),
-      },
-    });
-
-    // Release inventory reservations
-    await this.releaseReservationsForOrder(orderId);
-
-    // Process refund if payment was successful
-    if (order.paymentStatus === 'paid') {
-      await this.paymentService.processRefund({
-        orderId,
-        amount: Number(order.totalAmount),
-        reason: 'Order cancelled by customer',
-      });
-    }
-
-    console.log(`[Order] Cancelled order ${order.orderNumber}`);
+  async cancelOrder(orderId: string, userId: string, reason?: string): Promise<OrderWithItems> {
+    await this.lifecycleService.transition(
+      orderId,
+      'cancelled',
+      { userId, role: 'customer' },
+      { reason: reason || 'Order cancelled by customer' }
+    );
 
     return this.getOrderById(orderId) as Promise<OrderWithItems>;
   }
 
+  // Get order status history
+  async getOrderTimeline(orderId: string) {
+    return this.lifecycleService.getTimeline(orderId);
+  }
+
   // Get order summary
   async getOrderSummary(storeId?: string): Promise<OrderSummary> {
     const whereClause = storeId ? { storeId } : {};
@@ -559,38 +821,4 @@ export class OrderService {
 
     return orderNumber;
   }
-
-  // Release reservations for failed order
-  private async releaseReservationsForFailedOrder(userId: string, storeId: string): Promise<void> {
-    const reservations = await prisma.inventoryReservation.findMany({
-      where: {
-        userId,
-        storeId,
-        status: 'reserved',
-        orderId: null,
-      },
-    });
-
-    for (const reservation of reservations) {
-      await this.reservationService.updateReservation(reservation.id, {
-        status: 'released',
-      });
-    }
-  }
-
-  // Release reservations for order
-  private async releaseReservationsForOrder(orderId: string): Promise<void> {
-    const reservations = await prisma.inventoryReservation.findMany({
-      where: {
-        orderId,
-        status: 'used',
-      },
-    });
-
-    for (const reservation of reservations) {
-      await this.reservationService.updateReservation(reservation.id, {
-        status: 'released',
-      });
-    }
-  }
 }
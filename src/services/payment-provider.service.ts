@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+
+// Types
+export type ProviderIntentStatus =
+  | 'requires_authorization'
+  | 'authorized'
+  | 'captured'
+  | 'failed'
+  | 'cancelled';
+
+export interface ProviderIntent {
+  providerIntentId: string;
+  status: ProviderIntentStatus;
+  amount: number;
+  capturedAmount: number;
+  currency: string;
+  failureReason?: string;
+}
+
+export interface ProviderRefund {
+  success: boolean;
+  refundId?: string;
+  amount: number;
+  error?: string;
+}
+
+export interface ProviderIntentContext {
+  providerIntentId: string;
+  paymentMethod: string;
+  amount: number;
+  currency: string;
+}
+
+export type ProviderWebhookEventType =
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'payment.refunded';
+
+export interface ProviderWebhookEvent {
+  eventId: string;
+  type: ProviderWebhookEventType;
+  providerIntentId: string;
+  amount?: number;
+  failureReason?: string;
+}
+
+// Contract every payment provider adapter implements
+export interface PaymentProvider {
+  readonly name: string;
+
+  createIntent(params: {
+    orderId: string;
+    amount: number;
+    currency: string;
+    paymentMethod: string;
+  }): Promise<ProviderIntent>;
+  authorize(intent: ProviderIntentContext): Promise<ProviderIntent>;
+  capture(intent: ProviderIntentContext, amount: number): Promise<ProviderIntent>;
+  cancel(intent: ProviderIntentContext): Promise<ProviderIntent>;
+  // Providers that take an idempotency key return the first refund made
+  // under it rather than paying out again
+  refund(
+    intent: ProviderIntentContext,
+    amount: number,
+    reason?: string,
+    idempotencyKey?: string
+  ): Promise<ProviderRefund>;
+  verifyWebhookSignature(payload: string, signature: string): boolean;
+  parseWebhookEvent(body: any): ProviderWebhookEvent;
+}
+
+// Deterministic local provider: outcomes depend only on the payment method and amount
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'sandbox';
+  private readonly webhookSecret: string;
+  // Refunds made under an idempotency key, for replaying them
+  private readonly refunds = new Map<string, ProviderRefund>();
+
+  // Payment methods that the sandbox declines, with the decline reason
+  static readonly DECLINING_METHODS: Record<string, string> = {
+    test_fail: 'Test payment failure',
+    test_decline: 'Card declined',
+    test_insufficient_funds: 'Insufficient funds',
+  };
+
+  // Payment method that authorizes but fails on capture
+  static readonly CAPTURE_FAILING_METHOD = 'test_capture_fail';
+
+  constructor(webhookSecret?: string) {
+    this.webhookSecret =
+      webhookSecret || process.env.SANDBOX_PAYMENT_WEBHOOK_SECRET || 'sandbox-webhook-secret';
+  }
+
+  async createIntent(params: {
+    orderId: string;
+    amount: number;
+    currency: string;
+    paymentMethod: string;
+  }): Promise<ProviderIntent> {
+    return {
+      providerIntentId: `sbx_pi_${crypto.randomUUID()}`,
+      status: 'requires_authorization',
+      amount: params.amount,
+      capturedAmount: 0,
+      currency: params.currency,
+    };
+  }
+
+  async authorize(intent: ProviderIntentContext): Promise<ProviderIntent> {
+    const declineReason = SandboxPaymentProvider.DECLINING_METHODS[intent.paymentMethod];
+
+    return {
+      providerIntentId: intent.providerIntentId,
+      status: declineReason ? 'failed' : 'authorized',
+      amount: intent.amount,
+      capturedAmount: 0,
+      currency: intent.currency,
+      failureReason: declineReason,
+    };
+  }
+
+  async capture(intent: ProviderIntentContext, amount: number): Promise<ProviderIntent> {
+    if (intent.paymentMethod === SandboxPaymentProvider.CAPTURE_FAILING_METHOD) {
+      return {
+        providerIntentId: intent.providerIntentId,
+        status: 'failed',
+        amount: intent.amount,
+        capturedAmount: 0,
+        currency: intent.currency,
+        failureReason: 'Capture failed',
+      };
+    }
+
+    if (amount > intent.amount) {
+      throw new Error('Capture amount exceeds authorized amount');
+    }
+
+    return {
+      providerIntentId: intent.providerIntentId,
+      status: 'captured',
+      amount: intent.amount,
+      capturedAmount: amount,
+      currency: intent.currency,
+    };
+  }
+
+  async cancel(intent: ProviderIntentContext): Promise<ProviderIntent> {
+    return {
+      providerIntentId: intent.providerIntentId,
+      status: 'cancelled',
+      amount: intent.amount,
+      capturedAmount: 0,
+      currency: intent.currency,
+    };
+  }
+
+  async refund(
+    intent: ProviderIntentContext,
+    amount: number,
+    reason?: string,
+    idempotencyKey?: string
+  ): Promise<ProviderRefund> {
+    const previous = idempotencyKey && this.refunds.get(idempotencyKey);
+    if (previous) {
+      return previous;
+    }
+
+    const refund = {
+      success: true,
+      refundId: `sbx_re_${crypto.randomUUID()}`,
+      amount,
+    };
+
+    if (idempotencyKey) {
+      this.refunds.set(idempotencyKey, refund);
+    }
+
+    return refund;
+  }
+
+  // Sign a payload the way the sandbox does (used by tests and local tooling)
+  sign(payload: string): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(payload, 'utf8').digest('hex');
+  }
+
+  verifyWebhookSignature(payload: string, signature: string): boolean {
+    try {
+      const expectedSignature = this.sign(payload);
+      return crypto.timingSafeEqual(
+        Buffer.from(signature, 'hex'),
+        Buffer.from(expectedSignature, 'hex')
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  parseWebhookEvent(body: any): ProviderWebhookEvent {
+    const types: ProviderWebhookEventType[] = [
+      'payment.authorized',
+      'payment.captured',
+      'payment.failed',
+      'payment.refunded',
+    ];
+
+    if (!body?.id || !types.includes(body.type) || !body.data?.intentId) {
+      throw new Error('Invalid sandbox webhook event');
+    }
+
+    return {
+      eventId: String(body.id),
+      type: body.type,
+      providerIntentId: String(body.data.intentId),
+      amount: body.data.amount !== undefined ? Number(body.data.amount) : undefined,
+      failureReason: body.data.failureReason,
+    };
+  }
+}
+
+// Provider registry
+const providers = new Map<string, PaymentProvider>();
+
+export function registerPaymentProvider(provider: PaymentProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getPaymentProvider(name: string): PaymentProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+}
+
+export function getDefaultPaymentProvider(): PaymentProvider {
+  return getPaymentProvider(process.env.PAYMENT_PROVIDER || 'sandbox');
+}
+
+registerPaymentProvider(new SandboxPaymentProvider());
@@ -1,4 +1,15 @@
 import { z } from 'zod';
+import prisma from '../db/prisma';
+import { PaymentIntent, PaymentStatus } from '@prisma/client';
+import {
+  PaymentProvider,
+  ProviderIntent,
+  ProviderIntentContext,
+  ProviderWebhookEvent,
+  getDefaultPaymentProvider,
+  getPaymentProvider,
+} from './payment-provider.service';
+import { roundMoney } from './pricing.service';
 
 // Validation schemas
 export const processPaymentSchema = z.object({
@@ -12,6 +23,9 @@ export const processRefundSchema = z.object({
   orderId: z.string().uuid(),
   amount: z.number().min(0.01),
   reason: z.string().optional(),
+  // What the refund pays back (e.g. a return); a refund that already went
+  // through under the same reference is reported instead of repeated
+  reference: z.string().min(1).max(100).optional(),
 });
 
 // Types
@@ -32,35 +46,182 @@ export interface RefundResult {
   status: 'pending' | 'completed' | 'failed';
 }
 
+export interface WebhookResult {
+  status: 'processed' | 'already_processed' | 'ignored' | 'flagged';
+  paymentStatus?: PaymentStatus;
+}
+
+// Order payment statuses only ever move forward in this order; failed is final
+export const PAYMENT_STATUS_ORDER: PaymentStatus[] = [
+  'pending',
+  'failed',
+  'paid',
+  'partially_refunded',
+  'refunded',
+];
+
+export function canAdvancePaymentStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+  if (from === 'failed') {
+    return false;
+  }
+
+  return PAYMENT_STATUS_ORDER.indexOf(to) > PAYMENT_STATUS_ORDER.indexOf(from);
+}
+
+// Status of a paid order after refunds, from its captured and refunded totals
+export function getRefundedPaymentStatus(captured: number, refunded: number): PaymentStatus {
+  if (refunded <= 0) {
+    return 'paid';
+  }
+
+  return refunded >= captured - 0.001 ? 'refunded' : 'partially_refunded';
+}
+
+// Changes a provider webhook makes to a payment intent
+export function getIntentUpdateForEvent(
+  intent: Pick<PaymentIntent, 'status' | 'amount' | 'capturedAmount' | 'refundedAmount'>,
+  event: ProviderWebhookEvent
+): Record<string, any> {
+  switch (event.type) {
+    case 'payment.authorized':
+      return intent.status === 'requires_authorization' ? { status: 'authorized' } : {};
+    case 'payment.captured':
+      // A late or replayed capture must not reopen a settled intent
+      return ['captured', 'refunded', 'failed', 'cancelled'].includes(intent.status)
+        ? {}
+        : { status: 'captured', capturedAmount: event.amount ?? Number(intent.amount) };
+    case 'payment.failed':
+      return ['captured', 'refunded'].includes(intent.status)
+        ? {}
+        : { status: 'failed', failureReason: event.failureReason ?? 'Payment failed' };
+    case 'payment.refunded': {
+      // Refunds made here may already be ahead of the provider's figure;
+      // never lower it, or processRefund would see headroom it lacks
+      const refundedAmount = Math.max(
+        Number(intent.refundedAmount),
+        event.amount ?? Number(intent.capturedAmount)
+      );
+      return {
+        refundedAmount,
+        status: refundedAmount >= Number(intent.capturedAmount) ? 'refunded' : intent.status,
+      };
+    }
+    default:
+      return {};
+  }
+}
+
 // Service class
 export class PaymentService {
-  private readonly paymentProviderKey: string;
   private readonly isTestMode: boolean;
 
   constructor() {
-    this.paymentProviderKey = process.env.PAYMENT_PROVIDER_KEY || 'test_key';
     this.isTestMode = process.env.NODE_ENV !== 'production';
   }
 
-  // Process payment
-  async processPayment(data: z.infer<typeof processPaymentSchema>): Promise<PaymentResult> {
-    const { amount, paymentMethod, orderId, userId } = data;
+  // Create a payment intent for an order with the default provider
+  async createPaymentIntent(
+    params: { orderId: string; amount: number; paymentMethod: string; currency?: string },
+    client: any = prisma
+  ): Promise<PaymentIntent> {
+    const provider = getDefaultPaymentProvider();
+    const currency = params.currency || 'USD';
+
+    const providerIntent = await provider.createIntent({
+      orderId: params.orderId,
+      amount: params.amount,
+      currency,
+      paymentMethod: params.paymentMethod,
+    });
+
+    return client.paymentIntent.create({
+      data: {
+        orderId: params.orderId,
+        provider: provider.name,
+        providerIntentId: providerIntent.providerIntentId,
+        paymentMethod: params.paymentMethod,
+        amount: params.amount,
+        currency,
+        status: providerIntent.status,
+      },
+    });
+  }
+
+  // Authorize a payment intent
+  async authorizePayment(intentId: string, client: any = prisma): Promise<PaymentIntent> {
+    const intent = await this.findIntent(intentId, client);
+
+    if (intent.status !== 'requires_authorization') {
+      throw new Error(`Payment intent cannot be authorized from status ${intent.status}`);
+    }
+
+    const provider = getPaymentProvider(intent.provider);
+    const result = await provider.authorize(this.toContext(intent));
+
+    return this.applyProviderIntent(intent.id, result, client);
+  }
+
+  // Capture an authorized payment intent (defaults to the full authorized amount)
+  async capturePayment(
+    intentId: string,
+    amount?: number,
+    client: any = prisma
+  ): Promise<PaymentIntent> {
+    const intent = await this.findIntent(intentId, client);
+
+    if (intent.status !== 'authorized') {
+      throw new Error(`Payment intent cannot be captured from status ${intent.status}`);
+    }
+
+    const provider = getPaymentProvider(intent.provider);
+    const result = await provider.capture(this.toContext(intent), amount ?? Number(intent.amount));
+
+    return this.applyProviderIntent(intent.id, result, client);
+  }
+
+  // Cancel an intent that has not been captured
+  async cancelPayment(intentId: string, client: any = prisma): Promise<PaymentIntent> {
+    const intent = await this.findIntent(intentId, client);
+
+    if (!['requires_authorization', 'authorized'].includes(intent.status)) {
+      throw new Error(`Payment intent cannot be cancelled from status ${intent.status}`);
+    }
+
+    const provider = getPaymentProvider(intent.provider);
+    const result = await provider.cancel(this.toContext(intent));
+
+    return this.applyProviderIntent(intent.id, result, client);
+  }
+
+  // Process payment: create, authorize and capture in one go
+  async processPayment(
+    data: z.infer<typeof processPaymentSchema>,
+    client: any = prisma
+  ): Promise<PaymentResult> {
+    const { amount, paymentMethod, orderId } = data;
 
     try {
-      // In a real implementation, this would integrate with actual payment providers
-      // For now, we'll simulate payment processing
-      const result = await this.simulatePayment({
-        amount,
-        paymentMethod,
-        orderId,
-        userId,
-      });
+      const intent = await this.createPaymentIntent({ orderId, amount, paymentMethod }, client);
+
+      let current = await this.authorizePayment(intent.id, client);
+      if (current.status === 'authorized') {
+        current = await this.capturePayment(intent.id, undefined, client);
+      }
+
+      const success = current.status === 'captured';
 
       console.log(
-        `[Payment] Processed payment for order ${orderId}: ${result.success ? 'SUCCESS' : 'FAILED'}`
+        `[Payment] Processed payment for order ${orderId}: ${success ? 'SUCCESS' : 'FAILED'}`
       );
 
-      return result;
+      return {
+        success,
+        transactionId: success ? current.providerIntentId : undefined,
+        error: success ? undefined : current.failureReason || 'Payment failed',
+        amount,
+        currency: current.currency,
+        status: success ? 'completed' : 'failed',
+      };
     } catch (error) {
       console.error('[Payment] Payment processing error:', error);
       return {
@@ -73,24 +234,83 @@ export class PaymentService {
     }
   }
 
-  // Process refund
+  // Process refund against the captured intents of an order. The amount is
+  // claimed on the intent before the provider call, so concurrent refunds
+  // can never add up to more than was captured.
   async processRefund(data: z.infer<typeof processRefundSchema>): Promise<RefundResult> {
-    const { orderId, amount, reason } = data;
+    const { orderId, amount, reason, reference } = data;
+    const key = reference && `refund:${reference}`;
 
     try {
-      // In a real implementation, this would integrate with actual payment providers
-      // For now, we'll simulate refund processing
-      const result = await this.simulateRefund({
-        orderId,
-        amount,
-        reason,
+      if (key) {
+        const existing = await prisma.idempotencyKey.findFirst({
+          where: { key, status: 'completed' },
+        });
+        if (existing) {
+          console.log(`[Payment] Refund ${reference} for order ${orderId} was already made`);
+          return existing.response as unknown as RefundResult;
+        }
+      }
+
+      const intent = await prisma.paymentIntent.findFirst({
+        where: {
+          orderId,
+          status: { in: ['captured', 'refunded'] },
+        },
+        orderBy: { createdAt: 'desc' },
       });
 
+      if (!intent) {
+        throw new Error('No captured payment found for order');
+      }
+
+      const capturedAmount = Number(intent.capturedAmount);
+      const { count } = await prisma.paymentIntent.updateMany({
+        where: {
+          id: intent.id,
+          refundedAmount: { lte: roundMoney(capturedAmount - amount) },
+        },
+        data: { refundedAmount: { increment: amount } },
+      });
+
+      if (count === 0) {
+        const current = await prisma.paymentIntent.findUniqueOrThrow({ where: { id: intent.id } });
+        const refundable = capturedAmount - Number(current.refundedAmount);
+        throw new Error(`Refund amount exceeds refundable balance of ${refundable.toFixed(2)}`);
+      }
+
+      const provider = getPaymentProvider(intent.provider);
+      const result = await provider.refund(this.toContext(intent), amount, reason, key);
+
+      if (result.success) {
+        await this.applyRefundStatus(intent.id, orderId);
+      } else {
+        // Give the claimed amount back
+        await prisma.paymentIntent.update({
+          where: { id: intent.id },
+          data: { refundedAmount: { decrement: amount } },
+        });
+      }
+
       console.log(
         `[Payment] Processed refund for order ${orderId}: ${result.success ? 'SUCCESS' : 'FAILED'}`
       );
 
-      return result;
+      const refund: RefundResult = {
+        success: result.success,
+        refundId: result.refundId,
+        error: result.error,
+        amount,
+        status: result.success ? 'completed' : 'failed',
+      };
+
+      if (key && result.success) {
+        await prisma.idempotencyKey.create({
+          data: { key, status: 'completed', response: refund as any },
+        });
+      }
+
+      return refund;
     } catch (error) {
       console.error('[Payment] Refund processing error:', error);
       return {
@@ -102,127 +322,218 @@ export class PaymentService {
     }
   }
 
-  // Simulate payment processing (for development/testing)
-  private async simulatePayment(params: {
-    amount: number;
-    paymentMethod: string;
-    orderId: string;
-    userId: string;
-  }): Promise<PaymentResult> {
-    const { amount, paymentMethod } = params;
-
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-
-    // Simulate different payment method behaviors
-    let success = true;
-    let error: string | undefined;
-
-    switch (paymentMethod.toLowerCase()) {
-      case 'credit_card':
-        // 95% success rate for credit cards
-        success = Math.random() > 0.05;
-        if (!success) {
-          error = 'Card declined';
-        }
-        break;
-      case 'debit_card':
-        // 90% success rate for debit cards
-        success = Math.random() > 0.1;
-        if (!success) {
-          error = 'Insufficient funds';
-        }
-        break;
-      case 'paypal':
-        // 98% success rate for PayPal
-        success = Math.random() > 0.02;
-        if (!success) {
-          error = 'PayPal account error';
-        }
-        break;
-      case 'apple_pay':
-        // 99% success rate for Apple Pay
-        success = Math.random() > 0.01;
-        if (!success) {
-          error = 'Apple Pay authentication failed';
-        }
-        break;
-      case 'google_pay':
-        // 99% success rate for Google Pay
-        success = Math.random() > 0.01;
-        if (!success) {
-          error = 'Google Pay authentication failed';
-        }
-        break;
-      case 'test_fail':
-        // Always fail for testing
-        success = false;
-        error = 'Test payment failure';
-        break;
-      default:
-        // 85% success rate for other methods
-        success = Math.random() > 0.15;
-        if (!success) {
-          error = 'Payment method not supported';
-        }
-    }
+  // Refund what is still captured on an order, e.g. once it is cancelled.
+  // Keyed on the order and its captured total, so retries after a refund
+  // that went through don't pay out again. Null when nothing is left.
+  async refundRemaining(orderId: string, reason: string): Promise<RefundResult | null> {
+    const { captured, refunded } = await this.getRefundTotals(orderId);
+    const remaining = roundMoney(captured - refunded);
 
-    // Simulate high-value transaction failures
-    if (amount > 1000 && Math.random() > 0.7) {
-      success = false;
-      error = 'High-value transaction requires additional verification';
+    if (remaining <= 0) {
+      return null;
     }
 
-    const transactionId = success ? this.generateTransactionId() : undefined;
+    return this.processRefund({
+      orderId,
+      amount: remaining,
+      reason,
+      reference: `order-balance:${orderId}:${captured.toFixed(2)}`,
+    });
+  }
+
+  // Captured and refunded totals over an order's intents
+  async getRefundTotals(orderId: string): Promise<{ captured: number; refunded: number }> {
+    const { _sum } = await prisma.paymentIntent.aggregate({
+      where: { orderId, status: { in: ['captured', 'refunded'] } },
+      _sum: { capturedAmount: true, refundedAmount: true },
+    });
 
     return {
-      success,
-      transactionId,
-      error,
-      amount,
-      currency: 'USD',
-      status: success ? 'completed' : 'failed',
+      captured: Number(_sum.capturedAmount || 0),
+      refunded: Number(_sum.refundedAmount || 0),
     };
   }
 
-  // Simulate refund processing (for development/testing)
-  private async simulateRefund(params: {
-    orderId: string;
-    amount: number;
-    reason?: string;
-  }): Promise<RefundResult> {
-    const { amount } = params;
+  // Handle a signed webhook event from a provider
+  async handleProviderWebhook(
+    providerName: string,
+    payload: string,
+    signature: string,
+    body: any
+  ): Promise<WebhookResult> {
+    const provider = getPaymentProvider(providerName);
+
+    if (!provider.verifyWebhookSignature(payload, signature)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = provider.parseWebhookEvent(body);
+    const key = `payment:${provider.name}:${event.eventId}`;
+
+    const existing = await prisma.idempotencyKey.findFirst({ where: { key } });
+    if (existing && existing.status === 'completed') {
+      return { status: 'already_processed' };
+    }
+
+    let refundOrderId: string | null = null;
+
+    const result = await prisma.$transaction(async (tx: any) => {
+      const intent = await tx.paymentIntent.findUnique({
+        where: {
+          provider_providerIntentId: {
+            provider: provider.name,
+            providerIntentId: event.providerIntentId,
+          },
+        },
+        include: { order: true },
+      });
+
+      if (!intent) {
+        return { status: 'ignored' } as WebhookResult;
+      }
+
+      // Lock the order so a cancellation cannot slip between the read and the update
+      await tx.$queryRaw`SELECT "id" FROM "backend"."orders" WHERE "id" = ${intent.orderId} FOR UPDATE`;
+      intent.order = await tx.order.findUnique({ where: { id: intent.orderId } });
+
+      const update = getIntentUpdateForEvent(intent, event);
+      await tx.paymentIntent.update({
+        where: { id: intent.id },
+        data: update,
+      });
+
+      // Money taken on an intent we gave up on needs a person to look at it
+      if (event.type === 'payment.captured' && ['failed', 'cancelled'].includes(intent.status)) {
+        console.error(
+          `[Payment] Capture for ${intent.status} intent ${intent.id} of order ${intent.orderId} needs review`
+        );
+        return { status: 'flagged', paymentStatus: intent.order.paymentStatus } as WebhookResult;
+      }
+
+      if (update.status === 'captured' && intent.order.status === 'cancelled') {
+        // The order was cancelled before the capture landed: record it and
+        // refund it, flagging the cancellation clean-up in case that fails
+        await tx.order.update({
+          where: { id: intent.orderId },
+          data: { paymentStatus: 'paid', cleanupPending: true },
+        });
+        refundOrderId = intent.orderId;
+        return { status: 'processed', paymentStatus: 'paid' } as WebhookResult;
+      }
+
+      const targetStatus = this.paymentStatusForEvent(event, intent);
+      if (targetStatus && canAdvancePaymentStatus(intent.order.paymentStatus, targetStatus)) {
+        await tx.order.update({
+          where: { id: intent.orderId },
+          data: { paymentStatus: targetStatus },
+        });
+        return { status: 'processed', paymentStatus: targetStatus } as WebhookResult;
+      }
+
+      return { status: 'processed', paymentStatus: intent.order.paymentStatus } as WebhookResult;
+    });
+
+    if (existing) {
+      await prisma.idempotencyKey.update({
+        where: { id: existing.id },
+        data: { status: 'completed', response: result as any },
+      });
+    } else {
+      await prisma.idempotencyKey.create({
+        data: { key, status: 'completed', response: result as any },
+      });
+    }
+
+    if (refundOrderId) {
+      const refund = await this.refundRemaining(refundOrderId, 'Order cancelled before payment');
+      if (refund && !refund.success) {
+        console.error(
+          `[Payment] Refund for cancelled order ${refundOrderId} failed: ${refund.error}`
+        );
+      }
+    }
+
+    console.log(`[Payment] Webhook ${event.type} from ${provider.name}: ${result.status}`);
+
+    return result;
+  }
+
+  // Get the payment intents of an order
+  async getPaymentIntentsForOrder(orderId: string): Promise<PaymentIntent[]> {
+    return prisma.paymentIntent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
 
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
+  // Close a fully refunded intent and move the order to partially_refunded
+  // or refunded to match its totals
+  private async applyRefundStatus(intentId: string, orderId: string): Promise<void> {
+    const intent = await prisma.paymentIntent.findUniqueOrThrow({ where: { id: intentId } });
+    if (Number(intent.refundedAmount) >= Number(intent.capturedAmount) - 0.001) {
+      await prisma.paymentIntent.update({
+        where: { id: intentId },
+        data: { status: 'refunded' },
+      });
+    }
 
-    // 98% success rate for refunds
-    const success = Math.random() > 0.02;
-    const error = success ? undefined : 'Refund processing failed';
+    const { captured, refunded } = await this.getRefundTotals(orderId);
+    const paymentStatus = getRefundedPaymentStatus(captured, refunded);
+    await prisma.order.updateMany({
+      where: { id: orderId, paymentStatus: { in: ['paid', 'partially_refunded'] } },
+      data: { paymentStatus },
+    });
+  }
 
-    const refundId = success ? this.generateRefundId() : undefined;
+  private async findIntent(intentId: string, client: any): Promise<PaymentIntent> {
+    const intent = await client.paymentIntent.findUnique({ where: { id: intentId } });
+    if (!intent) {
+      throw new Error('Payment intent not found');
+    }
+    return intent;
+  }
 
+  private toContext(intent: PaymentIntent): ProviderIntentContext {
     return {
-      success,
-      refundId,
-      error,
-      amount,
-      status: success ? 'completed' : 'failed',
+      providerIntentId: intent.providerIntentId,
+      paymentMethod: intent.paymentMethod,
+      amount: Number(intent.amount),
+      currency: intent.currency,
     };
   }
 
-  // Generate transaction ID
-  private generateTransactionId(): string {
-    const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substring(2, 8);
-    return `txn_${timestamp}_${random}`.toUpperCase();
+  private async applyProviderIntent(
+    intentId: string,
+    result: ProviderIntent,
+    client: any
+  ): Promise<PaymentIntent> {
+    return client.paymentIntent.update({
+      where: { id: intentId },
+      data: {
+        status: result.status,
+        capturedAmount: result.capturedAmount,
+        failureReason: result.failureReason ?? null,
+      },
+    });
   }
 
-  // Generate refund ID
-  private generateRefundId(): string {
-    const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substring(2, 8);
-    return `ref_${timestamp}_${random}`.toUpperCase();
+  private paymentStatusForEvent(
+    event: ProviderWebhookEvent,
+    intent: PaymentIntent
+  ): PaymentStatus | null {
+    switch (event.type) {
+      case 'payment.captured':
+        return 'paid';
+      case 'payment.failed':
+        return 'failed';
+      case 'payment.refunded':
+        return getRefundedPaymentStatus(
+          Number(intent.capturedAmount),
+          Math.max(Number(intent.refundedAmount), event.amount ?? Number(intent.capturedAmount))
+        );
+      default:
+        return null;
+    }
   }
 
   // Validate payment method
@@ -235,7 +546,8 @@ export class PaymentService {
       'google_pay',
       'bank_transfer',
       'cash_on_delivery',
-      'test_fail', // For testing purposes
+      'test_fail', // Sandbox: declined at authorization
+      'test_capture_fail', // Sandbox: declined at capture
     ];
 
     return validMethods.includes(paymentMethod.toLowerCase());
@@ -296,17 +608,19 @@ export class PaymentService {
     provider: string;
     testMode: boolean;
   }> {
+    const providerName = process.env.PAYMENT_PROVIDER || 'sandbox';
+
     try {
-      // In a real implementation, this would check the actual payment provider
+      const provider: PaymentProvider = getDefaultPaymentProvider();
       return {
         status: 'healthy',
-        provider: 'simulated',
+        provider: provider.name,
         testMode: this.isTestMode,
       };
     } catch (error) {
       return {
         status: 'unhealthy',
-        provider: 'simulated',
+        provider: providerName,
         testMode: this.isTestMode,
       };
     }
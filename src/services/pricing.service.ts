@@ -0,0 +1,504 @@
+import prisma from '../db/prisma';
+import { TaxContext, TaxService } from './tax.service';
+
+// Types
+export interface PricingItem {
+  productId: string;
+  name?: string;
+  quantity: number;
+  // Catalogue price (Strapi), before any store override
+  basePrice: number;
+  // StoreInventory.priceOverride for the store being priced
+  priceOverride?: number | null;
+  // Product.categoryId, checked against the tax zone's exemptions
+  categoryId?: string | null;
+}
+
+export interface PricingPromotion {
+  code: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  minOrderAmount?: number | null;
+  maxDiscountAmount?: number | null;
+  // Products the promotion discounts; null or missing means the whole order
+  productIds?: string[] | null;
+}
+
+export interface PricingOptions {
+  taxRate: number;
+  deliveryFee: number;
+  // Orders at or above this subtotal get free delivery
+  freeDeliveryThreshold: number;
+  // Round tax on each line, or once on the order total
+  taxRounding: TaxRounding;
+}
+
+export interface PricingInput {
+  items: PricingItem[];
+  // Applied in order, each on what the earlier ones left of its lines
+  promotions?: PricingPromotion[];
+  // Carts are priced as delivery until checkout picks a delivery type
+  deliveryType?: 'pickup' | 'delivery';
+  // Store's fee for the delivery address; without one options.deliveryFee applies
+  deliveryFee?: number | null;
+  // Store's tax zone; without one every line is taxed at options.taxRate
+  tax?: TaxContext | null;
+  options?: Partial<PricingOptions>;
+}
+
+export type PriceSource = 'base' | 'store_override';
+
+export type TaxRounding = 'line' | 'order';
+
+export interface PricedLine {
+  productId: string;
+  name?: string;
+  quantity: number;
+  basePrice: number;
+  unitPrice: number;
+  priceSource: PriceSource;
+  lineTotal: number;
+  categoryId?: string | null;
+  // This line's share of the promotion discounts
+  discount: number;
+  taxRate: number;
+  taxExempt: boolean;
+  tax: number;
+}
+
+export interface PricingFee {
+  code: 'delivery';
+  label: string;
+  amount: number;
+}
+
+export interface PricingAdjustment {
+  stage: string;
+  description: string;
+  amount: number;
+}
+
+export interface AppliedDiscount {
+  code: string;
+  amount: number;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  promotions: AppliedDiscount[];
+  tax: number;
+  taxRate: number;
+  taxZoneId: string | null;
+  taxRounding: TaxRounding;
+  fees: PricingFee[];
+  deliveryFee: number;
+  total: number;
+  // What each stage changed, in order
+  adjustments: PricingAdjustment[];
+}
+
+// A stage takes the breakdown so far and returns the next one
+export type PricingStage = (
+  breakdown: PriceBreakdown,
+  input: PricingInput,
+  options: PricingOptions
+) => PriceBreakdown;
+
+export const DEFAULT_PRICING_OPTIONS: PricingOptions = {
+  taxRate: parseFloat(process.env.PRICING_TAX_RATE || '0.085'),
+  deliveryFee: parseFloat(process.env.PRICING_DELIVERY_FEE || '2.99'),
+  freeDeliveryThreshold: parseFloat(process.env.PRICING_FREE_DELIVERY_THRESHOLD || '25'),
+  taxRounding: process.env.PRICING_TAX_ROUNDING === 'line' ? 'line' : 'order',
+};
+
+// Round half away from zero to whole cents
+export function roundMoney(amount: number): number {
+  return (Math.sign(amount) * Math.round((Math.abs(amount) + Number.EPSILON) * 100)) / 100;
+}
+
+export function sumLines(lines: PricedLine[]): number {
+  return lines.reduce((sum, line) => sum + line.lineTotal, 0);
+}
+
+// Round each amount to cents so the parts add up to the rounded total,
+// handing leftover cents to the largest remainders
+export function allocateRounded(amounts: number[], total: number): number[] {
+  const totalCents = Math.round(roundMoney(total) * 100);
+  const cents = amounts.map(amount => amount * 100);
+  const floored = cents.map(value => Math.floor(value));
+  let leftover = totalCents - floored.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = cents
+    .map((value, index) => ({ index, remainder: value - floored[index] }))
+    .sort((a, b) => b.remainder - a.remainder);
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    floored[index] += 1;
+    leftover -= 1;
+  }
+
+  return floored.map(value => value / 100);
+}
+
+// Discount a promotion gives on a subtotal: 0 below the minimum order amount,
+// capped by maxDiscountAmount and never more than the subtotal itself
+export function calculatePromotionDiscount(subtotal: number, promotion: PricingPromotion): number {
+  if (promotion.minOrderAmount && subtotal < promotion.minOrderAmount) {
+    return 0;
+  }
+
+  let discount =
+    promotion.discountType === 'percentage'
+      ? (subtotal * promotion.discountValue) / 100
+      : promotion.discountValue;
+
+  if (promotion.maxDiscountAmount && discount > promotion.maxDiscountAmount) {
+    discount = promotion.maxDiscountAmount;
+  }
+
+  return Math.min(Math.max(discount, 0), subtotal);
+}
+
+// Stage 1: every line starts at its catalogue price
+export const basePriceStage: PricingStage = (breakdown, input) => {
+  const lines: PricedLine[] = input.items.map(item => ({
+    productId: item.productId,
+    name: item.name,
+    quantity: item.quantity,
+    basePrice: item.basePrice,
+    unitPrice: item.basePrice,
+    priceSource: 'base',
+    lineTotal: item.basePrice * item.quantity,
+    categoryId: item.categoryId,
+    discount: 0,
+    taxRate: 0,
+    taxExempt: false,
+    tax: 0,
+  }));
+
+  return { ...breakdown, lines, subtotal: sumLines(lines) };
+};
+
+// Stage 2: a store's priceOverride replaces the catalogue price
+export const storeOverrideStage: PricingStage = (breakdown, input) => {
+  const adjustments = [...breakdown.adjustments];
+
+  const lines = breakdown.lines.map((line, index) => {
+    const override = input.items[index]?.priceOverride;
+    if (override === null || override === undefined || override === line.unitPrice) {
+      return line;
+    }
+
+    adjustments.push({
+      stage: 'store_override',
+      description: `Store price for ${line.name || line.productId}`,
+      amount: (override - line.unitPrice) * line.quantity,
+    });
+
+    return {
+      ...line,
+      unitPrice: override,
+      priceSource: 'store_override' as PriceSource,
+      lineTotal: override * line.quantity,
+    };
+  });
+
+  return { ...breakdown, lines, subtotal: sumLines(lines), adjustments };
+};
+
+// Stage 3: promotions, in the order given. Each one discounts its eligible
+// lines by what earlier promotions left of them, spread pro rata.
+export const promotionStage: PricingStage = (breakdown, input) => {
+  const promotions = input.promotions || [];
+  if (promotions.length === 0) {
+    return breakdown;
+  }
+
+  let lines = breakdown.lines;
+  const applied: AppliedDiscount[] = [];
+  const adjustments = [...breakdown.adjustments];
+
+  for (const promotion of promotions) {
+    const eligible = (line: PricedLine) =>
+      !promotion.productIds || promotion.productIds.includes(line.productId);
+    const remaining = (line: PricedLine) => line.lineTotal - line.discount;
+
+    const eligibleTotal = lines.filter(eligible).reduce((sum, line) => sum + remaining(line), 0);
+    const amount = calculatePromotionDiscount(eligibleTotal, promotion);
+    if (amount === 0) continue;
+
+    lines = lines.map(line =>
+      eligible(line)
+        ? { ...line, discount: line.discount + (amount * remaining(line)) / eligibleTotal }
+        : line
+    );
+    applied.push({ code: promotion.code, amount });
+    adjustments.push({
+      stage: 'promotion',
+      description: `Promo code ${promotion.code}`,
+      amount: -amount,
+    });
+  }
+
+  return {
+    ...breakdown,
+    lines,
+    discount: applied.reduce((sum, discount) => sum + discount.amount, 0),
+    promotions: applied,
+    adjustments,
+  };
+};
+
+// Stage 4: tax each line at the zone rate, after its share of the
+// discounts; lines in exempt categories pay none
+export const taxStage: PricingStage = (breakdown, input, options) => {
+  const rate = input.tax?.rate ?? options.taxRate;
+  const exempt = new Set(input.tax?.exemptCategoryIds || []);
+
+  const lines = breakdown.lines.map(line => {
+    const taxExempt = !!line.categoryId && exempt.has(line.categoryId);
+    const taxRate = taxExempt ? 0 : rate;
+
+    return { ...line, taxRate, taxExempt, tax: (line.lineTotal - line.discount) * taxRate };
+  });
+  const tax = lines.reduce((sum, line) => sum + line.tax, 0);
+  const zone = input.tax?.zoneName ? ` (${input.tax.zoneName})` : '';
+
+  return {
+    ...breakdown,
+    lines,
+    tax,
+    taxRate: rate,
+    taxZoneId: input.tax?.zoneId ?? null,
+    taxRounding: options.taxRounding,
+    adjustments: [
+      ...breakdown.adjustments,
+      {
+        stage: 'tax',
+        description: `Tax at ${Number((rate * 100).toFixed(4))}%${zone}`,
+        amount: tax,
+      },
+    ],
+  };
+};
+
+// Stage 5: delivery fee for small delivery orders, at the address's distance
+// tier when checkout has quoted one
+export const feeStage: PricingStage = (breakdown, input, options) => {
+  if (input.deliveryType === 'pickup' || breakdown.subtotal >= options.freeDeliveryThreshold) {
+    return breakdown;
+  }
+
+  const fee: PricingFee = {
+    code: 'delivery',
+    label: 'Delivery fee',
+    amount: input.deliveryFee ?? options.deliveryFee,
+  };
+
+  return {
+    ...breakdown,
+    fees: [...breakdown.fees, fee],
+    adjustments: [
+      ...breakdown.adjustments,
+      { stage: 'fees', description: fee.label, amount: fee.amount },
+    ],
+  };
+};
+
+// Stage 6: round every amount to cents and add up the total from the
+// rounded parts, so the breakdown always sums exactly. Tax is rounded per
+// line or once per order; either way the line taxes add up to the order tax.
+export const roundingStage: PricingStage = breakdown => {
+  const lineTaxes =
+    breakdown.taxRounding === 'line'
+      ? breakdown.lines.map(line => roundMoney(line.tax))
+      : allocateRounded(
+          breakdown.lines.map(line => line.tax),
+          breakdown.tax
+        );
+
+  const discount = roundMoney(breakdown.discount);
+  const lineDiscounts = allocateRounded(
+    breakdown.lines.map(line => line.discount),
+    discount
+  );
+  const promotions = allocateRounded(
+    breakdown.promotions.map(promotion => promotion.amount),
+    discount
+  ).map((amount, index) => ({ ...breakdown.promotions[index], amount }));
+
+  const lines = breakdown.lines.map((line, index) => {
+    const unitPrice = roundMoney(line.unitPrice);
+    return {
+      ...line,
+      unitPrice,
+      lineTotal: roundMoney(unitPrice * line.quantity),
+      discount: lineDiscounts[index],
+      tax: lineTaxes[index],
+    };
+  });
+  const fees = breakdown.fees.map(fee => ({ ...fee, amount: roundMoney(fee.amount) }));
+
+  const subtotal = roundMoney(sumLines(lines));
+  const tax =
+    lines.length > 0
+      ? roundMoney(lineTaxes.reduce((sum, amount) => sum + amount, 0))
+      : roundMoney(breakdown.tax);
+  const deliveryFee = roundMoney(
+    fees.filter(fee => fee.code === 'delivery').reduce((sum, fee) => sum + fee.amount, 0)
+  );
+  const feeTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+
+  return {
+    ...breakdown,
+    lines,
+    fees,
+    subtotal,
+    discount,
+    promotions,
+    tax,
+    deliveryFee,
+    total: roundMoney(subtotal - discount + tax + feeTotal),
+    adjustments: breakdown.adjustments.map(adjustment => ({
+      ...adjustment,
+      amount: roundMoney(adjustment.amount),
+    })),
+  };
+};
+
+export const DEFAULT_PRICING_STAGES: PricingStage[] = [
+  basePriceStage,
+  storeOverrideStage,
+  promotionStage,
+  taxStage,
+  feeStage,
+  roundingStage,
+];
+
+// Run the stages in order over an empty breakdown
+export function runPricingPipeline(
+  input: PricingInput,
+  stages: PricingStage[] = DEFAULT_PRICING_STAGES
+): PriceBreakdown {
+  const options = { ...DEFAULT_PRICING_OPTIONS, ...input.options };
+  const empty: PriceBreakdown = {
+    lines: [],
+    subtotal: 0,
+    discount: 0,
+    promotions: [],
+    tax: 0,
+    taxRate: options.taxRate,
+    taxZoneId: null,
+    taxRounding: options.taxRounding,
+    fees: [],
+    deliveryFee: 0,
+    total: 0,
+    adjustments: [],
+  };
+
+  return stages.reduce((breakdown, stage) => stage(breakdown, input, options), empty);
+}
+
+export interface RevenueSummary {
+  grossRevenue: number;
+  discounts: number;
+  tax: number;
+  deliveryFees: number;
+  // Discounted item subtotal: what the store earned before tax and fees
+  netSales: number;
+}
+
+// Split stored order amounts back into the parts the pipeline built them from
+export function summarizeRevenue(totals: {
+  totalAmount: number;
+  taxAmount: number;
+  deliveryFee: number;
+  discountAmount: number;
+}): RevenueSummary {
+  return {
+    grossRevenue: roundMoney(totals.totalAmount),
+    discounts: roundMoney(totals.discountAmount),
+    tax: roundMoney(totals.taxAmount),
+    deliveryFees: roundMoney(totals.deliveryFee),
+    netSales: roundMoney(totals.totalAmount - totals.taxAmount - totals.deliveryFee),
+  };
+}
+
+// Service class
+export class PricingService {
+  private taxService: TaxService;
+
+  constructor() {
+    this.taxService = new TaxService();
+  }
+
+  // Price items for a store, loading each product's store override and
+  // category, and the store's tax zone unless input.tax is given
+  async priceItems(
+    storeId: string,
+    items: Omit<PricingItem, 'priceOverride' | 'categoryId'>[],
+    input: Omit<PricingInput, 'items'> = {}
+  ): Promise<PriceBreakdown> {
+    const productIds = items.map(item => item.productId);
+
+    const [overrides, categories, tax] = await Promise.all([
+      this.getPriceOverrides(storeId, productIds),
+      this.getCategories(productIds),
+      input.tax !== undefined ? input.tax : this.taxService.getTaxContext(storeId),
+    ]);
+
+    return runPricingPipeline({
+      ...input,
+      tax,
+      items: items.map(item => ({
+        ...item,
+        priceOverride: overrides.get(item.productId) ?? null,
+        categoryId: categories.get(item.productId) ?? null,
+      })),
+    });
+  }
+
+  // Unit price a customer pays for one product in a store
+  async getUnitPrice(storeId: string, productId: string, basePrice: number): Promise<number> {
+    const breakdown = await this.priceItems(storeId, [{ productId, quantity: 1, basePrice }], {
+      deliveryType: 'pickup',
+      tax: null,
+    });
+
+    return breakdown.lines[0].unitPrice;
+  }
+
+  private async getCategories(productIds: string[]): Promise<Map<string, string>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds }, categoryId: { not: null } },
+      select: { id: true, categoryId: true },
+    });
+
+    return new Map(products.map(product => [product.id, product.categoryId as string]));
+  }
+
+  private async getPriceOverrides(
+    storeId: string,
+    productIds: string[]
+  ): Promise<Map<string, number>> {
+    if (productIds.length === 0) {
+      return new Map();
+    }
+
+    const inventories = await prisma.storeInventory.findMany({
+      where: { storeId, productId: { in: productIds }, priceOverride: { not: null } },
+      select: { productId: true, priceOverride: true },
+    });
+
+    return new Map(
+      inventories.map(inventory => [inventory.productId, Number(inventory.priceOverride)])
+    );
+  }
+}
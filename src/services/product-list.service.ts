@@ -0,0 +1,424 @@
+import { z } from 'zod';
+import prisma from '../db/prisma';
+import { ProductList, ProductListItem } from '@prisma/client';
+import { StrapiService } from './strapi.service';
+import { PricingService } from './pricing.service';
+import { CartService, CartWithItems, MAX_CART_ITEM_QUANTITY } from './cart.service';
+import { BackInStockService } from './back-in-stock.service';
+
+// Every user has this list; it can't be renamed or deleted
+export const DEFAULT_LIST_NAME = 'Wishlist';
+
+// Validation schemas
+export const productListSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+
+export const addListItemSchema = z.object({
+  productId: z.string().min(1),
+  quantity: z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY).default(1),
+  notifyBackInStock: z.boolean().default(false),
+});
+
+export const updateListItemSchema = z
+  .object({
+    quantity: z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY).optional(),
+    notifyBackInStock: z.boolean().optional(),
+  })
+  .refine(data => data.quantity !== undefined || data.notifyBackInStock !== undefined, {
+    message: 'Provide quantity or notifyBackInStock',
+  });
+
+export const saveForLaterSchema = z.object({
+  cartItemId: z.string().uuid(),
+  // Defaults to the wishlist
+  listId: z.string().uuid().optional(),
+});
+
+export const moveToCartSchema = z.object({
+  // Defaults to the user's preferred store
+  storeId: z.string().uuid().optional(),
+  quantity: z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY).optional(),
+});
+
+// Types
+export interface ListItemAvailability {
+  storeId: string;
+  isAvailable: boolean;
+  quantityAvailable: number;
+  // Price at the store, overrides included; null when the catalogue has none
+  price: number | null;
+}
+
+export interface ProductListItemView extends ProductListItem {
+  product: any; // Strapi product data
+  // Live stock and price at the user's preferred store; null without one
+  availability: ListItemAvailability | null;
+}
+
+export interface ProductListWithItems extends ProductList {
+  items: ProductListItemView[];
+}
+
+export interface ProductListSummary extends ProductList {
+  itemCount: number;
+}
+
+type ListItemInput = Pick<ProductListItem, 'productId' | 'quantity' | 'notifyBackInStock'>;
+
+// Service class
+export class ProductListService {
+  private strapiService: StrapiService;
+  private pricingService: PricingService;
+  private cartService: CartService;
+  private backInStockService: BackInStockService;
+
+  constructor() {
+    this.strapiService = new StrapiService();
+    this.pricingService = new PricingService();
+    this.cartService = new CartService();
+    this.backInStockService = new BackInStockService();
+  }
+
+  // A user's lists, wishlist first
+  async getLists(userId: string): Promise<ProductListSummary[]> {
+    await this.getOrCreateDefaultList(userId);
+
+    const lists = await prisma.productList.findMany({
+      where: { userId },
+      include: { _count: { select: { items: true } } },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return lists.map(({ _count, ...list }) => ({ ...list, itemCount: _count.items }));
+  }
+
+  // Create a named list
+  async createList(userId: string, data: z.infer<typeof productListSchema>): Promise<ProductList> {
+    await this.getOrCreateDefaultList(userId);
+    await this.assertNameFree(userId, data.name);
+
+    return prisma.productList.create({
+      data: { userId, name: data.name },
+    });
+  }
+
+  // Rename a list
+  async renameList(
+    userId: string,
+    listId: string,
+    data: z.infer<typeof productListSchema>
+  ): Promise<ProductList> {
+    const list = await this.getOwnedList(userId, listId);
+    if (list.isDefault) {
+      throw new Error('The wishlist cannot be renamed or deleted');
+    }
+    if (list.name !== data.name) {
+      await this.assertNameFree(userId, data.name);
+    }
+
+    return prisma.productList.update({
+      where: { id: listId },
+      data: { name: data.name },
+    });
+  }
+
+  // Delete a list and its items
+  async deleteList(userId: string, listId: string): Promise<void> {
+    const list = await this.getOwnedList(userId, listId);
+    if (list.isDefault) {
+      throw new Error('The wishlist cannot be renamed or deleted');
+    }
+
+    await prisma.productList.delete({ where: { id: listId } });
+  }
+
+  // A list with its products, their stock and price at the preferred store
+  async getList(userId: string, listId: string): Promise<ProductListWithItems> {
+    await this.getOwnedList(userId, listId);
+
+    const list = await prisma.productList.findUniqueOrThrow({
+      where: { id: listId },
+      include: { items: { orderBy: { addedAt: 'desc' } } },
+    });
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredStoreId: true },
+    });
+
+    // Fetch product data from Strapi for each item
+    const itemsWithProducts = await Promise.all(
+      list.items.map(async item => {
+        try {
+          const productResponse = await this.strapiService.getProductById(parseInt(item.productId));
+          return { ...item, product: productResponse.data };
+        } catch (error) {
+          console.warn(`[ProductList] Could not fetch product ${item.productId}:`, error);
+          return { ...item, product: null };
+        }
+      })
+    );
+
+    const storeId = user?.preferredStoreId;
+    const availability = storeId
+      ? await this.getAvailability(storeId, itemsWithProducts)
+      : new Map<string, ListItemAvailability>();
+
+    return {
+      ...list,
+      items: itemsWithProducts.map(item => ({
+        ...item,
+        availability: availability.get(item.productId) ?? null,
+      })),
+    };
+  }
+
+  // Add a product to a list; adding it again adds to its quantity
+  async addItem(
+    userId: string,
+    listId: string,
+    data: z.infer<typeof addListItemSchema>
+  ): Promise<ProductListWithItems> {
+    await this.getOwnedList(userId, listId);
+    await this.upsertItem(prisma, listId, data);
+
+    if (data.notifyBackInStock) {
+      await this.watchAtPreferredStore(userId, data.productId);
+    }
+
+    return this.getList(userId, listId);
+  }
+
+  // Change a list item's quantity or back-in-stock opt-in
+  async updateItem(
+    userId: string,
+    listId: string,
+    itemId: string,
+    data: z.infer<typeof updateListItemSchema>
+  ): Promise<ProductListWithItems> {
+    const item = await this.getOwnedItem(userId, listId, itemId);
+
+    await prisma.productListItem.update({
+      where: { id: itemId },
+      data,
+    });
+
+    if (data.notifyBackInStock) {
+      await this.watchAtPreferredStore(userId, item.productId);
+    }
+
+    return this.getList(userId, listId);
+  }
+
+  // Remove a product from a list
+  async removeItem(userId: string, listId: string, itemId: string): Promise<ProductListWithItems> {
+    await this.getOwnedItem(userId, listId, itemId);
+
+    await prisma.productListItem.delete({ where: { id: itemId } });
+
+    return this.getList(userId, listId);
+  }
+
+  // Move a cart item onto a list, out of the cart and its checkout checks
+  async saveForLater(
+    userId: string,
+    data: z.infer<typeof saveForLaterSchema>
+  ): Promise<{ list: ProductListWithItems; cart: CartWithItems | null }> {
+    const cartItem = await prisma.cartItem.findUnique({
+      where: { id: data.cartItemId },
+      include: { cart: true },
+    });
+
+    if (!cartItem) {
+      throw new Error('Cart item not found');
+    }
+
+    if (cartItem.cart.userId !== userId) {
+      throw new Error('Unauthorized');
+    }
+
+    const list = data.listId
+      ? await this.getOwnedList(userId, data.listId)
+      : await this.getOrCreateDefaultList(userId);
+
+    await prisma.$transaction(async (tx: any) => {
+      await this.upsertItem(tx, list.id, {
+        productId: cartItem.productId,
+        quantity: cartItem.quantity,
+        notifyBackInStock: false,
+      });
+      await tx.cartItem.delete({ where: { id: cartItem.id } });
+    });
+
+    return {
+      list: await this.getList(userId, list.id),
+      cart: await this.cartService.getCartWithItems({ userId }, cartItem.cart.storeId),
+    };
+  }
+
+  // Move a list item into the cart of a store. The item stays on the list
+  // when the store can't supply it.
+  async moveToCart(
+    userId: string,
+    listId: string,
+    itemId: string,
+    data: z.infer<typeof moveToCartSchema>
+  ): Promise<CartWithItems> {
+    const item = await this.getOwnedItem(userId, listId, itemId);
+
+    let storeId = data.storeId;
+    if (!storeId) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { preferredStoreId: true },
+      });
+      storeId = user?.preferredStoreId ?? undefined;
+    }
+
+    if (!storeId) {
+      throw new Error('Store ID is required');
+    }
+
+    const cart = await this.cartService.addToCart(
+      { userId },
+      { productId: item.productId, quantity: data.quantity ?? item.quantity, storeId }
+    );
+
+    await prisma.productListItem.delete({ where: { id: item.id } });
+
+    return cart;
+  }
+
+  // The user's wishlist, created the first time it's needed
+  async getOrCreateDefaultList(userId: string): Promise<ProductList> {
+    const existing = await prisma.productList.findFirst({
+      where: { userId, isDefault: true },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    return prisma.productList.upsert({
+      where: { userId_name: { userId, name: DEFAULT_LIST_NAME } },
+      update: { isDefault: true },
+      create: { userId, name: DEFAULT_LIST_NAME, isDefault: true },
+    });
+  }
+
+  // Back-in-stock opt-in from a list: subscribe at the preferred store when
+  // the product is out there. Nothing to do without a preferred store.
+  private async watchAtPreferredStore(userId: string, productId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferredStoreId: true },
+    });
+
+    if (user?.preferredStoreId) {
+      await this.backInStockService.watch(userId, user.preferredStoreId, productId);
+    }
+  }
+
+  private async getOwnedList(userId: string, listId: string): Promise<ProductList> {
+    const list = await prisma.productList.findUnique({ where: { id: listId } });
+
+    if (!list) {
+      throw new Error('Product list not found');
+    }
+
+    if (list.userId !== userId) {
+      throw new Error('Unauthorized');
+    }
+
+    return list;
+  }
+
+  private async getOwnedItem(
+    userId: string,
+    listId: string,
+    itemId: string
+  ): Promise<ProductListItem> {
+    await this.getOwnedList(userId, listId);
+
+    const item = await prisma.productListItem.findFirst({
+      where: { id: itemId, listId },
+    });
+
+    if (!item) {
+      throw new Error('List item not found');
+    }
+
+    return item;
+  }
+
+  private async assertNameFree(userId: string, name: string): Promise<void> {
+    const existing = await prisma.productList.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+
+    if (existing) {
+      throw new Error('A list with this name already exists');
+    }
+  }
+
+  // Add a product to a list, or add to its quantity when it's already there
+  private async upsertItem(tx: any, listId: string, item: ListItemInput): Promise<void> {
+    const existing = await tx.productListItem.findUnique({
+      where: { listId_productId: { listId, productId: item.productId } },
+    });
+
+    if (existing) {
+      await tx.productListItem.update({
+        where: { id: existing.id },
+        data: {
+          quantity: Math.min(existing.quantity + item.quantity, MAX_CART_ITEM_QUANTITY),
+          notifyBackInStock: existing.notifyBackInStock || item.notifyBackInStock,
+        },
+      });
+      return;
+    }
+
+    await tx.productListItem.create({
+      data: { listId, ...item },
+    });
+  }
+
+  // Stock and price of list products at a store, by product id
+  private async getAvailability(
+    storeId: string,
+    items: { productId: string; product: any }[]
+  ): Promise<Map<string, ListItemAvailability>> {
+    const productIds = items.map(item => item.productId);
+    const inventories = await prisma.storeInventory.findMany({
+      where: { storeId, productId: { in: productIds } },
+    });
+
+    const priceable = items.filter(item => item.product?.attributes?.price !== undefined);
+    const pricing = await this.pricingService.priceItems(
+      storeId,
+      priceable.map(item => ({
+        productId: item.productId,
+        quantity: 1,
+        basePrice: item.product.attributes.price,
+      })),
+      { deliveryType: 'pickup', tax: null }
+    );
+
+    return new Map(
+      productIds.map(productId => {
+        const inventory = inventories.find(candidate => candidate.productId === productId);
+        const line = pricing.lines.find(candidate => candidate.productId === productId);
+        const quantityAvailable = inventory?.quantityAvailable ?? 0;
+
+        return [
+          productId,
+          {
+            storeId,
+            isAvailable: Boolean(inventory?.isAvailable) && quantityAvailable > 0,
+            quantityAvailable,
+            price: line ? line.unitPrice : null,
+          },
+        ];
+      })
+    );
+  }
+}
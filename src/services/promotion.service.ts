@@ -0,0 +1,283 @@
+import { AppliedPromotion, Promotion } from '@prisma/client';
+import prisma from '../db/prisma';
+import { StrapiPromotion } from './strapi.service';
+import { AppliedDiscount, PricingPromotion } from './pricing.service';
+
+// Types
+export type PromotionRules = Pick<
+  Promotion,
+  | 'id'
+  | 'isActive'
+  | 'startDate'
+  | 'endDate'
+  | 'usageLimit'
+  | 'perUserLimit'
+  | 'timesRedeemed'
+  | 'stackable'
+>;
+
+export type CartPromotion = AppliedPromotion & { promotion: Promotion };
+
+// Promotion fields as Strapi sends them, in API responses and webhooks alike
+export type PromotionAttributes = Omit<
+  StrapiPromotion['attributes'],
+  'isActive' | 'createdAt' | 'updatedAt'
+> & { isActive?: boolean };
+
+export interface RedeemCartPromotions {
+  cartId: string;
+  orderId: string;
+  userId: string;
+  // Discounts the order was priced with, by code
+  discounts: AppliedDiscount[];
+}
+
+// Why a promotion can't be used right now, or null when it can
+export function checkPromotionAvailability(
+  promotion: PromotionRules,
+  userRedemptions: number,
+  now: Date = new Date()
+): string | null {
+  if (!promotion.isActive) {
+    return 'Invalid promo code';
+  }
+  if (promotion.startDate && now < promotion.startDate) {
+    return 'Promo code is not active yet';
+  }
+  if (promotion.endDate && now > promotion.endDate) {
+    return 'Promo code has expired';
+  }
+  if (promotion.usageLimit !== null && promotion.timesRedeemed >= promotion.usageLimit) {
+    return 'Promo code has reached its usage limit';
+  }
+  if (promotion.perUserLimit !== null && userRedemptions >= promotion.perUserLimit) {
+    return 'You have already used this promo code';
+  }
+  return null;
+}
+
+// Why a promotion can't join the ones already on a cart, or null when it can.
+// Stackable promotions combine with each other; any other one stands alone.
+export function checkStacking(
+  candidate: Pick<Promotion, 'id' | 'stackable'>,
+  applied: Pick<Promotion, 'id' | 'stackable'>[]
+): string | null {
+  if (applied.some(promotion => promotion.id === candidate.id)) {
+    return 'Promo code is already applied';
+  }
+  if (applied.length === 0) {
+    return null;
+  }
+  if (!candidate.stackable) {
+    return 'This promo code cannot be combined with other promotions';
+  }
+  if (applied.some(promotion => !promotion.stackable)) {
+    return 'Your cart has a promo code that cannot be combined with others';
+  }
+  return null;
+}
+
+// Order stacked promotions are applied in: highest priority first, ties in
+// the order they were added to the cart
+export function orderForStacking<T extends { promotion: Pick<Promotion, 'priority'> }>(
+  applied: T[]
+): T[] {
+  return [...applied].sort((a, b) => b.promotion.priority - a.promotion.priority);
+}
+
+// Promotion record fields from Strapi promotion attributes; every field the
+// cart needs to validate a code comes across
+export function toPromotionRecord(attrs: PromotionAttributes) {
+  return {
+    name: attrs.name,
+    description: attrs.description || '',
+    discountType: attrs.discountType,
+    discountValue: attrs.discountValue,
+    minOrderAmount: attrs.minOrderAmount ?? null,
+    maxDiscountAmount: attrs.maxDiscountAmount ?? null,
+    code: attrs.code || null,
+    isActive: attrs.isActive ?? true,
+    startDate: attrs.startDate ? new Date(attrs.startDate) : null,
+    endDate: attrs.endDate ? new Date(attrs.endDate) : null,
+    applicableProducts: attrs.applicableProducts ?? [],
+    applicableCategories: attrs.applicableCategories ?? [],
+    usageLimit: attrs.usageLimit ?? null,
+    perUserLimit: attrs.perUserLimit ?? null,
+    stackable: attrs.stackable ?? false,
+    priority: attrs.priority ?? 0,
+  };
+}
+
+function toStrapiIds(value: unknown): number[] {
+  return Array.isArray(value) ? value.map(Number).filter(Number.isInteger) : [];
+}
+
+// Service class
+export class PromotionService {
+  // Find a promotion by code in Postgres. The Strapi worker and reconciliation
+  // keep the table in sync, so promo codes keep working while Strapi is down.
+  async findByCode(code: string): Promise<Promotion | null> {
+    return prisma.promotion.findFirst({
+      where: { code: { equals: code.trim(), mode: 'insensitive' } },
+    });
+  }
+
+  async countUserRedemptions(promotionId: string, userId: string): Promise<number> {
+    return prisma.promotionRedemption.count({
+      where: { promotionId, userId },
+    });
+  }
+
+  // Promotions on a cart, in the order they were added
+  async getCartPromotions(cartId: string): Promise<CartPromotion[]> {
+    return prisma.appliedPromotion.findMany({
+      where: { cartId },
+      include: { promotion: true },
+      orderBy: { appliedAt: 'asc' },
+    });
+  }
+
+  async addToCart(cartId: string, promotion: Promotion, code: string): Promise<void> {
+    await prisma.appliedPromotion.create({
+      data: {
+        cartId,
+        promotionId: promotion.id,
+        code: promotion.code || code,
+      },
+    });
+  }
+
+  // Take a promo code off a cart; false when the cart didn't have it
+  async removeFromCart(cartId: string, code: string): Promise<boolean> {
+    const { count } = await prisma.appliedPromotion.deleteMany({
+      where: { cartId, code: { equals: code, mode: 'insensitive' } },
+    });
+
+    return count > 0;
+  }
+
+  // A cart's promotions that can still be used, ready for the pricing
+  // pipeline in stacking order. Guest carts (no user) skip per-user limits.
+  async getPricingPromotions(cartId: string, userId: string | null): Promise<PricingPromotion[]> {
+    const applied = await this.getCartPromotions(cartId);
+    const usable: CartPromotion[] = [];
+
+    for (const entry of applied) {
+      const userRedemptions =
+        userId && entry.promotion.perUserLimit
+          ? await this.countUserRedemptions(entry.promotionId, userId)
+          : 0;
+      if (!checkPromotionAvailability(entry.promotion, userRedemptions)) {
+        usable.push(entry);
+      }
+    }
+
+    return Promise.all(
+      orderForStacking(usable).map(async entry => ({
+        code: entry.code,
+        discountType: entry.promotion.discountType === 'fixed' ? 'fixed' : 'percentage',
+        discountValue: Number(entry.promotion.discountValue),
+        minOrderAmount:
+          entry.promotion.minOrderAmount !== null ? Number(entry.promotion.minOrderAmount) : null,
+        maxDiscountAmount:
+          entry.promotion.maxDiscountAmount !== null
+            ? Number(entry.promotion.maxDiscountAmount)
+            : null,
+        productIds: await this.getApplicableProductIds(entry.promotion),
+      }))
+    );
+  }
+
+  // Record the redemptions of an order's promotions and take them off the
+  // cart. Runs in the checkout transaction so limits hold under concurrency.
+  async redeemCartPromotions(tx: any, redemption: RedeemCartPromotions): Promise<void> {
+    const applied: CartPromotion[] = await tx.appliedPromotion.findMany({
+      where: { cartId: redemption.cartId },
+      include: { promotion: true },
+    });
+
+    for (const entry of applied) {
+      const discount = redemption.discounts.find(candidate => candidate.code === entry.code);
+      if (!discount || discount.amount <= 0) continue;
+
+      // Serialize checkouts redeeming the same promotion, so the per-user
+      // count below sees every committed redemption
+      await tx.$queryRaw`
+        SELECT "id" FROM "backend"."promotions" WHERE "id" = ${entry.promotionId} FOR UPDATE
+      `;
+
+      if (entry.promotion.perUserLimit !== null) {
+        const used = await tx.promotionRedemption.count({
+          where: { promotionId: entry.promotionId, userId: redemption.userId },
+        });
+        if (used >= entry.promotion.perUserLimit) {
+          throw new Error(`You have already used promo code ${entry.code}`);
+        }
+      }
+
+      // Guarded increment: refuses to go past the total usage limit
+      const claimed: { id: string }[] = await tx.$queryRaw`
+        UPDATE "backend"."promotions"
+        SET "timesRedeemed" = "timesRedeemed" + 1
+        WHERE "id" = ${entry.promotionId}
+          AND ("usageLimit" IS NULL OR "timesRedeemed" < "usageLimit")
+        RETURNING "id"
+      `;
+      if (claimed.length === 0) {
+        throw new Error(`Promo code ${entry.code} has reached its usage limit`);
+      }
+
+      await tx.promotionRedemption.create({
+        data: {
+          promotionId: entry.promotionId,
+          orderId: redemption.orderId,
+          userId: redemption.userId,
+          code: entry.code,
+          discountAmount: discount.amount,
+        },
+      });
+    }
+
+    await tx.appliedPromotion.deleteMany({ where: { cartId: redemption.cartId } });
+  }
+
+  // Give a cancelled order's promotion uses back
+  async releaseRedemptions(orderId: string): Promise<void> {
+    await prisma.$transaction(async (tx: any) => {
+      const redemptions = await tx.promotionRedemption.findMany({ where: { orderId } });
+
+      for (const redemption of redemptions) {
+        await tx.$executeRaw`
+          UPDATE "backend"."promotions"
+          SET "timesRedeemed" = GREATEST("timesRedeemed" - 1, 0)
+          WHERE "id" = ${redemption.promotionId}
+        `;
+      }
+
+      await tx.promotionRedemption.deleteMany({ where: { orderId } });
+    });
+  }
+
+  // Local ids of the products a promotion discounts, from its Strapi product
+  // and category lists; null when it covers the whole order
+  private async getApplicableProductIds(promotion: Promotion): Promise<string[] | null> {
+    const productStrapiIds = toStrapiIds(promotion.applicableProducts);
+    const categoryStrapiIds = toStrapiIds(promotion.applicableCategories);
+
+    if (productStrapiIds.length === 0 && categoryStrapiIds.length === 0) {
+      return null;
+    }
+
+    const products = await prisma.product.findMany({
+      where: {
+        OR: [
+          { strapiId: { in: productStrapiIds } },
+          { category: { strapiId: { in: categoryStrapiIds } } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return products.map(product => product.id);
+  }
+}
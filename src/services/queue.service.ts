@@ -16,3 +16,17 @@ export const strapiEventQueue = new Queue('strapiEvent', { connection });
 export function createStrapiEventWorker(processor: any) {
   return new Worker('strapiEvent', processor, { connection });
 }
+
+export const paymentQueue = new Queue('payment', {
+  connection,
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: { type: 'exponential', delay: 5000 },
+    removeOnComplete: 1000,
+    removeOnFail: 5000,
+  },
+});
+
+export function createPaymentWorker(processor: any) {
+  return new Worker('payment', processor, { connection });
+}
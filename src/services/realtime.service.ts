@@ -11,7 +11,12 @@ export interface SocketUser {
 }
 
 export interface RealtimeMessage {
-  type: 'order_status_update' | 'inventory_update' | 'promotion_new' | 'notification';
+  type:
+    | 'order_status_update'
+    | 'inventory_update'
+    | 'promotion_new'
+    | 'notification'
+    | 'substitution_request';
   data: any;
   timestamp: Date;
 }
@@ -33,6 +38,22 @@ export interface InventoryUpdate {
   isAvailable: boolean;
 }
 
+export interface SubstitutionRequest {
+  orderId: string;
+  orderNumber: string;
+  adjustmentId: string;
+  productName: string;
+  pickedQuantity: number;
+  orderedQuantity: number;
+  substituteProductName: string;
+  substituteQuantity: number;
+  substituteUnitPrice: number;
+  message: string;
+}
+
+// Answers a customer's substitution_response event; registered by the server
+export type SubstitutionResponseHandler = (userId: string, payload: unknown) => Promise<unknown>;
+
 export interface PromotionNotification {
   promotionId: string;
   title: string;
@@ -44,10 +65,12 @@ export interface PromotionNotification {
 
 // Service class
 export class RealtimeService {
+  private static instance: RealtimeService | null = null;
   private io: SocketIOServer;
   private authService: AuthService;
   private connectedUsers: Map<string, SocketUser> = new Map();
   private userSockets: Map<string, Set<string>> = new Map();
+  private substitutionResponseHandler: SubstitutionResponseHandler | null = null;
 
   constructor(httpServer: HTTPServer) {
     this.authService = new AuthService();
@@ -64,6 +87,13 @@ export class RealtimeService {
 
     this.setupMiddleware();
     this.setupEventHandlers();
+
+    RealtimeService.instance = this;
+  }
+
+  // Get the running instance (null outside the HTTP server process, e.g. in workers and tests)
+  static getInstance(): RealtimeService | null {
+    return RealtimeService.instance;
   }
 
   // Setup authentication middleware
@@ -145,6 +175,28 @@ export class RealtimeService {
         console.log(`[Realtime] User ${email} left store ${storeId} channels`);
       });
 
+      // Handle a customer approving or rejecting a substitution; the ack
+      // callback gets the outcome
+      socket.on(
+        'substitution_response',
+        async (payload: unknown, ack?: (response: Record<string, unknown>) => void) => {
+          if (!this.substitutionResponseHandler) {
+            ack?.({ success: false, message: 'Substitutions are not available' });
+            return;
+          }
+
+          try {
+            const data = await this.substitutionResponseHandler(userId, payload);
+            ack?.({ success: true, data });
+          } catch (error) {
+            ack?.({
+              success: false,
+              message: error instanceof Error ? error.message : 'Substitution response failed',
+            });
+          }
+        }
+      );
+
       // Handle ping/pong for connection health
       socket.on('ping', () => {
         socket.emit('pong', { timestamp: new Date().toISOString() });
@@ -188,6 +240,23 @@ export class RealtimeService {
     console.log(`[Realtime] Sent inventory update to store ${storeId}: ${update.productId}`);
   }
 
+  // Ask a customer to approve or reject a substitution
+  sendSubstitutionRequest(userId: string, request: SubstitutionRequest): void {
+    const message: RealtimeMessage = {
+      type: 'substitution_request',
+      data: request,
+      timestamp: new Date(),
+    };
+
+    this.io.to(`user_orders_${userId}`).emit('substitution_request', message);
+    console.log(`[Realtime] Sent substitution request to user ${userId}: ${request.orderNumber}`);
+  }
+
+  // Set the handler for substitution_response events
+  onSubstitutionResponse(handler: SubstitutionResponseHandler): void {
+    this.substitutionResponseHandler = handler;
+  }
+
   // Send promotion notification to user
   sendPromotionNotification(userId: string, promotion: PromotionNotification): void {
     const message: RealtimeMessage = {
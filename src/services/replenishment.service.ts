@@ -0,0 +1,463 @@
+import { z } from 'zod';
+import { PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from '@prisma/client';
+import prisma from '../db/prisma';
+import { InventoryMovementService, emitInventoryLevels } from './inventory-movement.service';
+import { assertManagesStore } from './store-access.service';
+
+// Validation schemas
+export const suggestionQuerySchema = z.object({
+  storeId: z.string().uuid(),
+  // Days of order history used for the sales velocity
+  windowDays: z.coerce.number().int().min(1).max(180).default(28),
+  // Days until a purchase order is expected to arrive
+  leadTimeDays: z.coerce.number().int().min(0).max(90).default(7),
+});
+
+export const createPurchaseOrderSchema = z.object({
+  storeId: z.string().uuid(),
+  supplier: z.string().max(200).optional(),
+  note: z.string().max(500).optional(),
+  // Omit to order every current replenishment suggestion
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        quantity: z.number().int().min(1),
+        unitCost: z.number().min(0).optional(),
+      })
+    )
+    .min(1)
+    .optional(),
+  windowDays: z.number().int().min(1).max(180).optional(),
+  leadTimeDays: z.number().int().min(0).max(90).optional(),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        quantity: z.number().int().min(1),
+      })
+    )
+    .min(1),
+});
+
+export const listPurchaseOrdersSchema = z.object({
+  storeId: z.string().uuid(),
+  status: z.nativeEnum(PurchaseOrderStatus).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Types
+export interface ReplenishmentActor {
+  userId: string;
+  role: string;
+}
+
+export interface ReplenishmentInput {
+  quantityAvailable: number;
+  reservedQuantity: number;
+  reorderLevel: number;
+  maxStockLevel: number | null;
+  unitsSold: number;
+  windowDays: number;
+  leadTimeDays: number;
+  // Units already on open purchase orders
+  onOrder: number;
+}
+
+export interface ReplenishmentSuggestion {
+  inventoryId: string;
+  productId: string;
+  productName: string;
+  sku: string | null;
+  quantityAvailable: number;
+  reservedQuantity: number;
+  onOrder: number;
+  reorderLevel: number;
+  maxStockLevel: number | null;
+  dailyVelocity: number;
+  suggestedQuantity: number;
+}
+
+export type PurchaseOrderWithItems = PurchaseOrder & { items: PurchaseOrderItem[] };
+
+// Days of sales to cover when a row has no maxStockLevel
+const DEFAULT_COVERAGE_DAYS = 14;
+
+const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  'draft',
+  'ordered',
+  'partially_received',
+];
+
+// How many units to order so the row is back at its target level once the
+// order arrives. The target is maxStockLevel, or reorderLevel plus
+// DEFAULT_COVERAGE_DAYS of sales when no maximum is set. Returns 0 when the
+// projected stock after the lead time is still above the reorder level.
+export function calculateSuggestedQuantity(input: ReplenishmentInput): number {
+  const velocity = input.unitsSold / input.windowDays;
+  const leadTimeDemand = Math.ceil(velocity * input.leadTimeDays);
+  const projected =
+    input.quantityAvailable - input.reservedQuantity + input.onOrder - leadTimeDemand;
+
+  if (projected > input.reorderLevel) {
+    return 0;
+  }
+
+  const target =
+    input.maxStockLevel ?? input.reorderLevel + Math.ceil(velocity * DEFAULT_COVERAGE_DAYS);
+
+  return Math.max(target - projected, 0);
+}
+
+// Service class
+export class ReplenishmentService {
+  private movementService: InventoryMovementService;
+
+  constructor() {
+    this.movementService = new InventoryMovementService();
+  }
+
+  // Suggested order quantities for rows with a reorder level
+  async getSuggestions(
+    query: z.infer<typeof suggestionQuerySchema>,
+    actor: ReplenishmentActor
+  ): Promise<ReplenishmentSuggestion[]> {
+    const { storeId, windowDays, leadTimeDays } = query;
+    await assertManagesStore(actor, storeId);
+
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+    const [inventories, sales, openItems] = await Promise.all([
+      prisma.storeInventory.findMany({
+        where: { storeId, reorderLevel: { not: null } },
+        include: { product: { select: { name: true, sku: true } } },
+      }),
+      prisma.orderItem.groupBy({
+        by: ['productId'],
+        where: {
+          order: {
+            storeId,
+            createdAt: { gte: since },
+            status: { not: 'cancelled' },
+          },
+        },
+        _sum: { quantity: true },
+      }),
+      prisma.purchaseOrderItem.findMany({
+        where: {
+          purchaseOrder: { storeId, status: { in: OPEN_PURCHASE_ORDER_STATUSES } },
+        },
+      }),
+    ]);
+
+    const soldByProduct = new Map(sales.map(sale => [sale.productId, sale._sum.quantity || 0]));
+    const onOrderByProduct = new Map<string, number>();
+    for (const item of openItems) {
+      const outstanding = item.quantityOrdered - item.quantityReceived;
+      onOrderByProduct.set(
+        item.productId,
+        (onOrderByProduct.get(item.productId) || 0) + outstanding
+      );
+    }
+
+    const suggestions: ReplenishmentSuggestion[] = [];
+
+    for (const inventory of inventories) {
+      const unitsSold = soldByProduct.get(inventory.productId) || 0;
+      const onOrder = onOrderByProduct.get(inventory.productId) || 0;
+      const suggestedQuantity = calculateSuggestedQuantity({
+        quantityAvailable: inventory.quantityAvailable,
+        reservedQuantity: inventory.reservedQuantity,
+        reorderLevel: inventory.reorderLevel as number,
+        maxStockLevel: inventory.maxStockLevel,
+        unitsSold,
+        windowDays,
+        leadTimeDays,
+        onOrder,
+      });
+
+      if (suggestedQuantity > 0) {
+        suggestions.push({
+          inventoryId: inventory.id,
+          productId: inventory.productId,
+          productName: inventory.product.name,
+          sku: inventory.product.sku,
+          quantityAvailable: inventory.quantityAvailable,
+          reservedQuantity: inventory.reservedQuantity,
+          onOrder,
+          reorderLevel: inventory.reorderLevel as number,
+          maxStockLevel: inventory.maxStockLevel,
+          dailyVelocity: Math.round((unitsSold / windowDays) * 100) / 100,
+          suggestedQuantity,
+        });
+      }
+    }
+
+    return suggestions.sort((a, b) => b.suggestedQuantity - a.suggestedQuantity);
+  }
+
+  // Create a draft purchase order from explicit items or from the current suggestions
+  async createPurchaseOrder(
+    data: z.infer<typeof createPurchaseOrderSchema>,
+    actor: ReplenishmentActor
+  ): Promise<PurchaseOrderWithItems> {
+    const { storeId, supplier, note } = data;
+    await assertManagesStore(actor, storeId);
+
+    let items = data.items;
+
+    if (!items) {
+      const suggestions = await this.getSuggestions(
+        suggestionQuerySchema.parse({
+          storeId,
+          windowDays: data.windowDays,
+          leadTimeDays: data.leadTimeDays,
+        }),
+        actor
+      );
+
+      if (suggestions.length === 0) {
+        throw new Error('No replenishment needed for this store');
+      }
+
+      items = suggestions.map(suggestion => ({
+        productId: suggestion.productId,
+        quantity: suggestion.suggestedQuantity,
+      }));
+    }
+
+    if (new Set(items.map(item => item.productId)).size !== items.length) {
+      throw new Error('Each product may only appear once');
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.create({
+      data: {
+        poNumber: await this.generatePoNumber(),
+        storeId,
+        supplier,
+        note,
+        createdById: actor.userId,
+        items: {
+          create: items.map(item => ({
+            productId: item.productId,
+            quantityOrdered: item.quantity,
+            unitCost: item.unitCost,
+          })),
+        },
+      },
+      include: { items: true },
+    });
+
+    console.log(
+      `[Replenishment] Created purchase order ${purchaseOrder.poNumber} for store ${storeId}`
+    );
+
+    return purchaseOrder;
+  }
+
+  // Send a draft purchase order to the supplier
+  async submitPurchaseOrder(
+    purchaseOrderId: string,
+    actor: ReplenishmentActor
+  ): Promise<PurchaseOrderWithItems> {
+    const purchaseOrder = await this.getPurchaseOrderOrThrow(purchaseOrderId);
+    await assertManagesStore(actor, purchaseOrder.storeId);
+
+    await this.moveStatus(purchaseOrder, ['draft'], 'ordered', { orderedAt: new Date() });
+
+    return this.getPurchaseOrderOrThrow(purchaseOrderId);
+  }
+
+  // Cancel a purchase order that has not received anything yet
+  async cancelPurchaseOrder(
+    purchaseOrderId: string,
+    actor: ReplenishmentActor
+  ): Promise<PurchaseOrderWithItems> {
+    const purchaseOrder = await this.getPurchaseOrderOrThrow(purchaseOrderId);
+    await assertManagesStore(actor, purchaseOrder.storeId);
+
+    await this.moveStatus(purchaseOrder, ['draft', 'ordered'], 'cancelled', {
+      cancelledAt: new Date(),
+    });
+
+    return this.getPurchaseOrderOrThrow(purchaseOrderId);
+  }
+
+  // Receive all or part of an ordered purchase order: restocks the store
+  async receivePurchaseOrder(
+    purchaseOrderId: string,
+    data: z.infer<typeof receivePurchaseOrderSchema>,
+    actor: ReplenishmentActor
+  ): Promise<PurchaseOrderWithItems> {
+    const purchaseOrder = await this.getPurchaseOrderOrThrow(purchaseOrderId);
+    await assertManagesStore(actor, purchaseOrder.storeId);
+
+    const updated = await prisma.$transaction(async (tx: any) => {
+      // Serialize concurrent receipts of the same purchase order
+      await tx.$queryRaw`
+        SELECT "id" FROM "backend"."purchase_orders" WHERE "id" = ${purchaseOrderId} FOR UPDATE
+      `;
+
+      const current: PurchaseOrderWithItems = await tx.purchaseOrder.findUniqueOrThrow({
+        where: { id: purchaseOrderId },
+        include: { items: true },
+      });
+
+      if (current.status !== 'ordered' && current.status !== 'partially_received') {
+        throw new Error(`Cannot receive a purchase order that is ${current.status}`);
+      }
+
+      const now = new Date();
+
+      for (const received of data.items) {
+        const item = current.items.find(i => i.productId === received.productId);
+        if (!item) {
+          throw new Error(`Product ${received.productId} is not on this purchase order`);
+        }
+
+        const outstanding = item.quantityOrdered - item.quantityReceived;
+        if (received.quantity > outstanding) {
+          throw new Error(`Only ${outstanding} units of product ${item.productId} are outstanding`);
+        }
+
+        // The store may not stock the product yet
+        await tx.storeInventory.upsert({
+          where: {
+            storeId_productId: { storeId: current.storeId, productId: item.productId },
+          },
+          update: { lastRestocked: now },
+          create: {
+            storeId: current.storeId,
+            productId: item.productId,
+            quantityAvailable: 0,
+            reservedQuantity: 0,
+            lastRestocked: now,
+          },
+        });
+
+        await this.movementService.applyChange(tx, {
+          storeId: current.storeId,
+          productId: item.productId,
+          reason: 'restock',
+          quantityDelta: received.quantity,
+          actor,
+          note: `Purchase order ${current.poNumber}`,
+        });
+
+        item.quantityReceived += received.quantity;
+        await tx.purchaseOrderItem.update({
+          where: { id: item.id },
+          data: { quantityReceived: item.quantityReceived },
+        });
+      }
+
+      const complete = current.items.every(item => item.quantityReceived >= item.quantityOrdered);
+
+      await tx.purchaseOrder.update({
+        where: { id: purchaseOrderId },
+        data: complete
+          ? { status: 'received', receivedAt: now, receivedById: actor.userId }
+          : { status: 'partially_received' },
+      });
+
+      return tx.purchaseOrder.findUniqueOrThrow({
+        where: { id: purchaseOrderId },
+        include: { items: true },
+      });
+    });
+
+    console.log(`[Replenishment] Received items for ${updated.poNumber} (${updated.status})`);
+    await emitInventoryLevels(
+      data.items.map(item => ({ storeId: updated.storeId, productId: item.productId }))
+    );
+
+    return updated;
+  }
+
+  // Get a purchase order for one of the actor's stores
+  async getPurchaseOrder(
+    purchaseOrderId: string,
+    actor: ReplenishmentActor
+  ): Promise<PurchaseOrderWithItems> {
+    const purchaseOrder = await this.getPurchaseOrderOrThrow(purchaseOrderId);
+    await assertManagesStore(actor, purchaseOrder.storeId);
+    return purchaseOrder;
+  }
+
+  // List a store's purchase orders, newest first
+  async listPurchaseOrders(
+    query: z.infer<typeof listPurchaseOrdersSchema>,
+    actor: ReplenishmentActor
+  ): Promise<{ purchaseOrders: PurchaseOrderWithItems[]; total: number }> {
+    await assertManagesStore(actor, query.storeId);
+
+    const where = {
+      storeId: query.storeId,
+      ...(query.status && { status: query.status }),
+    };
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        include: { items: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return { purchaseOrders, total };
+  }
+
+  // Guarded status change: fails if another request moved the purchase order first
+  private async moveStatus(
+    purchaseOrder: PurchaseOrder,
+    from: PurchaseOrderStatus[],
+    status: PurchaseOrderStatus,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    if (!from.includes(purchaseOrder.status)) {
+      throw new Error(`Cannot move purchase order from ${purchaseOrder.status} to ${status}`);
+    }
+
+    const { count } = await prisma.purchaseOrder.updateMany({
+      where: { id: purchaseOrder.id, status: purchaseOrder.status },
+      data: { status, ...data },
+    });
+
+    if (count === 0) {
+      throw new Error('Purchase order was updated by another request, please retry');
+    }
+  }
+
+  private async getPurchaseOrderOrThrow(purchaseOrderId: string): Promise<PurchaseOrderWithItems> {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { items: true },
+    });
+
+    if (!purchaseOrder) {
+      throw new Error('Purchase order not found');
+    }
+
+    return purchaseOrder;
+  }
+
+  // Generate unique purchase order number
+  private async generatePoNumber(): Promise<string> {
+    const timestamp = Date.now().toString(36);
+    const random = Math.random().toString(36).substring(2, 6);
+    const poNumber = `PO-${timestamp}-${random}`.toUpperCase();
+
+    const existing = await prisma.purchaseOrder.findUnique({
+      where: { poNumber },
+    });
+
+    return existing ? this.generatePoNumber() : poNumber;
+  }
+}
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import prisma from '../db/prisma';
-import { InventoryReservation } from '@prisma/client';
+import { InventoryMovementReason, InventoryReservation, ReservationStatus } from '@prisma/client';
+import { InventoryMovementService, MovementReference } from './inventory-movement.service';
 
 // Validation schemas
 export const createReservationSchema = z.object({
@@ -37,12 +38,44 @@ export interface ReservationSummary {
   totalQuantityReserved: number;
 }
 
+// Units of each product an order's items need that none of its live
+// (reserved or used) reservations cover
+export function getUnheldQuantities(
+  items: { productId: string; quantity: number }[],
+  reservations: Pick<InventoryReservation, 'productId' | 'quantity' | 'status'>[]
+): Map<string, number> {
+  const unheld = new Map<string, number>();
+
+  for (const item of items) {
+    unheld.set(item.productId, (unheld.get(item.productId) || 0) + item.quantity);
+  }
+
+  for (const reservation of reservations) {
+    if (reservation.status === 'reserved' || reservation.status === 'used') {
+      unheld.set(
+        reservation.productId,
+        (unheld.get(reservation.productId) || 0) - reservation.quantity
+      );
+    }
+  }
+
+  for (const [productId, quantity] of unheld) {
+    if (quantity <= 0) {
+      unheld.delete(productId);
+    }
+  }
+
+  return unheld;
+}
+
 // Service class
 export class ReservationService {
   private readonly defaultTTLMinutes: number;
+  private movementService: InventoryMovementService;
 
   constructor() {
     this.defaultTTLMinutes = parseInt(process.env.RESERVATION_TTL_MINUTES || '15');
+    this.movementService = new InventoryMovementService();
   }
 
   // Create inventory reservation
@@ -51,55 +84,31 @@ export class ReservationService {
   ): Promise<InventoryReservation> {
     const { storeId, productId, quantity, userId, orderId, ttlMinutes } = data;
 
-    // Check if product is available in store
-    const inventory = await prisma.storeInventory.findFirst({
-      where: {
-        storeId,
-        productId,
-        isAvailable: true,
-      },
-    });
-
-    if (!inventory) {
-      throw new Error('Product not available in this store');
-    }
-
-    // Check if enough quantity is available
-    const availableQuantity = inventory.quantityAvailable - inventory.reservedQuantity;
-    if (availableQuantity < quantity) {
-      throw new Error(`Only ${availableQuantity} items available (${quantity} requested)`);
-    }
-
     // Calculate expiration time
     const expiresAt = new Date();
     expiresAt.setMinutes(expiresAt.getMinutes() + (ttlMinutes || this.defaultTTLMinutes));
 
-    // Create reservation
-    const reservation = await prisma.inventoryReservation.create({
-      data: {
-        storeId,
-        productId,
-        quantity,
-        userId,
-        orderId,
-        status: 'reserved',
-        expiresAt,
-      },
-    });
-
-    // Update store inventory reserved quantity
-    await prisma.storeInventory.update({
-      where: {
-        storeId_productId: {
+    // Record the reservation and reserve stock atomically
+    const reservation = await prisma.$transaction(async (tx: any) => {
+      const created = await tx.inventoryReservation.create({
+        data: {
           storeId,
           productId,
+          quantity,
+          userId,
+          orderId,
+          status: 'reserved',
+          expiresAt,
         },
-      },
-      data: {
-        reservedQuantity: {
-          increment: quantity,
-        },
-      },
+      });
+
+      await this.reserveStock(tx, storeId, productId, quantity, {
+        actor: userId ? { userId, role: 'customer' } : undefined,
+        orderId,
+        reservationId: created.id,
+      });
+
+      return created;
     });
 
     console.log(
@@ -109,6 +118,40 @@ export class ReservationService {
     return reservation;
   }
 
+  // Reserve stock with a single guarded update so concurrent checkouts cannot oversell.
+  // Throws when the product is unavailable or there is not enough unreserved stock.
+  async reserveStock(
+    client: any,
+    storeId: string,
+    productId: string,
+    quantity: number,
+    reference: MovementReference = {}
+  ): Promise<void> {
+    const movement = await this.movementService.applyChange(client, {
+      storeId,
+      productId,
+      reason: 'reservation',
+      reservedDelta: quantity,
+      requireAvailable: true,
+      ...reference,
+    });
+
+    if (movement) {
+      return;
+    }
+
+    const inventory = await client.storeInventory.findFirst({
+      where: { storeId, productId, isAvailable: true },
+    });
+
+    if (!inventory) {
+      throw new Error('Product not available in this store');
+    }
+
+    const availableQuantity = Math.max(inventory.quantityAvailable - inventory.reservedQuantity, 0);
+    throw new Error(`Only ${availableQuantity} items available (${quantity} requested)`);
+  }
+
   // Update reservation status
   async updateReservation(
     reservationId: string,
@@ -124,24 +167,23 @@ export class ReservationService {
       throw new Error('Reservation not found');
     }
 
-    // Update reservation
-    const updatedReservation = await prisma.inventoryReservation.update({
-      where: { id: reservationId },
-      data: {
-        status,
-        orderId: orderId || reservation.orderId,
-        updatedAt: new Date(),
-      },
-    });
+    // Update reservation and settle its stock together
+    const updatedReservation = await prisma.$transaction(async (tx: any) => {
+      if (orderId && orderId !== reservation.orderId) {
+        await tx.inventoryReservation.update({
+          where: { id: reservationId },
+          data: { orderId },
+        });
+      }
 
-    // If reservation is being used or released, update store inventory
-    if (status === 'used' || status === 'released' || status === 'expired') {
-      await this.releaseReservedQuantity(
-        reservation.storeId,
-        reservation.productId,
-        reservation.quantity
+      await this.transitionReservation(
+        tx,
+        { ...reservation, orderId: orderId || reservation.orderId },
+        status
       );
-    }
+
+      return tx.inventoryReservation.findUniqueOrThrow({ where: { id: reservationId } });
+    });
 
     console.log(`[Reservation] Updated reservation ${reservationId} to status ${status}`);
 
@@ -218,63 +260,105 @@ export class ReservationService {
       },
     });
 
-    if (expiredReservations.length === 0) {
+    // Orders still awaiting payment keep their stock past the TTL: the payment
+    // job settles them either way, selling the units once captured or
+    // releasing them when it gives up
+    const orderIds = [
+      ...new Set(expiredReservations.map(reservation => reservation.orderId).filter(Boolean)),
+    ] as string[];
+    const awaitingPayment = new Set(
+      orderIds.length > 0
+        ? (
+            await prisma.order.findMany({
+              where: { id: { in: orderIds }, status: 'pending', paymentStatus: 'pending' },
+              select: { id: true },
+            })
+          ).map(order => order.id)
+        : []
+    );
+    const releasable = expiredReservations.filter(
+      reservation => !reservation.orderId || !awaitingPayment.has(reservation.orderId)
+    );
+
+    if (releasable.length === 0) {
       return { released: 0, reservations: [] };
     }
 
-    // Update expired reservations
-    await prisma.inventoryReservation.updateMany({
-      where: {
-        id: {
-          in: expiredReservations.map((r: any) => r.id),
-        },
-      },
-      data: {
-        status: 'expired',
-        updatedAt: now,
-      },
-    });
-
-    // Release reserved quantities
-    for (const reservation of expiredReservations) {
-      await this.releaseReservedQuantity(
-        reservation.storeId,
-        reservation.productId,
-        reservation.quantity
+    // Expire each reservation on its own so one that was used meanwhile is skipped
+    let released = 0;
+    for (const reservation of releasable) {
+      const expired = await prisma.$transaction((tx: any) =>
+        this.transitionReservation(tx, reservation, 'expired')
       );
+      if (expired) released++;
     }
 
-    console.log(`[Reservation] Released ${expiredReservations.length} expired reservations`);
+    console.log(`[Reservation] Released ${released} expired reservations`);
 
     return {
-      released: expiredReservations.length,
-      reservations: expiredReservations,
+      released,
+      reservations: releasable,
     };
   }
 
-  // Release reserved quantity in store inventory
-  private async releaseReservedQuantity(
-    storeId: string,
-    productId: string,
-    quantity: number
-  ): Promise<void> {
-    await prisma.storeInventory.update({
-      where: {
-        storeId_productId: {
-          storeId,
-          productId,
-        },
-      },
-      data: {
-        reservedQuantity: {
-          decrement: quantity,
-        },
-      },
+  // Move a reservation to a new status and write the matching stock movement.
+  // The status update is guarded on the current status, so a reservation is
+  // only ever settled once. Returns false when it had already moved on.
+  async transitionReservation(
+    tx: any,
+    reservation: InventoryReservation,
+    status: ReservationStatus,
+    reference: MovementReference = {}
+  ): Promise<boolean> {
+    const { count } = await tx.inventoryReservation.updateMany({
+      where: { id: reservation.id, status: reservation.status },
+      data: { status, updatedAt: new Date() },
     });
 
-    console.log(
-      `[Reservation] Released ${quantity} reserved quantity for ${productId} in store ${storeId}`
-    );
+    if (count === 0) {
+      return false;
+    }
+
+    const change = this.getStockChange(reservation.status, status, reservation.quantity);
+    if (change) {
+      await this.movementService.applyChange(tx, {
+        storeId: reservation.storeId,
+        productId: reservation.productId,
+        orderId: reservation.orderId || undefined,
+        reservationId: reservation.id,
+        ...change,
+        ...reference,
+      });
+    }
+
+    return true;
+  }
+
+  // Stock effect of moving a reservation between statuses:
+  // reserved -> used sells the units, reserved -> released/cancelled/expired frees them,
+  // used -> released/cancelled puts sold units back on the shelf
+  private getStockChange(
+    from: ReservationStatus,
+    to: ReservationStatus,
+    quantity: number
+  ): { reason: InventoryMovementReason; quantityDelta?: number; reservedDelta?: number } | null {
+    if (from === 'reserved') {
+      switch (to) {
+        case 'used':
+          return { reason: 'sale', quantityDelta: -quantity, reservedDelta: -quantity };
+        case 'released':
+        case 'cancelled':
+          return { reason: 'release', reservedDelta: -quantity };
+        case 'expired':
+          return { reason: 'expiry', reservedDelta: -quantity };
+      }
+    }
+
+    if (from === 'used' && (to === 'released' || to === 'cancelled')) {
+      return { reason: 'return', quantityDelta: quantity };
+    }
+
+    return null;
   }
 
   // Get reservation summary
@@ -341,28 +425,19 @@ export class ReservationService {
       throw new Error('Reservation cannot be cancelled');
     }
 
-    // Update reservation status
-    const updatedReservation = await prisma.inventoryReservation.update({
-      where: { id: reservationId },
-      data: {
-        status: 'cancelled',
-        updatedAt: new Date(),
-      },
+    // Update reservation status and release reserved quantity
+    const updatedReservation = await prisma.$transaction(async (tx: any) => {
+      await this.transitionReservation(tx, reservation, 'cancelled');
+      return tx.inventoryReservation.findUniqueOrThrow({ where: { id: reservationId } });
     });
 
-    // Release reserved quantity
-    await this.releaseReservedQuantity(
-      reservation.storeId,
-      reservation.productId,
-      reservation.quantity
-    );
-
     console.log(`[Reservation] Cancelled reservation ${reservationId}`);
 
     return updatedReservation;
   }
 
-  // Clean up old reservations (older than 7 days)
+  // Clean up old reservations (older than 7 days). Used reservations are
+  // kept: they record what an order sold and are released if it is cancelled.
   async cleanupOldReservations(): Promise<number> {
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
@@ -373,7 +448,7 @@ export class ReservationService {
           lt: sevenDaysAgo,
         },
         status: {
-          in: ['expired', 'cancelled', 'used'],
+          in: ['expired', 'cancelled'],
         },
       },
     });
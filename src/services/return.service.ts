@@ -0,0 +1,456 @@
+import { z } from 'zod';
+import { Order, OrderItem, ReturnItem, ReturnRequest, ReturnStatus } from '@prisma/client';
+import prisma from '../db/prisma';
+import { InventoryMovementService } from './inventory-movement.service';
+import { OrderActor } from './order-lifecycle.service';
+import { PaymentService } from './payment.service';
+import { RealtimeService } from './realtime.service';
+import { roundMoney } from './pricing.service';
+import { assertManagesStore } from './store-access.service';
+
+// Validation schemas
+export const createReturnSchema = z.object({
+  orderId: z.string().uuid(),
+  reason: z.string().trim().min(1).max(500),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().min(1),
+      })
+    )
+    .min(1),
+});
+
+export const reviewReturnSchema = z.object({
+  storeId: z.string().uuid(),
+  note: z.string().max(500).optional(),
+});
+
+export const receiveReturnSchema = z.object({
+  storeId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        returnItemId: z.string().uuid(),
+        disposition: z.enum(['restock', 'write_off']),
+      })
+    )
+    .min(1),
+});
+
+// Types
+export type ReturnWithItems = ReturnRequest & { items: ReturnItem[] };
+
+export interface ReturnableLine {
+  quantity: number;
+  totalPrice: number;
+  taxAmount: number;
+}
+
+const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS || '30', 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What the customer paid for some units of a line: their price less their
+// share of the order discount, plus their tax
+export function refundForUnits(
+  line: ReturnableLine,
+  order: { subtotal: number; discountAmount: number },
+  units: number
+): number {
+  if (line.quantity <= 0 || units <= 0) {
+    return 0;
+  }
+
+  const lineDiscount =
+    order.subtotal > 0 ? (order.discountAmount * line.totalPrice) / order.subtotal : 0;
+
+  return roundMoney(
+    ((line.totalPrice - lineDiscount + line.taxAmount) * Math.min(units, line.quantity)) /
+      line.quantity
+  );
+}
+
+// Units of each order line that can still be returned. Units on rejected
+// returns go back to being returnable.
+export function getReturnableQuantities(
+  items: Pick<OrderItem, 'id' | 'quantity'>[],
+  returned: { orderItemId: string; quantity: number; status: ReturnStatus }[]
+): Map<string, number> {
+  const remaining = new Map(items.map(item => [item.id, item.quantity]));
+
+  for (const entry of returned) {
+    if (entry.status === 'rejected' || !remaining.has(entry.orderItemId)) continue;
+    remaining.set(
+      entry.orderItemId,
+      Math.max(0, remaining.get(entry.orderItemId)! - entry.quantity)
+    );
+  }
+
+  return remaining;
+}
+
+// Service class
+export class ReturnService {
+  private movementService: InventoryMovementService;
+  private paymentService: PaymentService;
+
+  constructor() {
+    this.movementService = new InventoryMovementService();
+    this.paymentService = new PaymentService();
+  }
+
+  // Ask to send back units of a completed order, within the return window
+  async createReturn(
+    userId: string,
+    data: z.infer<typeof createReturnSchema>
+  ): Promise<ReturnWithItems> {
+    const order = await prisma.order.findUnique({
+      where: { id: data.orderId },
+      include: { items: true },
+    });
+
+    if (!order) {
+      throw new Error('Order not found');
+    }
+
+    if (order.userId !== userId) {
+      throw new Error('Unauthorized');
+    }
+
+    if (order.status !== 'completed') {
+      throw new Error('Only completed orders can be returned');
+    }
+
+    const completedAt = order.actualPickupTime || order.updatedAt;
+    if (Date.now() - completedAt.getTime() > RETURN_WINDOW_DAYS * DAY_MS) {
+      throw new Error(`Returns must be requested within ${RETURN_WINDOW_DAYS} days`);
+    }
+
+    const orderItemIds = data.items.map(item => item.orderItemId);
+    if (new Set(orderItemIds).size !== orderItemIds.length) {
+      throw new Error('Each order item can only be listed once');
+    }
+
+    // Lock the order so concurrent requests can't both claim the same units
+    const request: ReturnWithItems = await prisma.$transaction(async (tx: any) => {
+      await tx.$queryRaw`
+        SELECT "id" FROM "backend"."orders" WHERE "id" = ${order.id} FOR UPDATE
+      `;
+
+      const returned: {
+        orderItemId: string;
+        quantity: number;
+        returnRequest: { status: ReturnStatus };
+      }[] = await tx.returnItem.findMany({
+        where: { orderItem: { orderId: order.id } },
+        select: { orderItemId: true, quantity: true, returnRequest: { select: { status: true } } },
+      });
+      const returnable = getReturnableQuantities(
+        order.items,
+        returned.map(entry => ({ ...entry, status: entry.returnRequest.status }))
+      );
+
+      for (const item of data.items) {
+        const available = returnable.get(item.orderItemId);
+        if (available === undefined) {
+          throw new Error(`Order item ${item.orderItemId} not found`);
+        }
+        if (item.quantity > available) {
+          throw new Error(
+            `Only ${available} unit(s) of order item ${item.orderItemId} can be returned`
+          );
+        }
+      }
+
+      return tx.returnRequest.create({
+        data: {
+          orderId: order.id,
+          userId,
+          storeId: order.storeId,
+          reason: data.reason,
+          items: {
+            create: data.items.map(item => ({
+              orderItemId: item.orderItemId,
+              quantity: item.quantity,
+            })),
+          },
+        },
+        include: { items: true },
+      });
+    });
+
+    console.log(`[Returns] Return ${request.id} requested for order ${order.orderNumber}`);
+
+    return request;
+  }
+
+  // A customer's returns, newest first
+  async getReturnsByUser(userId: string): Promise<ReturnWithItems[]> {
+    return prisma.returnRequest.findMany({
+      where: { userId },
+      include: { items: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Returns waiting on or handled by a store, oldest first
+  async getStoreReturns(storeId: string, status?: ReturnStatus): Promise<ReturnWithItems[]> {
+    return prisma.returnRequest.findMany({
+      where: { storeId, ...(status && { status }) },
+      include: { items: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // A single return. The customer, admins and the store's managers may look.
+  async getReturn(
+    returnId: string,
+    viewer: { userId: string; role: string }
+  ): Promise<ReturnWithItems> {
+    const request = await this.getReturnOrThrow(returnId);
+
+    if (request.userId !== viewer.userId) {
+      await assertManagesStore(viewer, request.storeId);
+    }
+
+    return request;
+  }
+
+  // Accept a requested return; the customer can bring the goods back
+  async approveReturn(
+    returnId: string,
+    data: z.infer<typeof reviewReturnSchema>,
+    actor: OrderActor
+  ): Promise<ReturnWithItems> {
+    return this.review(returnId, 'approved', data.note, actor);
+  }
+
+  // Turn down a requested return; its units become returnable again
+  async rejectReturn(
+    returnId: string,
+    data: z.infer<typeof reviewReturnSchema>,
+    actor: OrderActor
+  ): Promise<ReturnWithItems> {
+    return this.review(returnId, 'rejected', data.note, actor);
+  }
+
+  // Take the goods of an approved return back. Each item is restocked or
+  // written off, then the customer is refunded what they paid for them.
+  async receiveReturn(
+    returnId: string,
+    data: z.infer<typeof receiveReturnSchema>,
+    actor: OrderActor
+  ): Promise<ReturnWithItems> {
+    const request = await this.getReturnOrThrow(returnId);
+    this.assertActsForStore(request, actor);
+
+    if (request.status !== 'approved') {
+      throw new Error(`Cannot receive a ${request.status} return`);
+    }
+
+    const dispositions = new Map(data.items.map(item => [item.returnItemId, item.disposition]));
+    for (const returnItemId of dispositions.keys()) {
+      if (!request.items.some(item => item.id === returnItemId)) {
+        throw new Error(`Return item ${returnItemId} not found`);
+      }
+    }
+    if (request.items.some(item => !dispositions.has(item.id))) {
+      throw new Error('Every returned item needs a disposition');
+    }
+
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: request.orderId },
+      include: { items: true },
+    });
+    const subtotal = order.items.reduce((sum, item) => sum + Number(item.totalPrice), 0);
+    const orderAmounts = { subtotal, discountAmount: Number(order.discountAmount) };
+
+    const received = await prisma.$transaction(async (tx: any) => {
+      const { count } = await tx.returnRequest.updateMany({
+        where: { id: request.id, status: 'approved' },
+        data: { status: 'received', receivedAt: new Date() },
+      });
+
+      if (count === 0) {
+        throw new Error('Return has already been received');
+      }
+
+      let refundAmount = 0;
+
+      for (const returnItem of request.items) {
+        const orderItem = order.items.find(item => item.id === returnItem.orderItemId)!;
+        const disposition = dispositions.get(returnItem.id)!;
+        const itemRefund = refundForUnits(
+          {
+            quantity: orderItem.quantity,
+            totalPrice: Number(orderItem.totalPrice),
+            taxAmount: Number(orderItem.taxAmount),
+          },
+          orderAmounts,
+          returnItem.quantity
+        );
+        refundAmount += itemRefund;
+
+        if (disposition === 'restock') {
+          const movement = await this.movementService.applyChange(tx, {
+            storeId: request.storeId,
+            productId: orderItem.productId,
+            reason: 'return',
+            quantityDelta: returnItem.quantity,
+            orderId: request.orderId,
+            actor: { userId: actor.userId, role: actor.role },
+            note: `Return ${request.id}`,
+          });
+
+          if (!movement) {
+            throw new Error(`Product ${orderItem.productId} is not stocked at this store`);
+          }
+        }
+
+        await tx.returnItem.update({
+          where: { id: returnItem.id },
+          data: { disposition, refundAmount: itemRefund },
+        });
+      }
+
+      return tx.returnRequest.update({
+        where: { id: request.id },
+        data: { refundAmount: roundMoney(refundAmount) },
+        include: { items: true },
+      });
+    });
+
+    console.log(`[Returns] Return ${request.id} received for order ${order.orderNumber}`);
+
+    return this.settleRefund(order, received);
+  }
+
+  // Retry the refund of a received return whose refund failed
+  async refundReturn(returnId: string, actor: OrderActor): Promise<ReturnWithItems> {
+    const request = await this.getReturnOrThrow(returnId);
+    this.assertActsForStore(request, actor);
+
+    if (request.status !== 'received') {
+      throw new Error(`Cannot refund a ${request.status} return`);
+    }
+
+    const order = await prisma.order.findUniqueOrThrow({ where: { id: request.orderId } });
+
+    return this.settleRefund(order, request);
+  }
+
+  // Move a requested return to approved or rejected
+  private async review(
+    returnId: string,
+    status: 'approved' | 'rejected',
+    note: string | undefined,
+    actor: OrderActor
+  ): Promise<ReturnWithItems> {
+    const request = await this.getReturnOrThrow(returnId);
+    this.assertActsForStore(request, actor);
+
+    const { count } = await prisma.returnRequest.updateMany({
+      where: { id: returnId, status: 'requested' },
+      data: { status, resolution: note, reviewedById: actor.userId, reviewedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error('Return has already been reviewed');
+    }
+
+    const reviewed = await this.getReturnOrThrow(returnId);
+
+    await this.notifyCustomer(
+      reviewed,
+      status === 'approved' ? 'Return approved' : 'Return rejected',
+      status === 'approved'
+        ? 'Your return was approved. Bring the items back to the store for your refund.'
+        : `Your return was not accepted${note ? `: ${note}` : '.'}`
+    );
+
+    return reviewed;
+  }
+
+  // Refund a received return. Orders that were never paid are closed out
+  // without a payment; a failed refund leaves the return received for a retry.
+  private async settleRefund(order: Order, request: ReturnWithItems): Promise<ReturnWithItems> {
+    const amount = Number(request.refundAmount);
+
+    if (['paid', 'partially_refunded'].includes(order.paymentStatus) && amount > 0) {
+      // Keyed on the return, so a retry after a refund that went through
+      // but wasn't recorded here doesn't pay out twice
+      const result = await this.paymentService.processRefund({
+        orderId: order.id,
+        amount,
+        reason: `Return ${request.id}`,
+        reference: `return:${request.id}`,
+      });
+
+      if (!result.success) {
+        console.error(
+          `[Returns] Refund of ${amount} for ${order.orderNumber} failed: ${result.error}`
+        );
+        return request;
+      }
+    }
+
+    const refunded = await prisma.returnRequest.update({
+      where: { id: request.id },
+      data: { status: 'refunded', refundedAt: new Date() },
+      include: { items: true },
+    });
+
+    await this.notifyCustomer(
+      refunded,
+      'Return refunded',
+      `We refunded ${amount.toFixed(2)} for your returned items.`
+    );
+
+    return refunded;
+  }
+
+  private async getReturnOrThrow(returnId: string): Promise<ReturnWithItems> {
+    const request = await prisma.returnRequest.findUnique({
+      where: { id: returnId },
+      include: { items: true },
+    });
+
+    if (!request) {
+      throw new Error('Return not found');
+    }
+
+    return request;
+  }
+
+  private assertActsForStore(request: ReturnRequest, actor: OrderActor): void {
+    if (actor.role === 'manager' && actor.storeId && request.storeId !== actor.storeId) {
+      throw new Error('Unauthorized');
+    }
+  }
+
+  private async notifyCustomer(
+    request: ReturnRequest,
+    title: string,
+    message: string
+  ): Promise<void> {
+    const data = { returnId: request.id, orderId: request.orderId, status: request.status };
+
+    await prisma.pushNotification.create({
+      data: {
+        userId: request.userId,
+        storeId: request.storeId,
+        title,
+        message,
+        type: 'order_update',
+        data,
+        sentAt: new Date(),
+      },
+    });
+
+    const realtime = RealtimeService.getInstance();
+    if (realtime) {
+      realtime.sendNotification(request.userId, { title, message, type: 'info', data });
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import cron, { ScheduledTask } from 'node-cron';
+import Redis from 'ioredis';
+import { Gauge, Registry } from 'prom-client';
+
+// Types
+export type ScheduledJobStatus = 'success' | 'failed';
+
+export interface ScheduledJobDefinition {
+  name: string;
+  schedule: string;
+  description?: string;
+  // How long the lock is held at most; should exceed the job's worst-case runtime
+  lockTtlMs?: number;
+  handler: () => Promise<unknown>;
+}
+
+export interface ScheduledJobRun {
+  status: ScheduledJobStatus;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+export interface ScheduledJobInfo {
+  name: string;
+  schedule: string;
+  description?: string;
+  lastRun: ScheduledJobRun | null;
+}
+
+export type JobExecution =
+  | { executed: true; run: ScheduledJobRun }
+  | { executed: false; reason: 'locked' };
+
+const DEFAULT_LOCK_TTL_MS = 5 * 60 * 1000;
+const KEY_PREFIX = 'scheduler';
+
+// Only delete the lock if it is still ours
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+// Runs recurring jobs on every instance, but a Redis lock lets only one
+// instance execute each tick. Last-run status is stored in Redis so any
+// instance can report it.
+export class SchedulerService {
+  private jobs = new Map<string, ScheduledJobDefinition>();
+  private tasks = new Map<string, ScheduledTask>();
+  private redis: Redis;
+  private registry: Registry;
+
+  constructor(redis?: Redis) {
+    this.redis =
+      redis ||
+      new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+        lazyConnect: true,
+        maxRetriesPerRequest: 3,
+      });
+    this.registry = new Registry();
+    this.registerMetrics();
+  }
+
+  // Register a job definition (does not start it)
+  register(job: ScheduledJobDefinition): void {
+    if (!cron.validate(job.schedule)) {
+      throw new Error(`Invalid cron expression for job ${job.name}: ${job.schedule}`);
+    }
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job already registered: ${job.name}`);
+    }
+    this.jobs.set(job.name, job);
+  }
+
+  // Start cron tasks for every registered job
+  start(): void {
+    for (const job of this.jobs.values()) {
+      if (this.tasks.has(job.name)) continue;
+
+      const task = cron.schedule(job.schedule, () => {
+        this.execute(job.name).catch(error => {
+          console.error(`[Scheduler] Job ${job.name} tick failed:`, error);
+        });
+      });
+      this.tasks.set(job.name, task);
+      console.log(`[Scheduler] Scheduled ${job.name} (${job.schedule})`);
+    }
+  }
+
+  // Stop all cron tasks
+  async stop(): Promise<void> {
+    for (const task of this.tasks.values()) {
+      task.stop();
+    }
+    this.tasks.clear();
+    await this.redis.quit().catch(() => undefined);
+  }
+
+  hasJob(name: string): boolean {
+    return this.jobs.has(name);
+  }
+
+  // Run a job now if no other instance holds its lock
+  async execute(name: string): Promise<JobExecution> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    const lockKey = `${KEY_PREFIX}:lock:${name}`;
+    const token = crypto.randomUUID();
+    const acquired = await this.redis.set(
+      lockKey,
+      token,
+      'PX',
+      job.lockTtlMs || DEFAULT_LOCK_TTL_MS,
+      'NX'
+    );
+
+    if (acquired !== 'OK') {
+      return { executed: false, reason: 'locked' };
+    }
+
+    const startedAt = new Date();
+    let run: ScheduledJobRun;
+
+    try {
+      const result = await job.handler();
+      run = this.buildRun('success', startedAt, { result });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Scheduler] Job ${name} failed:`, error);
+      run = this.buildRun('failed', startedAt, { error: message });
+    } finally {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token).catch(error => {
+        console.error(`[Scheduler] Failed to release lock for ${name}:`, error);
+      });
+    }
+
+    await this.redis.set(`${KEY_PREFIX}:status:${name}`, JSON.stringify(run));
+    console.log(`[Scheduler] Job ${name} ${run.status} in ${run.durationMs}ms`);
+
+    return { executed: true, run };
+  }
+
+  // Registered jobs with their last recorded run
+  async getJobs(): Promise<ScheduledJobInfo[]> {
+    const jobs = Array.from(this.jobs.values());
+    if (jobs.length === 0) return [];
+
+    const statuses = await this.redis.mget(jobs.map(job => `${KEY_PREFIX}:status:${job.name}`));
+
+    return jobs.map((job, index) => ({
+      name: job.name,
+      schedule: job.schedule,
+      description: job.description,
+      lastRun: statuses[index] ? JSON.parse(statuses[index] as string) : null,
+    }));
+  }
+
+  // Prometheus exposition of the job gauges
+  async getMetrics(): Promise<string> {
+    return await this.registry.metrics();
+  }
+
+  private buildRun(
+    status: ScheduledJobStatus,
+    startedAt: Date,
+    extra: { result?: unknown; error?: string }
+  ): ScheduledJobRun {
+    const finishedAt = new Date();
+    return {
+      status,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ...extra,
+    };
+  }
+
+  private registerMetrics(): void {
+    const gauges: Array<[string, string, (run: ScheduledJobRun) => number]> = [
+      [
+        'scheduler_job_last_run_duration_seconds',
+        'Duration of the last run of each scheduled job',
+        run => run.durationMs / 1000,
+      ],
+      [
+        'scheduler_job_last_run_success',
+        'Whether the last run of each scheduled job succeeded (1) or failed (0)',
+        run => (run.status === 'success' ? 1 : 0),
+      ],
+      [
+        'scheduler_job_last_run_timestamp_seconds',
+        'Unix time at which the last run of each scheduled job finished',
+        run => new Date(run.finishedAt).getTime() / 1000,
+      ],
+    ];
+
+    // Gauges are filled at scrape time from the shared Redis status
+    const getJobs = () => this.getJobs();
+
+    for (const [name, help, value] of gauges) {
+      new Gauge({
+        name,
+        help,
+        labelNames: ['job'],
+        registers: [this.registry],
+        async collect() {
+          this.reset();
+          for (const job of await getJobs()) {
+            if (job.lastRun) {
+              this.set({ job: job.name }, value(job.lastRun));
+            }
+          }
+        },
+      });
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,435 @@
+import { z } from 'zod';
+import { StockTransfer, StockTransferItem, StockTransferStatus } from '@prisma/client';
+import prisma from '../db/prisma';
+import { InventoryMovementService, emitInventoryLevels } from './inventory-movement.service';
+import { assertManagesStore, managesStore } from './store-access.service';
+
+// Validation schemas
+const transferItemSchema = z.object({
+  productId: z.string().min(1),
+  quantity: z.number().int().min(1),
+});
+
+export const createTransferSchema = z
+  .object({
+    fromStoreId: z.string().uuid(),
+    toStoreId: z.string().uuid(),
+    items: z.array(transferItemSchema).min(1),
+    note: z.string().max(500).optional(),
+  })
+  .refine(data => data.fromStoreId !== data.toStoreId, {
+    message: 'Source and destination stores must differ',
+    path: ['toStoreId'],
+  })
+  .refine(data => new Set(data.items.map(item => item.productId)).size === data.items.length, {
+    message: 'Each product may only appear once',
+    path: ['items'],
+  });
+
+export const dispatchTransferSchema = z.object({
+  // Quantities actually sent; defaults to the requested quantities
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        quantity: z.number().int().min(0),
+      })
+    )
+    .optional(),
+});
+
+export const receiveTransferSchema = z.object({
+  items: z.array(transferItemSchema).min(1),
+  // Close the transfer even though some dispatched units never arrived
+  closeShort: z.boolean().default(false),
+});
+
+export const listTransfersSchema = z.object({
+  storeId: z.string().uuid().optional(),
+  status: z.nativeEnum(StockTransferStatus).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Types
+export interface TransferActor {
+  userId: string;
+  role: string;
+}
+
+export type StockTransferWithItems = StockTransfer & { items: StockTransferItem[] };
+
+// Allowed status changes
+export const TRANSFER_TRANSITIONS: Record<StockTransferStatus, StockTransferStatus[]> = {
+  requested: ['approved', 'cancelled'],
+  approved: ['in_transit', 'cancelled'],
+  in_transit: ['received'],
+  received: [],
+  cancelled: [],
+};
+
+export function canTransitionTransfer(from: StockTransferStatus, to: StockTransferStatus): boolean {
+  return TRANSFER_TRANSITIONS[from].includes(to);
+}
+
+// Service class
+export class StockTransferService {
+  private movementService: InventoryMovementService;
+
+  constructor() {
+    this.movementService = new InventoryMovementService();
+  }
+
+  // Request stock to move between two stores
+  async createTransfer(
+    data: z.infer<typeof createTransferSchema>,
+    actor: TransferActor
+  ): Promise<StockTransferWithItems> {
+    const { fromStoreId, toStoreId, items, note } = data;
+
+    if (!(await managesStore(actor, fromStoreId)) && !(await managesStore(actor, toStoreId))) {
+      throw new Error('Unauthorized');
+    }
+
+    const inventories = await prisma.storeInventory.findMany({
+      where: {
+        storeId: fromStoreId,
+        productId: { in: items.map(item => item.productId) },
+      },
+    });
+
+    const stocked = new Set(inventories.map(inventory => inventory.productId));
+    const missing = items.find(item => !stocked.has(item.productId));
+    if (missing) {
+      throw new Error(`Product ${missing.productId} is not stocked by the source store`);
+    }
+
+    const transfer = await prisma.stockTransfer.create({
+      data: {
+        fromStoreId,
+        toStoreId,
+        note,
+        requestedById: actor.userId,
+        items: {
+          create: items.map(item => ({
+            productId: item.productId,
+            quantityRequested: item.quantity,
+          })),
+        },
+      },
+      include: { items: true },
+    });
+
+    console.log(`[Transfer] Requested transfer ${transfer.id} from ${fromStoreId} to ${toStoreId}`);
+
+    return transfer;
+  }
+
+  // Approve a requested transfer (source store)
+  async approveTransfer(transferId: string, actor: TransferActor): Promise<StockTransferWithItems> {
+    const transfer = await this.getTransferOrThrow(transferId);
+    await assertManagesStore(actor, transfer.fromStoreId);
+
+    return prisma.$transaction(async (tx: any) => {
+      await this.moveStatus(tx, transfer, 'approved', {
+        approvedById: actor.userId,
+        approvedAt: new Date(),
+      });
+
+      return tx.stockTransfer.findUniqueOrThrow({
+        where: { id: transferId },
+        include: { items: true },
+      });
+    });
+  }
+
+  // Ship an approved transfer: stock leaves the source store
+  async dispatchTransfer(
+    transferId: string,
+    data: z.infer<typeof dispatchTransferSchema>,
+    actor: TransferActor
+  ): Promise<StockTransferWithItems> {
+    const transfer = await this.getTransferOrThrow(transferId);
+    await assertManagesStore(actor, transfer.fromStoreId);
+
+    const overrides = new Map((data.items || []).map(item => [item.productId, item.quantity]));
+    for (const productId of overrides.keys()) {
+      if (!transfer.items.some(item => item.productId === productId)) {
+        throw new Error(`Product ${productId} is not part of this transfer`);
+      }
+    }
+
+    const quantities = transfer.items.map(item => ({
+      item,
+      quantity: overrides.get(item.productId) ?? item.quantityRequested,
+    }));
+
+    for (const { item, quantity } of quantities) {
+      if (quantity > item.quantityRequested) {
+        throw new Error(
+          `Cannot dispatch more than requested for product ${item.productId} (${item.quantityRequested})`
+        );
+      }
+    }
+
+    if (quantities.every(({ quantity }) => quantity === 0)) {
+      throw new Error('Nothing to dispatch');
+    }
+
+    const updated = await prisma.$transaction(async (tx: any) => {
+      await this.moveStatus(tx, transfer, 'in_transit', {
+        dispatchedById: actor.userId,
+        dispatchedAt: new Date(),
+      });
+
+      for (const { item, quantity } of quantities) {
+        if (quantity > 0) {
+          // Reserved units stay behind for the orders holding them
+          const movement = await this.movementService.applyChange(tx, {
+            storeId: transfer.fromStoreId,
+            productId: item.productId,
+            reason: 'transfer',
+            quantityDelta: -quantity,
+            requireAvailable: true,
+            actor,
+            note: `Transfer ${transfer.id} to store ${transfer.toStoreId}`,
+          });
+
+          if (!movement) {
+            throw new Error(`Insufficient stock to dispatch product ${item.productId}`);
+          }
+        }
+
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: { quantityDispatched: quantity },
+        });
+      }
+
+      return tx.stockTransfer.findUniqueOrThrow({
+        where: { id: transferId },
+        include: { items: true },
+      });
+    });
+
+    console.log(`[Transfer] Dispatched transfer ${transferId}`);
+    await emitInventoryLevels(
+      quantities
+        .filter(({ quantity }) => quantity > 0)
+        .map(({ item }) => ({ storeId: transfer.fromStoreId, productId: item.productId }))
+    );
+
+    return updated;
+  }
+
+  // Record a (possibly partial) receipt: stock arrives at the destination store.
+  // The transfer is received once everything dispatched has arrived, or when
+  // the receiver closes it short.
+  async receiveTransfer(
+    transferId: string,
+    data: z.infer<typeof receiveTransferSchema>,
+    actor: TransferActor
+  ): Promise<StockTransferWithItems> {
+    const transfer = await this.getTransferOrThrow(transferId);
+    await assertManagesStore(actor, transfer.toStoreId);
+
+    const updated = await prisma.$transaction(async (tx: any) => {
+      // Serialize concurrent receipts of the same transfer
+      await tx.$queryRaw`
+        SELECT "id" FROM "backend"."stock_transfers" WHERE "id" = ${transferId} FOR UPDATE
+      `;
+
+      const current: StockTransferWithItems = await tx.stockTransfer.findUniqueOrThrow({
+        where: { id: transferId },
+        include: { items: true },
+      });
+
+      if (current.status !== 'in_transit') {
+        throw new Error(`Cannot receive a transfer that is ${current.status}`);
+      }
+
+      for (const received of data.items) {
+        const item = current.items.find(i => i.productId === received.productId);
+        if (!item) {
+          throw new Error(`Product ${received.productId} is not part of this transfer`);
+        }
+
+        const outstanding = item.quantityDispatched - item.quantityReceived;
+        if (received.quantity > outstanding) {
+          throw new Error(
+            `Only ${outstanding} units of product ${item.productId} are still in transit`
+          );
+        }
+
+        // The destination may not stock the product yet
+        await tx.storeInventory.upsert({
+          where: {
+            storeId_productId: { storeId: current.toStoreId, productId: item.productId },
+          },
+          update: {},
+          create: {
+            storeId: current.toStoreId,
+            productId: item.productId,
+            quantityAvailable: 0,
+            reservedQuantity: 0,
+          },
+        });
+
+        await this.movementService.applyChange(tx, {
+          storeId: current.toStoreId,
+          productId: item.productId,
+          reason: 'transfer',
+          quantityDelta: received.quantity,
+          actor,
+          note: `Transfer ${current.id} from store ${current.fromStoreId}`,
+        });
+
+        item.quantityReceived += received.quantity;
+        await tx.stockTransferItem.update({
+          where: { id: item.id },
+          data: { quantityReceived: item.quantityReceived },
+        });
+      }
+
+      const complete = current.items.every(
+        item => item.quantityReceived >= item.quantityDispatched
+      );
+
+      if (complete || data.closeShort) {
+        await this.moveStatus(tx, current, 'received', {
+          receivedById: actor.userId,
+          receivedAt: new Date(),
+        });
+      }
+
+      return tx.stockTransfer.findUniqueOrThrow({
+        where: { id: transferId },
+        include: { items: true },
+      });
+    });
+
+    console.log(`[Transfer] Received items for transfer ${transferId} (${updated.status})`);
+    await emitInventoryLevels(
+      data.items.map(item => ({ storeId: transfer.toStoreId, productId: item.productId }))
+    );
+
+    return updated;
+  }
+
+  // Cancel a transfer before it ships
+  async cancelTransfer(transferId: string, actor: TransferActor): Promise<StockTransferWithItems> {
+    const transfer = await this.getTransferOrThrow(transferId);
+
+    if (
+      transfer.requestedById !== actor.userId &&
+      !(await managesStore(actor, transfer.fromStoreId)) &&
+      !(await managesStore(actor, transfer.toStoreId))
+    ) {
+      throw new Error('Unauthorized');
+    }
+
+    return prisma.$transaction(async (tx: any) => {
+      await this.moveStatus(tx, transfer, 'cancelled', {
+        cancelledById: actor.userId,
+        cancelledAt: new Date(),
+      });
+
+      return tx.stockTransfer.findUniqueOrThrow({
+        where: { id: transferId },
+        include: { items: true },
+      });
+    });
+  }
+
+  // Get a transfer visible to the actor
+  async getTransfer(transferId: string, actor: TransferActor): Promise<StockTransferWithItems> {
+    const transfer = await this.getTransferOrThrow(transferId);
+
+    if (
+      !(await managesStore(actor, transfer.fromStoreId)) &&
+      !(await managesStore(actor, transfer.toStoreId))
+    ) {
+      throw new Error('Unauthorized');
+    }
+
+    return transfer;
+  }
+
+  // List transfers in or out of the stores the actor manages
+  async listTransfers(
+    query: z.infer<typeof listTransfersSchema>,
+    actor: TransferActor
+  ): Promise<{ transfers: StockTransferWithItems[]; total: number }> {
+    let storeIds: string[] | undefined;
+
+    if (actor.role !== 'admin') {
+      const managed = await prisma.storeManager.findMany({
+        where: { userId: actor.userId, isActive: true },
+        select: { storeId: true },
+      });
+      storeIds = managed.map(manager => manager.storeId);
+
+      if (query.storeId && !storeIds.includes(query.storeId)) {
+        throw new Error('Unauthorized');
+      }
+    }
+
+    if (query.storeId) {
+      storeIds = [query.storeId];
+    }
+
+    const where = {
+      ...(storeIds && {
+        OR: [{ fromStoreId: { in: storeIds } }, { toStoreId: { in: storeIds } }],
+      }),
+      ...(query.status && { status: query.status }),
+    };
+
+    const [transfers, total] = await Promise.all([
+      prisma.stockTransfer.findMany({
+        where,
+        include: { items: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.stockTransfer.count({ where }),
+    ]);
+
+    return { transfers, total };
+  }
+
+  // Guarded status change: fails if another request moved the transfer first
+  private async moveStatus(
+    tx: any,
+    transfer: StockTransfer,
+    status: StockTransferStatus,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    if (!canTransitionTransfer(transfer.status, status)) {
+      throw new Error(`Cannot move transfer from ${transfer.status} to ${status}`);
+    }
+
+    const { count } = await tx.stockTransfer.updateMany({
+      where: { id: transfer.id, status: transfer.status },
+      data: { status, ...data },
+    });
+
+    if (count === 0) {
+      throw new Error('Transfer was updated by another request, please retry');
+    }
+  }
+
+  private async getTransferOrThrow(transferId: string): Promise<StockTransferWithItems> {
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id: transferId },
+      include: { items: true },
+    });
+
+    if (!transfer) {
+      throw new Error('Transfer not found');
+    }
+
+    return transfer;
+  }
+}
@@ -0,0 +1,26 @@
+import prisma from '../db/prisma';
+
+// Types
+export interface StoreActor {
+  userId: string;
+  role: string;
+}
+
+// Whether the actor is an admin or an active manager of the store
+export async function managesStore(actor: StoreActor, storeId: string): Promise<boolean> {
+  if (actor.role === 'admin') {
+    return true;
+  }
+
+  const manager = await prisma.storeManager.findFirst({
+    where: { userId: actor.userId, storeId, isActive: true },
+  });
+
+  return !!manager;
+}
+
+export async function assertManagesStore(actor: StoreActor, storeId: string): Promise<void> {
+  if (!(await managesStore(actor, storeId))) {
+    throw new Error('Unauthorized');
+  }
+}
@@ -1,6 +1,13 @@
 import { z } from 'zod';
 import prisma from '../db/prisma';
-import { Store, StoreInventory } from '@prisma/client';
+import { Prisma, Store, StoreInventory } from '@prisma/client';
+import { buildDeliversToPointSql } from './delivery.service';
+import { OpeningHours, getOpenStatus, parseLocalDate } from './opening-hours.service';
+import {
+  SlotAvailability,
+  TimeSlotService,
+  slotAvailabilityQuerySchema,
+} from './time-slot.service';
 
 // Validation schemas
 export const nearbyStoresSchema = z.object({
@@ -8,95 +15,172 @@ export const nearbyStoresSchema = z.object({
   longitude: z.number().min(-180).max(180),
   radius: z.number().min(0.1).max(100).default(10), // km
   limit: z.number().min(1).max(50).default(20),
+  page: z.number().int().min(1).default(1),
+  // Only stores open at the time of the search
+  openNow: z.boolean().default(false),
+  // Only stores whose delivery area covers the search point
+  deliversHere: z.boolean().default(false),
+  // Only stores with unreserved stock of this product
+  productId: z.string().min(1).optional(),
 });
 
-export const storeAvailabilitySchema = z.object({
+export const storeAvailabilitySchema = slotAvailabilityQuerySchema.extend({
   storeId: z.string().uuid(),
 });
 
 // Types
 export interface StoreWithDistance extends Store {
-  distance?: number;
+  distance?: number; // km
+  isOpen?: boolean;
+}
+
+export interface NearbyStoresPage {
+  stores: StoreWithDistance[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+interface NearbyStoreRow {
+  id: string;
+  openingHours: Prisma.JsonValue;
+  timezone: string;
+  distance: number;
+  total: number;
 }
 
 export interface StoreAvailability {
+  timezone: string;
   isOpen: boolean;
+  // ISO timestamps; absent when the store stays closed for the next two weeks
   nextOpenTime?: string;
   nextCloseTime?: string;
   deliveryAvailable: boolean;
   estimatedDeliveryTime?: number; // minutes
+  // Orders booked and total capacity across the listed day's slots
   currentCapacity?: number;
   maxCapacity?: number;
+  slots: SlotAvailability[];
 }
 
 export interface StoreWithInventory extends Store {
   inventory?: StoreInventory[];
 }
 
+// Open-now searches check opening hours here, over at most this many of the
+// nearest matching stores
+export const OPEN_NOW_CANDIDATE_LIMIT = 500;
+
+// WHERE conditions of a nearby search over stores aliased "s": active, in
+// the radius, and any delivery and stock filters
+export function buildNearbyStoresWhere(
+  params: Pick<
+    z.infer<typeof nearbyStoresSchema>,
+    'latitude' | 'longitude' | 'radius' | 'deliversHere' | 'productId'
+  >
+): Prisma.Sql {
+  const { latitude, longitude, radius, deliversHere, productId } = params;
+  const point = Prisma.sql`public.ST_SetSRID(public.ST_MakePoint(${longitude}, ${latitude}), 4326)`;
+
+  const conditions = [
+    Prisma.sql`s."isActive" = true`,
+    Prisma.sql`public.ST_DWithin(s."location", ${point}::public.geography, ${radius * 1000})`,
+  ];
+
+  if (deliversHere) {
+    conditions.push(buildDeliversToPointSql(point));
+  }
+
+  if (productId) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "backend"."store_inventory" i
+      WHERE i."storeId" = s."id" AND i."productId" = ${productId}
+        AND i."isAvailable" = true AND i."quantityAvailable" - i."reservedQuantity" > 0
+    )`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+// The page of a nearby search to return and the number of matches. Rows come
+// already paged by Postgres, or, with the open-now filter, as the nearest
+// matching stores to filter and page here. Total is null when Postgres returned
+// an empty page and so couldn't count the matches.
+export function pageNearbyStores<T extends { isOpen: boolean; total: number }>(
+  rows: T[],
+  options: { page: number; limit: number; openNow: boolean }
+): { pageRows: T[]; total: number | null } {
+  const { page, limit, openNow } = options;
+
+  if (!openNow) {
+    return { pageRows: rows, total: rows.length > 0 ? rows[0].total : page > 1 ? null : 0 };
+  }
+
+  const matching = rows.filter(row => row.isOpen);
+  return {
+    pageRows: matching.slice((page - 1) * limit, page * limit),
+    total: matching.length,
+  };
+}
+
 // Service class
 export class StoreService {
-  // Calculate distance between two points using Haversine formula
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) *
-        Math.cos(this.toRadians(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
+  private timeSlotService: TimeSlotService;
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  constructor() {
+    this.timeSlotService = new TimeSlotService();
   }
 
-  // Get nearby stores with geospatial filtering
-  async getNearbyStores(params: z.infer<typeof nearbyStoresSchema>): Promise<StoreWithDistance[]> {
-    const { latitude, longitude, radius, limit } = params;
+  // Stores within a radius, nearest first by straight-line distance, searched
+  // in Postgres on the stores' PostGIS location. Open-now depends on each
+  // store's timezone and hours, so that filter runs here over the nearest
+  // OPEN_NOW_CANDIDATE_LIMIT matching stores.
+  async getNearbyStores(params: z.infer<typeof nearbyStoresSchema>): Promise<NearbyStoresPage> {
+    const { latitude, longitude, limit, page, openNow } = params;
+    const point = Prisma.sql`public.ST_SetSRID(public.ST_MakePoint(${longitude}, ${latitude}), 4326)`;
+    const where = buildNearbyStoresWhere(params);
+
+    // Without the open-now filter Postgres pages the results itself
+    const pageClause = openNow
+      ? Prisma.sql`LIMIT ${OPEN_NOW_CANDIDATE_LIMIT}`
+      : Prisma.sql`LIMIT ${limit} OFFSET ${(page - 1) * limit}`;
+
+    const rows: NearbyStoreRow[] = await prisma.$queryRaw`
+      SELECT s."id", s."openingHours", s."timezone",
+        public.ST_Distance(s."location", ${point}::public.geography) / 1000 AS "distance",
+        COUNT(*) OVER ()::int AS "total"
+      FROM "backend"."stores" s
+      WHERE ${where}
+      ORDER BY "distance" ASC, s."id" ASC
+      ${pageClause}
+    `;
 
-    // First, get stores within a bounding box for performance
-    // This is a rough approximation - for production, consider using PostGIS
-    const latDelta = radius / 111; // Rough conversion: 1 degree ≈ 111 km
-    const lonDelta = radius / (111 * Math.cos(this.toRadians(latitude)));
+    const now = new Date();
+    const { pageRows, total } = pageNearbyStores(
+      rows.map(row => ({
+        ...row,
+        isOpen: getOpenStatus(row.openingHours as OpeningHours | null, row.timezone, now).isOpen,
+      })),
+      { page, limit, openNow }
+    );
 
     const stores = await prisma.store.findMany({
-      where: {
-        isActive: true,
-        latitude: {
-          gte: latitude - latDelta,
-          lte: latitude + latDelta,
-        },
-        longitude: {
-          gte: longitude - lonDelta,
-          lte: longitude + lonDelta,
-        },
-      },
-      take: limit * 2, // Get more than needed for accurate filtering
+      where: { id: { in: pageRows.map(row => row.id) } },
     });
+    const storesById = new Map(stores.map(store => [store.id, store]));
 
-    // Calculate exact distances and filter by radius
-    const storesWithDistance = stores
-      .map((store: any) => {
-        const distance = this.calculateDistance(
-          latitude,
-          longitude,
-          store.latitude,
-          store.longitude
-        );
-        return {
-          ...store,
-          distance,
-        };
-      })
-      .filter((store: any) => store.distance <= radius)
-      .sort((a: any, b: any) => a.distance! - b.distance!)
-      .slice(0, limit);
-
-    return storesWithDistance;
+    return {
+      stores: pageRows
+        .filter(row => storesById.has(row.id))
+        .map(row => ({
+          ...storesById.get(row.id)!,
+          distance: Math.round(Number(row.distance) * 1000) / 1000,
+          isOpen: row.isOpen,
+        })),
+      total: total ?? (await this.countNearbyStores(where)),
+      page,
+      limit,
+    };
   }
 
   // Get store by ID
@@ -121,76 +205,59 @@ export class StoreService {
     return store;
   }
 
-  // Check store availability
-  async getStoreAvailability(storeId: string): Promise<StoreAvailability> {
+  // Check store availability, with the pickup and delivery slots of a day
+  // (today unless a YYYY-MM-DD date is given)
+  async getStoreAvailability(
+    storeId: string,
+    options: z.infer<typeof slotAvailabilityQuerySchema> = {}
+  ): Promise<StoreAvailability> {
     const store = await prisma.store.findUnique({
       where: { id: storeId },
+      include: { deliveryZones: { where: { isActive: true }, select: { id: true } } },
     });
 
     if (!store) {
       throw new Error('Store not found');
     }
 
+    // Opening hours are in the store's timezone, whatever the server's is
     const now = new Date();
-    const currentHour = now.getHours();
-    const currentMinute = now.getMinutes();
-    const currentTime = currentHour * 60 + currentMinute;
-
-    // Parse opening hours (assuming 24-hour format)
-    const openingHours = store.openingHours as any;
-    const today = now.toLocaleDateString('en-US', { weekday: 'short' }).toLowerCase(); // 'mon', 'tue', etc.
-    const todayHours = openingHours?.[today];
-
-    let isOpen = false;
-    let nextOpenTime: string | undefined;
-    let nextCloseTime: string | undefined;
-
-    if (todayHours) {
-      const openTime = this.parseTime(todayHours.open);
-      const closeTime = this.parseTime(todayHours.close);
-
-      if (openTime <= closeTime) {
-        // Normal hours (e.g., 8:00 - 22:00)
-        isOpen = currentTime >= openTime && currentTime <= closeTime;
-        nextOpenTime = todayHours.open;
-        nextCloseTime = todayHours.close;
-      } else {
-        // Overnight hours (e.g., 22:00 - 06:00)
-        isOpen = currentTime >= openTime || currentTime <= closeTime;
-        nextOpenTime = todayHours.open;
-        nextCloseTime = todayHours.close;
-      }
-    }
+    const status = getOpenStatus(store.openingHours as OpeningHours | null, store.timezone, now);
+    const isOpen = status.isOpen;
 
-    // Check if delivery is available (simplified logic)
-    const deliveryAvailable = isOpen && store.deliveryRadius > 0;
+    // Whether the store delivers at all; whether it delivers to a given
+    // address is answered by the delivery quote
+    const deliveryAvailable =
+      isOpen && (store.deliveryRadius > 0 || store.deliveryZones.length > 0);
 
     // Estimate delivery time (simplified)
     const estimatedDeliveryTime = deliveryAvailable
       ? 30 + Math.floor(Math.random() * 30)
       : undefined;
 
-    // Mock capacity data (in production, this would come from real-time data)
-    const currentCapacity = Math.floor(Math.random() * 50) + 20;
-    const maxCapacity = 100;
+    const slots = await this.timeSlotService.getDaySlots(
+      storeId,
+      options.date ? parseLocalDate(options.date) : undefined,
+      options.deliveryType
+    );
+    const currentCapacity =
+      slots.length > 0 ? slots.reduce((sum, slot) => sum + slot.booked, 0) : undefined;
+    const maxCapacity =
+      slots.length > 0 ? slots.reduce((sum, slot) => sum + slot.capacity, 0) : undefined;
 
     return {
+      timezone: store.timezone,
       isOpen,
-      nextOpenTime,
-      nextCloseTime,
+      nextOpenTime: status.nextOpenAt?.toISOString(),
+      nextCloseTime: status.nextCloseAt?.toISOString(),
       deliveryAvailable,
       estimatedDeliveryTime,
       currentCapacity,
       maxCapacity,
+      slots,
     };
   }
 
-  // Parse time string (e.g., "08:00") to minutes since midnight
-  private parseTime(timeStr: string): number {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    return hours * 60 + minutes;
-  }
-
   // Get store statistics
   async getStoreStats(storeId: string): Promise<{
     totalProducts: number;
@@ -266,7 +333,8 @@ export class StoreService {
       longitude?: number;
       phone?: string;
       email?: string;
-      openingHours?: any;
+      openingHours?: OpeningHours;
+      timezone?: string;
       deliveryRadius?: number;
       minOrderAmount?: number;
       isActive?: boolean;
@@ -291,7 +359,8 @@ export class StoreService {
     longitude: number;
     phone?: string;
     email?: string;
-    openingHours?: any;
+    openingHours?: OpeningHours;
+    timezone?: string;
     deliveryRadius?: number;
     minOrderAmount?: number;
   }): Promise<Store> {
@@ -303,4 +372,13 @@ export class StoreService {
       },
     });
   }
+
+  // Stores matching a nearby search, for pages past the last result
+  private async countNearbyStores(where: Prisma.Sql): Promise<number> {
+    const [{ total }]: { total: number }[] = await prisma.$queryRaw`
+      SELECT COUNT(*)::int AS "total" FROM "backend"."stores" s WHERE ${where}
+    `;
+
+    return total;
+  }
 }
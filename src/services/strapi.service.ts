@@ -1,6 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { z } from 'zod';
 import prisma from '../db/prisma';
+import { toPromotionRecord } from './promotion.service';
 
 // Strapi API response schemas
 const strapiProductSchema = z.object({
@@ -83,6 +84,10 @@ const strapiPromotionSchema = z.object({
     endDate: z.string(),
     applicableProducts: z.array(z.number()).optional(),
     applicableCategories: z.array(z.number()).optional(),
+    usageLimit: z.number().int().optional(),
+    perUserLimit: z.number().int().optional(),
+    stackable: z.boolean().optional(),
+    priority: z.number().int().optional(),
     createdAt: z.string(),
     updatedAt: z.string(),
   }),
@@ -415,10 +420,38 @@ export class StrapiService {
     return all;
   }
 
+  // Fetch every banner from Strapi, inactive ones included, paginated
+  async fetchAllBanners(pageSize: number = 100): Promise<StrapiBanner[]> {
+    return this.fetchAllEntries<StrapiBanner>('/api/banners', pageSize);
+  }
+
+  // Fetch every promotion from Strapi, inactive and expired ones included, paginated
+  async fetchAllPromotions(pageSize: number = 100): Promise<StrapiPromotion[]> {
+    return this.fetchAllEntries<StrapiPromotion>('/api/promotions', pageSize);
+  }
+
+  // Page through a collection without the active/date filters of the getters,
+  // so reconciliation also sees what was switched off
+  private async fetchAllEntries<T>(endpoint: string, pageSize: number): Promise<T[]> {
+    let all: T[] = [];
+    let currentPage = 1;
+    let totalPages = 1;
+    do {
+      const resp = await this.fetchWithCache<StrapiApiResponse<T>>(
+        endpoint,
+        { 'pagination[page]': currentPage, 'pagination[pageSize]': pageSize },
+        false
+      );
+      all = all.concat(resp.data);
+      totalPages = resp.meta.pagination.pageCount;
+      currentPage++;
+    } while (currentPage <= totalPages);
+    return all;
+  }
+
   // Reconcile all records for a given model (products, categories, etc.)
   async reconcileAll(model: 'products' | 'categories' | 'banners' | 'promotions') {
-    // Placeholder: implement paging through Strapi and upserting into Postgres
-    // Example for products:
+    // Page through Strapi and upsert every record into Postgres
     if (model === 'products') {
       const products = await this.fetchAllProducts();
       for (const product of products) {
@@ -473,7 +506,57 @@ export class StrapiService {
         });
       }
     }
-    // TODO: Add banners and promotions
+    if (model === 'banners') {
+      const banners = await this.fetchAllBanners();
+      for (const banner of banners) {
+        const record = {
+          title: banner.attributes.title,
+          description: banner.attributes.description || null,
+          image: banner.attributes.image,
+          link: banner.attributes.link || null,
+          isActive: banner.attributes.isActive,
+          startDate: banner.attributes.startDate ? new Date(banner.attributes.startDate) : null,
+          endDate: banner.attributes.endDate ? new Date(banner.attributes.endDate) : null,
+        };
+        await prisma.banner.upsert({
+          where: { strapiId: banner.id },
+          update: { ...record, updatedAt: new Date(banner.attributes.updatedAt) },
+          create: {
+            strapiId: banner.id,
+            ...record,
+            createdAt: new Date(banner.attributes.createdAt),
+            updatedAt: new Date(banner.attributes.updatedAt),
+          },
+        });
+      }
+      // Banners deleted in Strapi stop showing
+      await prisma.banner.updateMany({
+        where: { strapiId: { notIn: banners.map(banner => banner.id) } },
+        data: { isActive: false },
+      });
+    }
+    if (model === 'promotions') {
+      const promotions = await this.fetchAllPromotions();
+      for (const promotion of promotions) {
+        const record = toPromotionRecord(promotion.attributes);
+        await prisma.promotion.upsert({
+          where: { strapiId: promotion.id },
+          update: { ...record, updatedAt: new Date(promotion.attributes.updatedAt) },
+          create: {
+            strapiId: promotion.id,
+            ...record,
+            createdAt: new Date(promotion.attributes.createdAt),
+            updatedAt: new Date(promotion.attributes.updatedAt),
+          },
+        });
+      }
+      // Promotions deleted in Strapi stop validating; redemptions keep their rows.
+      // Promotions created here (no strapiId) are not Strapi's to remove.
+      await prisma.promotion.updateMany({
+        where: { strapiId: { not: null, notIn: promotions.map(promotion => promotion.id) } },
+        data: { isActive: false },
+      });
+    }
     await prisma.$executeRaw`INSERT INTO "backend"."sync_meta" (model, lastSyncedAt)
       VALUES (${model}, NOW())
       ON CONFLICT (model) DO UPDATE SET lastSyncedAt = EXCLUDED.lastSyncedAt;`;
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import { TaxExemption, TaxRate, TaxZone } from '@prisma/client';
+import prisma from '../db/prisma';
+
+// Validation schemas
+export const createTaxZoneSchema = z.object({
+  name: z.string().min(1).max(100),
+  country: z.string().min(2).max(56),
+  state: z.string().min(1).max(56).optional(),
+  zipCodePrefix: z.string().min(1).max(10).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateTaxZoneSchema = createTaxZoneSchema.partial();
+
+export const createTaxRateSchema = z
+  .object({
+    rate: z.number().min(0).max(1),
+    effectiveFrom: z.string().datetime(),
+    effectiveTo: z.string().datetime().optional(),
+  })
+  .refine(data => !data.effectiveTo || data.effectiveTo > data.effectiveFrom, {
+    message: 'effectiveTo must be after effectiveFrom',
+    path: ['effectiveTo'],
+  });
+
+export const taxExemptionSchema = z.object({
+  categoryId: z.string().min(1),
+});
+
+// Types
+export interface TaxLocation {
+  country: string | null;
+  state: string | null;
+  zipCode: string | null;
+}
+
+// What the pricing pipeline needs to tax a store's lines
+export interface TaxContext {
+  zoneId: string | null;
+  zoneName: string | null;
+  // null when no zone applies; pricing then uses its default rate
+  rate: number | null;
+  exemptCategoryIds: string[];
+}
+
+export type TaxZoneWithRules = TaxZone & { rates: TaxRate[]; exemptions: TaxExemption[] };
+
+type ZoneKey = Pick<TaxZone, 'country' | 'state' | 'zipCodePrefix' | 'isActive'>;
+type RateWindow = Pick<TaxRate, 'effectiveFrom' | 'effectiveTo'>;
+
+const NO_ZONE: TaxContext = { zoneId: null, zoneName: null, rate: null, exemptCategoryIds: [] };
+
+function normalize(value: string | null | undefined): string | null {
+  const trimmed = value?.trim().toUpperCase();
+  return trimmed ? trimmed : null;
+}
+
+// Most specific active zone for a location: a ZIP prefix match beats a state
+// match, which beats a country-wide zone; longer prefixes beat shorter ones
+export function matchTaxZone<T extends ZoneKey>(zones: T[], location: TaxLocation): T | null {
+  const country = normalize(location.country);
+  const state = normalize(location.state);
+  const zipCode = normalize(location.zipCode)?.replace(/\s+/g, '') || null;
+
+  let best: T | null = null;
+  let bestScore = -1;
+
+  for (const zone of zones) {
+    if (!zone.isActive || normalize(zone.country) !== country) continue;
+
+    const zoneState = normalize(zone.state);
+    const prefix = normalize(zone.zipCodePrefix)?.replace(/\s+/g, '') || null;
+
+    if (zoneState && zoneState !== state) continue;
+    if (prefix && !zipCode?.startsWith(prefix)) continue;
+
+    const score = (prefix ? 10 * (prefix.length + 1) : 0) + (zoneState ? 1 : 0);
+    if (score > bestScore) {
+      best = zone;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Rate in force at a moment: the latest one that started at or before it and
+// has not ended yet
+export function selectEffectiveRate<T extends RateWindow>(rates: T[], at: Date): T | null {
+  return rates
+    .filter(rate => rate.effectiveFrom <= at && (!rate.effectiveTo || rate.effectiveTo > at))
+    .reduce<T | null>(
+      (latest, rate) => (!latest || rate.effectiveFrom > latest.effectiveFrom ? rate : latest),
+      null
+    );
+}
+
+// Whether two rate windows share any moment; open-ended windows never end
+export function ratesOverlap(a: RateWindow, b: RateWindow): boolean {
+  const aEnds = a.effectiveTo ? a.effectiveTo.getTime() : Infinity;
+  const bEnds = b.effectiveTo ? b.effectiveTo.getTime() : Infinity;
+  return a.effectiveFrom.getTime() < bEnds && b.effectiveFrom.getTime() < aEnds;
+}
+
+// Service class
+export class TaxService {
+  // Zone, rate and exemptions that apply to a store at a moment
+  async getTaxContext(storeId: string, at: Date = new Date()): Promise<TaxContext> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { country: true, state: true, zipCode: true },
+    });
+
+    if (!store?.country) {
+      return NO_ZONE;
+    }
+
+    const zones = await prisma.taxZone.findMany({
+      where: { isActive: true, country: { equals: store.country.trim(), mode: 'insensitive' } },
+      include: { rates: true, exemptions: true },
+    });
+
+    const zone = matchTaxZone(zones, store);
+    if (!zone) {
+      return NO_ZONE;
+    }
+
+    const rate = selectEffectiveRate(zone.rates, at);
+    if (!rate) {
+      console.warn(`[Tax] Zone ${zone.name} has no rate in force, using the default rate`);
+    }
+
+    return {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      rate: rate ? Number(rate.rate) : null,
+      exemptCategoryIds: zone.exemptions.map(exemption => exemption.categoryId),
+    };
+  }
+
+  // List zones with their rates and exemptions
+  async listZones(): Promise<TaxZoneWithRules[]> {
+    return prisma.taxZone.findMany({
+      include: {
+        rates: { orderBy: { effectiveFrom: 'desc' } },
+        exemptions: true,
+      },
+      orderBy: [{ country: 'asc' }, { state: 'asc' }, { zipCodePrefix: 'asc' }],
+    });
+  }
+
+  async createZone(data: z.infer<typeof createTaxZoneSchema>): Promise<TaxZone> {
+    return prisma.taxZone.create({
+      data: {
+        ...data,
+        country: data.country.trim().toUpperCase(),
+        state: normalize(data.state),
+        zipCodePrefix: normalize(data.zipCodePrefix),
+      },
+    });
+  }
+
+  async updateZone(zoneId: string, data: z.infer<typeof updateTaxZoneSchema>): Promise<TaxZone> {
+    await this.getZoneOrThrow(zoneId);
+
+    return prisma.taxZone.update({
+      where: { id: zoneId },
+      data: {
+        ...data,
+        ...(data.country !== undefined && { country: data.country.trim().toUpperCase() }),
+        ...(data.state !== undefined && { state: normalize(data.state) }),
+        ...(data.zipCodePrefix !== undefined && { zipCodePrefix: normalize(data.zipCodePrefix) }),
+      },
+    });
+  }
+
+  // Add a rate. An open-ended rate that started earlier is closed when the new
+  // one takes effect; any other overlap is rejected.
+  async addRate(zoneId: string, data: z.infer<typeof createTaxRateSchema>): Promise<TaxRate> {
+    await this.getZoneOrThrow(zoneId);
+
+    const window = {
+      effectiveFrom: new Date(data.effectiveFrom),
+      effectiveTo: data.effectiveTo ? new Date(data.effectiveTo) : null,
+    };
+
+    return prisma.$transaction(async (tx: any) => {
+      await tx.taxRate.updateMany({
+        where: { zoneId, effectiveTo: null, effectiveFrom: { lt: window.effectiveFrom } },
+        data: { effectiveTo: window.effectiveFrom },
+      });
+
+      const existing: TaxRate[] = await tx.taxRate.findMany({ where: { zoneId } });
+      if (existing.some(rate => ratesOverlap(rate, window))) {
+        throw new Error('Tax rate overlaps an existing rate');
+      }
+
+      return tx.taxRate.create({
+        data: { zoneId, rate: data.rate, ...window },
+      });
+    });
+  }
+
+  // Exempt a product category from tax in a zone
+  async addExemption(zoneId: string, categoryId: string): Promise<TaxExemption> {
+    await this.getZoneOrThrow(zoneId);
+
+    const category = await prisma.category.findUnique({ where: { id: categoryId } });
+    if (!category) {
+      throw new Error('Category not found');
+    }
+
+    return prisma.taxExemption.upsert({
+      where: { zoneId_categoryId: { zoneId, categoryId } },
+      update: {},
+      create: { zoneId, categoryId },
+    });
+  }
+
+  async removeExemption(zoneId: string, categoryId: string): Promise<void> {
+    await this.getZoneOrThrow(zoneId);
+
+    await prisma.taxExemption.deleteMany({
+      where: { zoneId, categoryId },
+    });
+  }
+
+  private async getZoneOrThrow(zoneId: string): Promise<TaxZone> {
+    const zone = await prisma.taxZone.findUnique({ where: { id: zoneId } });
+
+    if (!zone) {
+      throw new Error('Tax zone not found');
+    }
+
+    return zone;
+  }
+}
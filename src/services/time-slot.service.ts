@@ -0,0 +1,292 @@
+import { z } from 'zod';
+import { DeliveryType, StoreSlotTemplate, TimeSlot } from '@prisma/client';
+import prisma from '../db/prisma';
+import {
+  LocalDate,
+  OpeningHours,
+  addDays,
+  daysBetween,
+  getOpenIntervals,
+  toLocalDate,
+} from './opening-hours.service';
+import { assertManagesStore } from './store-access.service';
+
+// Validation schemas
+export const slotTemplatesSchema = z.object({
+  templates: z
+    .array(
+      z.object({
+        deliveryType: z.nativeEnum(DeliveryType),
+        slotMinutes: z.number().int().min(5).max(240).default(30),
+        capacity: z.number().int().min(1).max(1000),
+        leadMinutes: z.number().int().min(0).max(2880).default(60),
+        daysAhead: z.number().int().min(1).max(30).default(7),
+        isActive: z.boolean().default(true),
+      })
+    )
+    .max(2)
+    .refine(
+      templates =>
+        new Set(templates.map(template => template.deliveryType)).size === templates.length,
+      'Each template needs a different deliveryType'
+    ),
+});
+
+export const slotAvailabilityQuerySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+    .optional(),
+  deliveryType: z.nativeEnum(DeliveryType).optional(),
+});
+
+// Types
+export interface SlotActor {
+  userId: string;
+  role: string;
+}
+
+export interface SlotWindow {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface SlotAvailability extends SlotWindow {
+  deliveryType: DeliveryType;
+  capacity: number;
+  booked: number;
+  remaining: number;
+  // Has room, is past the lead time and within the booking horizon
+  available: boolean;
+}
+
+export type SlotTemplateInput = z.infer<typeof slotTemplatesSchema>['templates'][number];
+
+const MINUTE_MS = 60 * 1000;
+
+// Cut an opening window into back-to-back slots; a trailing piece shorter
+// than a slot is dropped
+export function buildSlots(window: SlotWindow, slotMinutes: number): SlotWindow[] {
+  const slots: SlotWindow[] = [];
+  const length = slotMinutes * MINUTE_MS;
+
+  for (
+    let start = window.startsAt.getTime();
+    start + length <= window.endsAt.getTime();
+    start += length
+  ) {
+    slots.push({ startsAt: new Date(start), endsAt: new Date(start + length) });
+  }
+
+  return slots;
+}
+
+// Whether a slot can still be booked: it has room, starts after the lead
+// time and falls within the days the template opens for booking, counted
+// in the store's timezone
+export function isSlotBookable(
+  slot: SlotWindow & { booked: number },
+  template: Pick<StoreSlotTemplate, 'capacity' | 'leadMinutes' | 'daysAhead'>,
+  now: Date,
+  timezone: string
+): boolean {
+  const daysOut = daysBetween(toLocalDate(now, timezone), toLocalDate(slot.startsAt, timezone));
+
+  return (
+    slot.booked < template.capacity &&
+    slot.startsAt.getTime() >= now.getTime() + template.leadMinutes * MINUTE_MS &&
+    daysOut < template.daysAhead
+  );
+}
+
+// Service class
+export class TimeSlotService {
+  // Get a store's slot templates
+  async getTemplates(storeId: string, actor: SlotActor): Promise<StoreSlotTemplate[]> {
+    await assertManagesStore(actor, storeId);
+
+    return prisma.storeSlotTemplate.findMany({
+      where: { storeId },
+      orderBy: { deliveryType: 'asc' },
+    });
+  }
+
+  // Replace a store's slot templates as a whole. Slots already booked keep
+  // their orders; new capacity applies to later bookings.
+  async replaceTemplates(
+    storeId: string,
+    templates: SlotTemplateInput[],
+    actor: SlotActor
+  ): Promise<StoreSlotTemplate[]> {
+    await assertManagesStore(actor, storeId);
+
+    return prisma.$transaction(async (tx: any) => {
+      await tx.storeSlotTemplate.deleteMany({ where: { storeId } });
+      await tx.storeSlotTemplate.createMany({
+        data: templates.map(template => ({ storeId, ...template })),
+      });
+
+      return tx.storeSlotTemplate.findMany({
+        where: { storeId },
+        orderBy: { deliveryType: 'asc' },
+      });
+    });
+  }
+
+  // A day's slots for each active template, with what is left in each. The
+  // day is a date in the store's timezone, today when not given.
+  async getDaySlots(
+    storeId: string,
+    date?: LocalDate,
+    deliveryType?: DeliveryType
+  ): Promise<SlotAvailability[]> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      include: {
+        slotTemplates: { where: { isActive: true, ...(deliveryType && { deliveryType }) } },
+      },
+    });
+
+    if (!store) {
+      throw new Error('Store not found');
+    }
+
+    const now = new Date();
+    const windows = getOpenIntervals(
+      store.openingHours as OpeningHours | null,
+      store.timezone,
+      date || toLocalDate(now, store.timezone)
+    );
+    if (windows.length === 0 || store.slotTemplates.length === 0) {
+      return [];
+    }
+
+    const booked = await prisma.timeSlot.findMany({
+      where: {
+        storeId,
+        startsAt: { gte: windows[0].startsAt, lt: windows[windows.length - 1].endsAt },
+      },
+    });
+
+    return store.slotTemplates.flatMap(template =>
+      windows
+        .flatMap(window => buildSlots(window, template.slotMinutes))
+        .map(slot => {
+          const existing = booked.find(
+            row =>
+              row.deliveryType === template.deliveryType &&
+              row.startsAt.getTime() === slot.startsAt.getTime()
+          );
+          const bookedCount = existing?.booked || 0;
+
+          return {
+            ...slot,
+            deliveryType: template.deliveryType,
+            capacity: template.capacity,
+            booked: bookedCount,
+            remaining: Math.max(0, template.capacity - bookedCount),
+            available: isSlotBookable(
+              { ...slot, booked: bookedCount },
+              template,
+              now,
+              store.timezone
+            ),
+          };
+        })
+    );
+  }
+
+  // Book an order into a slot at checkout. Stores without a template for the
+  // delivery type take orders without one. Guarded on the template's
+  // capacity so two checkouts can't take the last place.
+  async holdSlot(
+    tx: any,
+    storeId: string,
+    deliveryType: DeliveryType,
+    startsAt?: Date
+  ): Promise<TimeSlot | null> {
+    const template = await tx.storeSlotTemplate.findFirst({
+      where: { storeId, deliveryType, isActive: true },
+    });
+
+    if (!template) {
+      if (startsAt) {
+        throw new Error(`This store does not take ${deliveryType} time slots`);
+      }
+      return null;
+    }
+
+    if (!startsAt) {
+      throw new Error(`Choose a ${deliveryType} time slot for this store`);
+    }
+
+    const store = await tx.store.findUnique({
+      where: { id: storeId },
+      select: { openingHours: true, timezone: true },
+    });
+
+    // A slot after midnight may belong to the previous day's late hours
+    const day = toLocalDate(startsAt, store.timezone);
+    const slot = [day, addDays(day, -1)]
+      .flatMap(date => getOpenIntervals(store.openingHours, store.timezone, date))
+      .flatMap(window => buildSlots(window, template.slotMinutes))
+      .find(candidate => candidate.startsAt.getTime() === startsAt.getTime());
+
+    if (!slot) {
+      throw new Error('Time slot is outside opening hours');
+    }
+
+    if (!isSlotBookable({ ...slot, booked: 0 }, template, new Date(), store.timezone)) {
+      throw new Error('Time slot can no longer be booked');
+    }
+
+    const timeSlot = await tx.timeSlot.upsert({
+      where: {
+        storeId_deliveryType_startsAt: { storeId, deliveryType, startsAt: slot.startsAt },
+      },
+      create: { storeId, deliveryType, startsAt: slot.startsAt, endsAt: slot.endsAt },
+      update: {},
+    });
+
+    const { count } = await tx.timeSlot.updateMany({
+      where: { id: timeSlot.id, booked: { lt: template.capacity } },
+      data: { booked: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new Error('Time slot is full');
+    }
+
+    return timeSlot;
+  }
+
+  // Give back a cancelled order's place in its slot. The order lets go of
+  // the slot in the same guarded update, so a repeated release is a no-op.
+  async releaseSlot(orderId: string): Promise<void> {
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      select: { timeSlotId: true },
+    });
+
+    if (!order?.timeSlotId) {
+      return;
+    }
+
+    const timeSlotId = order.timeSlotId;
+    await prisma.$transaction(async (tx: any) => {
+      const { count } = await tx.order.updateMany({
+        where: { id: orderId, timeSlotId },
+        data: { timeSlotId: null },
+      });
+
+      if (count === 0) {
+        return;
+      }
+
+      await tx.timeSlot.updateMany({
+        where: { id: timeSlotId, booked: { gt: 0 } },
+        data: { booked: { decrement: 1 } },
+      });
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { isSellable, planDispatch } from '../services/back-in-stock.service';
+
+describe('Back-in-stock availability', () => {
+  const row = {
+    storeId: 'store-1',
+    productId: 'product-1',
+    quantityAvailable: 5,
+    reservedQuantity: 0,
+    isAvailable: true,
+  };
+
+  it('should treat listed rows with unreserved units as sellable', () => {
+    expect(isSellable(row)).toBe(true);
+  });
+
+  it('should not treat fully reserved or unlisted rows as sellable', () => {
+    expect(isSellable({ ...row, reservedQuantity: 5 })).toBe(false);
+    expect(isSellable({ ...row, isAvailable: false })).toBe(false);
+    expect(isSellable({ ...row, quantityAvailable: 0 })).toBe(false);
+  });
+});
+
+describe('Back-in-stock dispatch throttling', () => {
+  const now = new Date('2025-06-15T12:00:00Z');
+  const hour = 60 * 60 * 1000;
+
+  it('should bundle each user into one notification', () => {
+    const batches = planDispatch(
+      [
+        { id: 'a', userId: 'user-1' },
+        { id: 'b', userId: 'user-2' },
+        { id: 'c', userId: 'user-1' },
+      ],
+      new Map(),
+      now,
+      hour
+    );
+
+    expect(batches.get('user-1')?.map(subscription => subscription.id)).toEqual(['a', 'c']);
+    expect(batches.get('user-2')?.map(subscription => subscription.id)).toEqual(['b']);
+  });
+
+  it('should hold back users notified within the throttle window', () => {
+    const lastNotified = new Map([
+      ['user-1', new Date(now.getTime() - 10 * 60 * 1000)],
+      ['user-2', new Date(now.getTime() - 2 * hour)],
+    ]);
+    const batches = planDispatch(
+      [
+        { id: 'a', userId: 'user-1' },
+        { id: 'b', userId: 'user-2' },
+      ],
+      lastNotified,
+      now,
+      hour
+    );
+
+    expect(batches.has('user-1')).toBe(false);
+    expect(batches.has('user-2')).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  dueStage,
+  getRecoverySettings,
+  summarizeRecoveries,
+} from '../services/cart-recovery.service';
+
+describe('Cart recovery settings', () => {
+  it('should sort thresholds and drop invalid ones', () => {
+    const settings = getRecoverySettings({ CART_ABANDONMENT_HOURS: '24, 2, x, -1' });
+
+    expect(settings.thresholdsHours).toEqual([2, 24]);
+    expect(settings.promoPercent).toBe(0);
+  });
+
+  it('should fall back to the defaults when no threshold is valid', () => {
+    expect(getRecoverySettings({ CART_ABANDONMENT_HOURS: 'never' }).thresholdsHours).toEqual([
+      4, 24,
+    ]);
+  });
+});
+
+describe('Cart recovery stages', () => {
+  const hour = 60 * 60 * 1000;
+  const thresholds = [4, 24];
+
+  it('should send nothing before the first threshold', () => {
+    expect(dueStage(3 * hour, thresholds, 0)).toBeNull();
+  });
+
+  it('should send each reminder once', () => {
+    expect(dueStage(5 * hour, thresholds, 0)).toBe(1);
+    expect(dueStage(5 * hour, thresholds, 1)).toBeNull();
+    expect(dueStage(25 * hour, thresholds, 1)).toBe(2);
+    expect(dueStage(48 * hour, thresholds, 2)).toBeNull();
+  });
+
+  it('should skip to the latest reminder reached when the job fell behind', () => {
+    expect(dueStage(30 * hour, thresholds, 0)).toBe(2);
+  });
+});
+
+describe('Cart recovery summary', () => {
+  const idle = new Date('2025-06-15T10:00:00Z');
+  const later = new Date('2025-06-17T10:00:00Z');
+
+  it('should count carts once per idle period and credit conversions per stage', () => {
+    const summary = summarizeRecoveries(
+      [
+        { cartId: 'a', cartUpdatedAt: idle, stage: 1, convertedAt: null },
+        { cartId: 'a', cartUpdatedAt: idle, stage: 2, convertedAt: later },
+        { cartId: 'b', cartUpdatedAt: idle, stage: 1, convertedAt: later },
+        { cartId: 'b', cartUpdatedAt: later, stage: 1, convertedAt: null },
+        { cartId: 'c', cartUpdatedAt: idle, stage: 1, convertedAt: null },
+      ],
+      120.456
+    );
+
+    expect(summary).toEqual({
+      remindersSent: 5,
+      cartsReminded: 4,
+      cartsRecovered: 2,
+      recoveryRate: 0.5,
+      recoveredRevenue: 120.46,
+      byStage: [
+        { stage: 1, sent: 4, converted: 1 },
+        { stage: 2, sent: 1, converted: 1 },
+      ],
+    });
+  });
+
+  it('should report a zero rate without reminders', () => {
+    expect(summarizeRecoveries([], 0).recoveryRate).toBe(0);
+  });
+});
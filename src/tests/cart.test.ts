@@ -0,0 +1,66 @@
+import jwt from 'jsonwebtoken';
+import {
+  CartService,
+  MAX_CART_ITEM_QUANTITY,
+  mergeCartItem,
+  resolveMergedQuantity,
+} from '../services/cart.service';
+
+describe('Guest cart merge', () => {
+  it('should add up quantities the store can cover', () => {
+    expect(resolveMergedQuantity(2, 3, 10)).toBe(5);
+    expect(resolveMergedQuantity(0, 4, 10)).toBe(4);
+  });
+
+  it('should cap the merged quantity at the available stock', () => {
+    expect(resolveMergedQuantity(4, 5, 6)).toBe(6);
+  });
+
+  it('should cap the merged quantity at the per-product maximum', () => {
+    expect(resolveMergedQuantity(80, 80, 500)).toBe(MAX_CART_ITEM_QUANTITY);
+  });
+
+  it('should drop products the store no longer has', () => {
+    expect(resolveMergedQuantity(0, 3, 0)).toBe(0);
+    expect(resolveMergedQuantity(2, 3, -1)).toBe(0);
+  });
+});
+
+describe('Cart item merge shortfalls', () => {
+  it('should report nothing when everything fits', () => {
+    expect(mergeCartItem(1, 2, 10)).toEqual({ quantity: 3, shortfall: null });
+  });
+
+  it('should tell products the store does not sell from low stock', () => {
+    expect(mergeCartItem(0, 2, null)).toEqual({ quantity: 0, shortfall: 'not_available' });
+    expect(mergeCartItem(0, 5, 3)).toEqual({ quantity: 3, shortfall: 'insufficient_stock' });
+    expect(mergeCartItem(0, 5, 0)).toEqual({ quantity: 0, shortfall: 'insufficient_stock' });
+  });
+
+  it('should report the per-product maximum', () => {
+    expect(mergeCartItem(60, 60, 500)).toEqual({
+      quantity: MAX_CART_ITEM_QUANTITY,
+      shortfall: 'quantity_limit',
+    });
+  });
+});
+
+describe('Cart tokens', () => {
+  const cartService = new CartService();
+
+  it('should round-trip the guest id', () => {
+    const { guestId, cartToken } = cartService.issueCartToken();
+    expect(cartService.verifyCartToken(cartToken)).toBe(guestId);
+  });
+
+  it('should reject tampered tokens and other token types', () => {
+    const { cartToken } = cartService.issueCartToken();
+    expect(cartService.verifyCartToken(`${cartToken}x`)).toBeNull();
+
+    const accessToken = jwt.sign(
+      { userId: 'user-1', type: 'access' },
+      process.env.JWT_ACCESS_SECRET as string
+    );
+    expect(cartService.verifyCartToken(accessToken)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { Prisma } from '@prisma/client';
+import {
+  buildDeliversToPointSql,
+  checkDeliveryArea,
+  deliveryFeeTiersSchema,
+  selectDeliveryFee,
+} from '../services/delivery.service';
+import { runPricingPipeline } from '../services/pricing.service';
+
+describe('Delivery area', () => {
+  const store = { deliveryRadius: 5 };
+  const match = { eligible: true, distanceKm: 2.5, hasZones: false, zoneId: null };
+
+  it('should check zones first and the delivery radius otherwise, in PostGIS', () => {
+    const sql = buildDeliversToPointSql(Prisma.sql`public.ST_MakePoint(${-0.2}, ${5.6})`);
+
+    expect(sql.sql).toContain('public.ST_Covers(z."area"');
+    expect(sql.sql).toContain('s."deliveryRadius" * 1000');
+    expect(sql.values).toEqual([-0.2, 5.6, -0.2, 5.6]);
+  });
+
+  it('should use the delivery radius when the store has no zones', () => {
+    expect(checkDeliveryArea(store, match)).toEqual({
+      eligible: true,
+      reason: null,
+      distanceKm: 2.5,
+      zoneId: null,
+    });
+    expect(checkDeliveryArea(store, { ...match, eligible: false })).toMatchObject({
+      eligible: false,
+      reason: 'outside_radius',
+    });
+    expect(checkDeliveryArea({ deliveryRadius: 0 }, { ...match, eligible: false }).reason).toBe(
+      'delivery_disabled'
+    );
+  });
+
+  it('should deliver only inside active zones when the store has them', () => {
+    // Zones win over the radius, even a generous one
+    const outside = checkDeliveryArea(
+      { deliveryRadius: 20 },
+      { ...match, eligible: false, hasZones: true }
+    );
+    const inside = checkDeliveryArea(store, { ...match, hasZones: true, zoneId: 'central' });
+
+    expect(outside).toMatchObject({ eligible: false, reason: 'outside_zone' });
+    expect(inside).toMatchObject({ eligible: true, zoneId: 'central' });
+  });
+});
+
+describe('Delivery fees', () => {
+  const tiers = [
+    { maxDistanceKm: 10, fee: 4.99 },
+    { maxDistanceKm: 3, fee: 1.99 },
+  ];
+
+  it('should charge the nearest tier that reaches the distance', () => {
+    expect(selectDeliveryFee(tiers, 2, 2.99)).toBe(1.99);
+    expect(selectDeliveryFee(tiers, 3, 2.99)).toBe(1.99);
+    expect(selectDeliveryFee(tiers, 7.5, 2.99)).toBe(4.99);
+    expect(selectDeliveryFee(tiers, 12, 2.99)).toBe(4.99);
+    expect(selectDeliveryFee([], 12, 2.99)).toBe(2.99);
+  });
+
+  it('should reject tiers with the same distance', () => {
+    const result = deliveryFeeTiersSchema.safeParse({
+      tiers: [
+        { maxDistanceKm: 5, fee: 1 },
+        { maxDistanceKm: 5, fee: 2 },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should price delivery at the quoted fee unless the order ships free', () => {
+    const input = {
+      items: [{ productId: '1', quantity: 1, basePrice: 10 }],
+      deliveryType: 'delivery' as const,
+      deliveryFee: 4.99,
+    };
+
+    expect(runPricingPipeline(input).deliveryFee).toBe(4.99);
+    expect(
+      runPricingPipeline({ ...input, options: { freeDeliveryThreshold: 10 } }).deliveryFee
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+import prisma from '../../db/prisma';
+import { ReservationService } from '../../services/reservation.service';
+
+describe('Inventory Concurrency Integration Tests', () => {
+  const reservationService = new ReservationService();
+  const STOCK = 5;
+  const PARALLEL_CHECKOUTS = 25;
+
+  let store: any;
+  let product: any;
+
+  beforeAll(async () => {
+    store = await prisma.store.create({
+      data: {
+        name: 'Concurrency Test Store',
+        latitude: 40.7589,
+        longitude: -73.9851,
+        minOrderAmount: 0,
+      },
+    });
+
+    product = await prisma.product.create({
+      data: {
+        strapiId: 990001,
+        name: 'Limited SKU',
+        sku: 'CONCURRENCY-SKU-1',
+        price: 9.99,
+      },
+    });
+  });
+
+  beforeEach(async () => {
+    await prisma.inventoryReservation.deleteMany({ where: { storeId: store.id } });
+    await prisma.storeInventory.upsert({
+      where: { storeId_productId: { storeId: store.id, productId: product.id } },
+      update: { quantityAvailable: STOCK, reservedQuantity: 0, isAvailable: true },
+      create: {
+        storeId: store.id,
+        productId: product.id,
+        quantityAvailable: STOCK,
+        reservedQuantity: 0,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.inventoryReservation.deleteMany({ where: { storeId: store.id } });
+    await prisma.storeInventory.deleteMany({ where: { storeId: store.id } });
+    await prisma.product.delete({ where: { id: product.id } });
+    await prisma.store.delete({ where: { id: store.id } });
+    await prisma.$disconnect();
+  });
+
+  const getInventory = () =>
+    prisma.storeInventory.findUniqueOrThrow({
+      where: { storeId_productId: { storeId: store.id, productId: product.id } },
+    });
+
+  it('should never reserve more than the available stock', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_CHECKOUTS }, () =>
+        reservationService.createReservation({
+          storeId: store.id,
+          productId: product.id,
+          quantity: 1,
+          ttlMinutes: 15,
+        })
+      )
+    );
+
+    const succeeded = results.filter(r => r.status === 'fulfilled');
+    const inventory = await getInventory();
+
+    expect(succeeded).toHaveLength(STOCK);
+    expect(inventory.reservedQuantity).toBe(STOCK);
+    expect(inventory.quantityAvailable - inventory.reservedQuantity).toBeGreaterThanOrEqual(0);
+    expect(await prisma.inventoryReservation.count({ where: { storeId: store.id } })).toBe(STOCK);
+  });
+
+  it('should roll back parallel checkouts that cannot be fully reserved', async () => {
+    // Mirrors the checkout transaction: reserve, then fail the whole order if stock ran out
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_CHECKOUTS }, () =>
+        prisma.$transaction(async tx => {
+          await reservationService.reserveStock(tx, store.id, product.id, 2);
+          await tx.inventoryReservation.create({
+            data: {
+              storeId: store.id,
+              productId: product.id,
+              quantity: 2,
+              status: 'reserved',
+              expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+            },
+          });
+        })
+      )
+    );
+
+    const succeeded = results.filter(r => r.status === 'fulfilled');
+    const inventory = await getInventory();
+
+    // 5 units allow two checkouts of 2; the remaining unit can never be oversold
+    expect(succeeded).toHaveLength(2);
+    expect(inventory.reservedQuantity).toBe(4);
+    expect(inventory.quantityAvailable - inventory.reservedQuantity).toBe(1);
+  });
+
+  it('should report the remaining stock when a reservation is refused', async () => {
+    await reservationService.createReservation({
+      storeId: store.id,
+      productId: product.id,
+      quantity: 4,
+      ttlMinutes: 15,
+    });
+
+    await expect(
+      reservationService.createReservation({
+        storeId: store.id,
+        productId: product.id,
+        quantity: 2,
+        ttlMinutes: 15,
+      })
+    ).rejects.toThrow('Only 1 items available (2 requested)');
+  });
+
+  it('should not let releases push the reserved quantity below zero', async () => {
+    const reservation = await reservationService.createReservation({
+      storeId: store.id,
+      productId: product.id,
+      quantity: 1,
+      ttlMinutes: 15,
+    });
+
+    await prisma.storeInventory.update({
+      where: { storeId_productId: { storeId: store.id, productId: product.id } },
+      data: { reservedQuantity: 0 },
+    });
+
+    await reservationService.updateReservation(reservation.id, { status: 'released' });
+
+    expect((await getInventory()).reservedQuantity).toBe(0);
+  });
+});
@@ -0,0 +1,135 @@
+import prisma from '../../db/prisma';
+import { ReservationService } from '../../services/reservation.service';
+import { InventoryMovementService } from '../../services/inventory-movement.service';
+
+describe('Inventory Movement Ledger Integration Tests', () => {
+  const reservationService = new ReservationService();
+  const movementService = new InventoryMovementService();
+
+  let store: any;
+  let product: any;
+  let inventory: any;
+
+  beforeAll(async () => {
+    store = await prisma.store.create({
+      data: {
+        name: 'Ledger Test Store',
+        latitude: 40.7589,
+        longitude: -73.9851,
+        minOrderAmount: 0,
+      },
+    });
+
+    product = await prisma.product.create({
+      data: {
+        strapiId: 990002,
+        name: 'Ledger SKU',
+        sku: 'LEDGER-SKU-1',
+        price: 4.5,
+      },
+    });
+
+    inventory = await prisma.storeInventory.create({
+      data: {
+        storeId: store.id,
+        productId: product.id,
+        quantityAvailable: 10,
+        reservedQuantity: 0,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.inventoryReservation.deleteMany({ where: { storeId: store.id } });
+    await prisma.storeInventory.deleteMany({ where: { storeId: store.id } });
+    await prisma.product.delete({ where: { id: product.id } });
+    await prisma.store.delete({ where: { id: store.id } });
+    await prisma.$disconnect();
+  });
+
+  const latestMovement = () =>
+    prisma.inventoryMovement.findFirstOrThrow({
+      where: { inventoryId: inventory.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+  it('should record reservation, sale and return movements for a reservation', async () => {
+    const reservation = await reservationService.createReservation({
+      storeId: store.id,
+      productId: product.id,
+      quantity: 3,
+      ttlMinutes: 15,
+    });
+
+    expect(await latestMovement()).toMatchObject({
+      reason: 'reservation',
+      quantityDelta: 0,
+      reservedDelta: 3,
+      quantityAfter: 10,
+      reservedAfter: 3,
+      reservationId: reservation.id,
+    });
+
+    await reservationService.updateReservation(reservation.id, { status: 'used' });
+
+    expect(await latestMovement()).toMatchObject({
+      reason: 'sale',
+      quantityDelta: -3,
+      reservedDelta: -3,
+      quantityAfter: 7,
+      reservedAfter: 0,
+    });
+
+    await reservationService.updateReservation(reservation.id, { status: 'released' });
+
+    expect(await latestMovement()).toMatchObject({
+      reason: 'return',
+      quantityDelta: 3,
+      quantityAfter: 10,
+    });
+  });
+
+  it('should record manual adjustments with the actor and skip no-op changes', async () => {
+    const movement = await prisma.$transaction((tx: any) =>
+      movementService.setLevels(tx, {
+        inventoryId: inventory.id,
+        quantityAvailable: 6,
+        reason: 'adjustment',
+        actor: { userId: 'manager-1', role: 'manager' },
+        note: 'Damaged stock',
+      })
+    );
+
+    expect(movement).toMatchObject({
+      reason: 'adjustment',
+      quantityDelta: -4,
+      quantityAfter: 6,
+      actorId: 'manager-1',
+      actorRole: 'manager',
+    });
+
+    const unchanged = await prisma.$transaction((tx: any) =>
+      movementService.setLevels(tx, {
+        inventoryId: inventory.id,
+        quantityAvailable: 6,
+        reason: 'adjustment',
+      })
+    );
+
+    expect(unchanged).toBeNull();
+  });
+
+  it('should page through movements newest first', async () => {
+    const firstPage = await movementService.getMovements(inventory.id, { page: 1, limit: 2 });
+    const sales = await movementService.getMovements(inventory.id, {
+      page: 1,
+      limit: 20,
+      reason: 'sale',
+    });
+
+    expect(firstPage.total).toBe(4);
+    expect(firstPage.movements).toHaveLength(2);
+    expect(firstPage.movements[0].reason).toBe('adjustment');
+    expect(sales.total).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  importOptionsSchema,
+  inventoryImportRowSchema,
+} from '../services/inventory-import.service';
+
+describe('Inventory CSV row validation', () => {
+  const storeId = '7b0c5a52-0f43-4d6c-9a1d-4c1e8f3b2a10';
+
+  it('should coerce CSV cells into typed values', () => {
+    const row = inventoryImportRowSchema.parse({
+      storeId,
+      sku: ' APPLE-1 ',
+      quantityAvailable: '25',
+      reorderLevel: '5',
+      priceOverride: '1.99',
+      isAvailable: 'yes',
+    });
+
+    expect(row).toEqual({
+      storeId,
+      sku: 'APPLE-1',
+      quantityAvailable: 25,
+      reorderLevel: 5,
+      priceOverride: 1.99,
+      isAvailable: true,
+    });
+  });
+
+  it('should treat empty cells as unchanged and "null" as clearing the price override', () => {
+    const row = inventoryImportRowSchema.parse({
+      storeId,
+      sku: 'APPLE-1',
+      quantityAvailable: '',
+      priceOverride: 'null',
+      isAvailable: '',
+      productName: 'Ignored export column',
+    });
+
+    expect(row.quantityAvailable).toBeUndefined();
+    expect(row.isAvailable).toBeUndefined();
+    expect(row.priceOverride).toBeNull();
+    expect(row).not.toHaveProperty('productName');
+  });
+
+  it('should reject negative, fractional and malformed values', () => {
+    expect(
+      inventoryImportRowSchema.safeParse({ storeId, sku: 'A', quantityAvailable: '-1' }).success
+    ).toBe(false);
+    expect(
+      inventoryImportRowSchema.safeParse({ storeId, sku: 'A', reorderLevel: '2.5' }).success
+    ).toBe(false);
+    expect(
+      inventoryImportRowSchema.safeParse({ storeId, sku: 'A', isAvailable: 'maybe' }).success
+    ).toBe(false);
+    expect(inventoryImportRowSchema.safeParse({ storeId: 'store-1', sku: 'A' }).success).toBe(
+      false
+    );
+  });
+
+  it('should only dry-run when asked to', () => {
+    expect(importOptionsSchema.parse({}).dryRun).toBe(false);
+    expect(importOptionsSchema.parse({ dryRun: 'true' }).dryRun).toBe(true);
+  });
+});
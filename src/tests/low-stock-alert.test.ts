@@ -0,0 +1,67 @@
+import {
+  DEFAULT_ALERT_PREFERENCES,
+  alertPreferencesSchema,
+  isLowStock,
+  resolveAlertAction,
+  wantsAlert,
+} from '../services/low-stock-alert.service';
+
+describe('Low-stock threshold', () => {
+  it('should treat stock at the reorder level as low', () => {
+    expect(isLowStock(5, 5)).toBe(true);
+    expect(isLowStock(6, 5)).toBe(false);
+  });
+
+  it('should never flag rows without a reorder level', () => {
+    expect(isLowStock(0, null)).toBe(false);
+  });
+});
+
+describe('Low-stock alert crossings', () => {
+  const now = new Date('2025-10-19T12:00:00Z');
+  const debounceMs = 60 * 60 * 1000;
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+  it('should trigger the first time a row drops to its level', () => {
+    expect(resolveAlertAction(true, null, now, debounceMs)).toBe('trigger');
+  });
+
+  it('should alert once per crossing while the alert is open', () => {
+    expect(resolveAlertAction(true, { resolvedAt: null }, now, debounceMs)).toBe('none');
+  });
+
+  it('should resolve the open alert once stock recovers', () => {
+    expect(resolveAlertAction(false, { resolvedAt: null }, now, debounceMs)).toBe('resolve');
+    expect(resolveAlertAction(false, { resolvedAt: minutesAgo(5) }, now, debounceMs)).toBe('none');
+    expect(resolveAlertAction(false, null, now, debounceMs)).toBe('none');
+  });
+
+  it('should reopen instead of re-alerting when stock flaps within the debounce window', () => {
+    expect(resolveAlertAction(true, { resolvedAt: minutesAgo(10) }, now, debounceMs)).toBe(
+      'reopen'
+    );
+    expect(resolveAlertAction(true, { resolvedAt: minutesAgo(90) }, now, debounceMs)).toBe(
+      'trigger'
+    );
+  });
+});
+
+describe('Low-stock alert preferences', () => {
+  const storeId = '7b0c5a52-0f43-4d6c-9a1d-4c1e8f3b2a10';
+
+  it('should send push and realtime alerts but no digest by default', () => {
+    expect(wantsAlert(DEFAULT_ALERT_PREFERENCES, storeId, 'push')).toBe(true);
+    expect(wantsAlert(DEFAULT_ALERT_PREFERENCES, storeId, 'realtime')).toBe(true);
+    expect(wantsAlert(DEFAULT_ALERT_PREFERENCES, storeId, 'digest')).toBe(false);
+  });
+
+  it('should skip every channel for muted stores', () => {
+    const preferences = { ...DEFAULT_ALERT_PREFERENCES, digest: true, mutedStoreIds: [storeId] };
+    expect(wantsAlert(preferences, storeId, 'push')).toBe(false);
+    expect(wantsAlert(preferences, storeId, 'digest')).toBe(false);
+  });
+
+  it('should reject muted store ids that are not UUIDs', () => {
+    expect(alertPreferencesSchema.safeParse({ mutedStoreIds: ['store-1'] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  OpeningHours,
+  fromLocalTime,
+  getOpenIntervals,
+  getOpenStatus,
+  openingHoursSchema,
+  timezoneSchema,
+} from '../services/opening-hours.service';
+
+const weekday = [
+  { open: '08:00', close: '12:00' },
+  { open: '13:00', close: '20:00' },
+];
+
+// A store closed over lunch on weekdays, with short Saturdays and holidays
+const storeHours: OpeningHours = {
+  mon: weekday,
+  tue: weekday,
+  wed: weekday,
+  thu: weekday,
+  fri: weekday,
+  sat: { open: '10:00', close: '16:00' },
+  exceptions: {
+    '2025-12-24': [{ open: '08:00', close: '14:00' }],
+    '2025-12-25': [],
+  },
+};
+
+describe('Wall-clock times in a timezone', () => {
+  it.each([
+    ['UTC', '2025-06-16', 600, '2025-06-16T10:00:00.000Z'],
+    ['America/New_York', '2025-06-16', 480, '2025-06-16T12:00:00.000Z'],
+    ['America/New_York', '2025-01-15', 480, '2025-01-15T13:00:00.000Z'],
+    ['Asia/Kolkata', '2025-06-16', 0, '2025-06-15T18:30:00.000Z'],
+    // Past midnight into the next day
+    ['America/New_York', '2025-06-16', 26 * 60, '2025-06-17T06:00:00.000Z'],
+    // 02:30 doesn't exist when Berlin springs forward; it becomes 03:30
+    ['Europe/Berlin', '2025-03-30', 150, '2025-03-30T01:30:00.000Z'],
+    // 01:30 happens twice when New York falls back; the first one counts
+    ['America/New_York', '2025-11-02', 90, '2025-11-02T05:30:00.000Z'],
+  ])('%s %s at minute %i is %s', (timezone, date, minutes, expected) => {
+    const [year, month, day] = date.split('-').map(Number);
+
+    expect(fromLocalTime({ year, month, day }, minutes, timezone).toISOString()).toBe(expected);
+  });
+});
+
+describe('Open intervals', () => {
+  it('should keep intervals their wall-clock length apart across a DST change', () => {
+    const [interval] = getOpenIntervals(
+      { sun: { open: '01:00', close: '05:00' } },
+      'Europe/Berlin',
+      { year: 2025, month: 3, day: 30 }
+    );
+
+    expect(interval.startsAt.toISOString()).toBe('2025-03-30T00:00:00.000Z');
+    expect(interval.endsAt.toISOString()).toBe('2025-03-30T03:00:00.000Z');
+  });
+
+  it('should let a date exception replace the weekday hours', () => {
+    expect(
+      getOpenIntervals(storeHours, 'America/New_York', { year: 2025, month: 12, day: 25 })
+    ).toEqual([]);
+    expect(
+      getOpenIntervals(storeHours, 'America/New_York', { year: 2025, month: 12, day: 24 })
+    ).toHaveLength(1);
+  });
+});
+
+describe('Open status', () => {
+  it.each([
+    ['before lunch', '2025-06-16T13:00:00Z', true, '2025-06-16T17:00:00Z', '2025-06-16T16:00:00Z'],
+    ['over lunch', '2025-06-16T16:30:00Z', false, '2025-06-16T17:00:00Z', '2025-06-17T00:00:00Z'],
+    // 21:00 Monday in New York is already Tuesday in UTC
+    [
+      'after closing',
+      '2025-06-17T01:00:00Z',
+      false,
+      '2025-06-17T12:00:00Z',
+      '2025-06-17T16:00:00Z',
+    ],
+    ['Friday night', '2025-06-21T01:00:00Z', false, '2025-06-21T14:00:00Z', '2025-06-21T20:00:00Z'],
+    [
+      'Saturday evening',
+      '2025-06-21T21:00:00Z',
+      false,
+      '2025-06-23T12:00:00Z',
+      '2025-06-23T16:00:00Z',
+    ],
+    [
+      'short Christmas Eve',
+      '2025-12-24T14:00:00Z',
+      true,
+      '2025-12-26T13:00:00Z',
+      '2025-12-24T19:00:00Z',
+    ],
+    [
+      'closed Christmas Day',
+      '2025-12-24T20:00:00Z',
+      false,
+      '2025-12-26T13:00:00Z',
+      '2025-12-26T17:00:00Z',
+    ],
+  ])('%s', (_label, now, isOpen, nextOpen, nextClose) => {
+    expect(getOpenStatus(storeHours, 'America/New_York', new Date(now))).toEqual({
+      isOpen,
+      nextOpenAt: new Date(nextOpen),
+      nextCloseAt: new Date(nextClose),
+    });
+  });
+
+  it.each([
+    [
+      'inside hours that started the day before',
+      { fri: { open: '20:00', close: '02:00' } },
+      '2025-06-21T01:00:00Z',
+      true,
+      '2025-06-27T20:00:00Z',
+      '2025-06-21T02:00:00Z',
+    ],
+    [
+      'across intervals that meet at midnight',
+      { mon: { open: '18:00', close: '24:00' }, tue: { open: '00:00', close: '03:00' } },
+      '2025-06-16T23:00:00Z',
+      true,
+      '2025-06-23T18:00:00Z',
+      '2025-06-17T03:00:00Z',
+    ],
+  ])('should be open %s', (_label, hours, now, isOpen, nextOpen, nextClose) => {
+    expect(getOpenStatus(hours, 'UTC', new Date(now))).toEqual({
+      isOpen,
+      nextOpenAt: new Date(nextOpen),
+      nextCloseAt: new Date(nextClose),
+    });
+  });
+
+  it('should report no times for a store without hours', () => {
+    expect(getOpenStatus(null, 'UTC', new Date('2025-06-16T12:00:00Z'))).toEqual({
+      isOpen: false,
+      nextOpenAt: null,
+      nextCloseAt: null,
+    });
+  });
+});
+
+describe('Opening hours validation', () => {
+  it.each([
+    [{ mon: { open: '08:00', close: '20:00' } }, true],
+    [{ mon: weekday, exceptions: { '2025-12-25': [] } }, true],
+    [{ mon: { open: '08:00', close: '25:00' } }, false],
+    [{ mon: { open: '08:00', close: '08:00' } }, false],
+    [{ exceptions: { 'Dec 25': [] } }, false],
+  ])('%j is valid: %s', (hours, valid) => {
+    expect(openingHoursSchema.safeParse(hours).success).toBe(valid);
+  });
+
+  it('should only accept IANA timezones', () => {
+    expect(timezoneSchema.safeParse('Africa/Accra').success).toBe(true);
+    expect(timezoneSchema.safeParse('Mars/Olympus_Mons').success).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { canTransition, getNextStatuses } from '../services/order-lifecycle.service';
+
+describe('Order lifecycle state machine', () => {
+  it('should allow the forward path for store managers', () => {
+    expect(canTransition('pending', 'confirmed', 'manager')).toBe(true);
+    expect(canTransition('confirmed', 'preparing', 'manager')).toBe(true);
+    expect(canTransition('preparing', 'ready', 'manager')).toBe(true);
+    expect(canTransition('ready', 'completed', 'manager')).toBe(true);
+  });
+
+  it('should reject moving a completed or cancelled order', () => {
+    expect(canTransition('completed', 'pending')).toBe(false);
+    expect(canTransition('cancelled', 'ready')).toBe(false);
+    expect(getNextStatuses('completed')).toEqual([]);
+    expect(getNextStatuses('cancelled')).toEqual([]);
+  });
+
+  it('should reject skipping steps', () => {
+    expect(canTransition('pending', 'ready')).toBe(false);
+    expect(canTransition('confirmed', 'completed')).toBe(false);
+  });
+
+  it('should only let customers cancel before preparation starts', () => {
+    expect(canTransition('pending', 'cancelled', 'customer')).toBe(true);
+    expect(canTransition('confirmed', 'cancelled', 'customer')).toBe(true);
+    expect(canTransition('preparing', 'cancelled', 'customer')).toBe(false);
+    expect(canTransition('pending', 'confirmed', 'customer')).toBe(false);
+  });
+
+  it('should list next statuses for a role', () => {
+    expect(getNextStatuses('pending', 'customer')).toEqual(['cancelled']);
+    expect(getNextStatuses('preparing', 'manager')).toEqual(['ready', 'cancelled']);
+  });
+});
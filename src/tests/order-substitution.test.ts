@@ -0,0 +1,64 @@
+import { getRefundDue, planLineChange } from '../services/order-substitution.service';
+
+describe('Order line changes', () => {
+  // 4 × 2.50 with a 1.00 share of a 2.00 order discount, taxed at 10% after it
+  const line = { quantity: 4, unitPrice: 2.5, totalPrice: 10, taxRate: 0.1, taxAmount: 0.9 };
+  const order = { subtotal: 20, discountAmount: 2 };
+
+  it('should refund the price, discount share and tax of short-picked units', () => {
+    const plan = planLineChange(line, order, 1);
+
+    expect(plan).toMatchObject({
+      quantity: 1,
+      totalPrice: 2.5,
+      taxAmount: 0.22,
+      substitute: null,
+      discountDelta: -0.75,
+      taxDelta: -0.68,
+      refund: 7.43,
+    });
+  });
+
+  it('should refund the whole line when nothing could be picked', () => {
+    const plan = planLineChange(line, order, 0);
+
+    expect(plan.totalPrice).toBe(0);
+    expect(plan.taxAmount).toBe(0);
+    expect(plan.refund).toBe(9.9);
+  });
+
+  it('should charge a substitute at the line tax rate and refund the rest', () => {
+    const plan = planLineChange(line, order, 0, { quantity: 4, unitPrice: 2 });
+
+    expect(plan.substitute).toEqual({ quantity: 4, unitPrice: 2, totalPrice: 8, taxAmount: 0.8 });
+    expect(plan.taxDelta).toBe(-0.1);
+    expect(plan.refund).toBe(1.1);
+  });
+
+  it('should refuse a substitute that costs more than what it replaces', () => {
+    expect(() => planLineChange(line, order, 0, { quantity: 4, unitPrice: 2.5 })).toThrow(
+      'A substitute cannot cost more than the items it replaces'
+    );
+  });
+
+  it('should refuse picked quantities that change nothing', () => {
+    expect(() => planLineChange(line, order, 4)).toThrow(
+      'Picked quantity must be less than the ordered quantity'
+    );
+    expect(() => planLineChange(line, order, -1)).toThrow();
+  });
+});
+
+describe('Refund due on a line change', () => {
+  const line = { quantity: 4, unitPrice: 2.5, totalPrice: 10, taxRate: 0.1, taxAmount: 0.9 };
+  const plan = planLineChange(line, { subtotal: 20, discountAmount: 2 }, 1);
+
+  it('should owe the planned refund on a paid order', () => {
+    expect(getRefundDue({ paymentStatus: 'paid' }, plan)).toBe(plan.refund);
+    expect(getRefundDue({ paymentStatus: 'partially_refunded' }, plan)).toBe(plan.refund);
+  });
+
+  it('should owe nothing on an order that was never paid', () => {
+    expect(getRefundDue({ paymentStatus: 'pending' }, plan)).toBe(0);
+  });
+});
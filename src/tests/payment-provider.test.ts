@@ -0,0 +1,155 @@
+import { SandboxPaymentProvider } from '../services/payment-provider.service';
+import {
+  canAdvancePaymentStatus,
+  getIntentUpdateForEvent,
+  getRefundedPaymentStatus,
+} from '../services/payment.service';
+
+describe('Sandbox payment provider', () => {
+  const provider = new SandboxPaymentProvider('test-secret');
+
+  const context = (paymentMethod: string) => ({
+    providerIntentId: 'sbx_pi_test',
+    paymentMethod,
+    amount: 42.5,
+    currency: 'USD',
+  });
+
+  it('should authorize and capture regular payment methods', async () => {
+    const authorized = await provider.authorize(context('credit_card'));
+    expect(authorized.status).toBe('authorized');
+
+    const captured = await provider.capture(context('credit_card'), 42.5);
+    expect(captured.status).toBe('captured');
+    expect(captured.capturedAmount).toBe(42.5);
+  });
+
+  it('should always decline test_fail at authorization', async () => {
+    for (let i = 0; i < 5; i++) {
+      const result = await provider.authorize(context('test_fail'));
+      expect(result.status).toBe('failed');
+      expect(result.failureReason).toBe('Test payment failure');
+    }
+  });
+
+  it('should fail capture for test_capture_fail', async () => {
+    expect((await provider.authorize(context('test_capture_fail'))).status).toBe('authorized');
+    expect((await provider.capture(context('test_capture_fail'), 42.5)).status).toBe('failed');
+  });
+
+  it('should refuse to capture more than was authorized', async () => {
+    await expect(provider.capture(context('credit_card'), 50)).rejects.toThrow(
+      'Capture amount exceeds authorized amount'
+    );
+  });
+
+  it('should replay a refund made under the same idempotency key', async () => {
+    const first = await provider.refund(context('credit_card'), 10, 'Return', 'refund:return:1');
+    const again = await provider.refund(context('credit_card'), 10, 'Return', 'refund:return:1');
+    const other = await provider.refund(context('credit_card'), 10, 'Return', 'refund:return:2');
+
+    expect(again.refundId).toBe(first.refundId);
+    expect(other.refundId).not.toBe(first.refundId);
+  });
+
+  it('should verify webhook signatures', () => {
+    const payload = JSON.stringify({ id: 'evt_1', type: 'payment.captured' });
+    expect(provider.verifyWebhookSignature(payload, provider.sign(payload))).toBe(true);
+    expect(provider.verifyWebhookSignature(payload, 'deadbeef')).toBe(false);
+  });
+
+  it('should parse webhook events', () => {
+    const event = provider.parseWebhookEvent({
+      id: 'evt_1',
+      type: 'payment.captured',
+      data: { intentId: 'sbx_pi_test', amount: 42.5 },
+    });
+
+    expect(event).toEqual({
+      eventId: 'evt_1',
+      type: 'payment.captured',
+      providerIntentId: 'sbx_pi_test',
+      amount: 42.5,
+      failureReason: undefined,
+    });
+    expect(() => provider.parseWebhookEvent({ id: 'evt_2', type: 'unknown' })).toThrow();
+  });
+});
+
+describe('Payment status progression', () => {
+  it('should only move payment status forward', () => {
+    expect(canAdvancePaymentStatus('pending', 'paid')).toBe(true);
+    expect(canAdvancePaymentStatus('pending', 'failed')).toBe(true);
+    expect(canAdvancePaymentStatus('paid', 'refunded')).toBe(true);
+    expect(canAdvancePaymentStatus('paid', 'failed')).toBe(false);
+    expect(canAdvancePaymentStatus('refunded', 'paid')).toBe(false);
+    expect(canAdvancePaymentStatus('paid', 'paid')).toBe(false);
+  });
+
+  it('should pass through partially refunded on the way to refunded', () => {
+    expect(canAdvancePaymentStatus('paid', 'partially_refunded')).toBe(true);
+    expect(canAdvancePaymentStatus('partially_refunded', 'refunded')).toBe(true);
+    expect(canAdvancePaymentStatus('refunded', 'partially_refunded')).toBe(false);
+  });
+
+  it('should keep a failed payment failed', () => {
+    expect(canAdvancePaymentStatus('failed', 'paid')).toBe(false);
+    expect(canAdvancePaymentStatus('failed', 'refunded')).toBe(false);
+  });
+});
+
+describe('Refunded payment status', () => {
+  it('should follow the refunded share of the captured amount', () => {
+    expect(getRefundedPaymentStatus(50, 0)).toBe('paid');
+    expect(getRefundedPaymentStatus(50, 12.5)).toBe('partially_refunded');
+    expect(getRefundedPaymentStatus(50, 50)).toBe('refunded');
+  });
+});
+
+describe('Payment webhook intent updates', () => {
+  const intent = (status: string, capturedAmount: number, refundedAmount: number): any => ({
+    status,
+    amount: 50,
+    capturedAmount,
+    refundedAmount,
+  });
+
+  const event = (type: any, amount?: number) => ({
+    eventId: 'evt_1',
+    type,
+    providerIntentId: 'sbx_pi_test',
+    amount,
+  });
+
+  it('should capture an authorized intent', () => {
+    expect(getIntentUpdateForEvent(intent('authorized', 0, 0), event('payment.captured'))).toEqual({
+      status: 'captured',
+      capturedAmount: 50,
+    });
+  });
+
+  it('should ignore a late capture on a captured or refunded intent', () => {
+    expect(getIntentUpdateForEvent(intent('captured', 50, 20), event('payment.captured'))).toEqual(
+      {}
+    );
+    expect(getIntentUpdateForEvent(intent('refunded', 50, 50), event('payment.captured'))).toEqual(
+      {}
+    );
+  });
+
+  it('should not capture a failed or cancelled intent', () => {
+    expect(getIntentUpdateForEvent(intent('failed', 0, 0), event('payment.captured'))).toEqual({});
+    expect(getIntentUpdateForEvent(intent('cancelled', 0, 0), event('payment.captured'))).toEqual(
+      {}
+    );
+  });
+
+  it('should never lower the refunded amount', () => {
+    expect(
+      getIntentUpdateForEvent(intent('captured', 50, 30), event('payment.refunded', 10))
+    ).toEqual({ refundedAmount: 30, status: 'captured' });
+    expect(
+      getIntentUpdateForEvent(intent('captured', 50, 30), event('payment.refunded', 50))
+    ).toEqual({ refundedAmount: 50, status: 'refunded' });
+  });
+});
@@ -0,0 +1,249 @@
+import {
+  DEFAULT_PRICING_OPTIONS,
+  PriceBreakdown,
+  PricingInput,
+  PricingOptions,
+  allocateRounded,
+  basePriceStage,
+  calculatePromotionDiscount,
+  feeStage,
+  promotionStage,
+  roundMoney,
+  roundingStage,
+  runPricingPipeline,
+  storeOverrideStage,
+  summarizeRevenue,
+  taxStage,
+} from '../services/pricing.service';
+
+const options: PricingOptions = {
+  taxRate: 0.1,
+  deliveryFee: 2.99,
+  freeDeliveryThreshold: 25,
+  taxRounding: 'order',
+};
+
+const empty: PriceBreakdown = {
+  lines: [],
+  subtotal: 0,
+  discount: 0,
+  promotions: [],
+  tax: 0,
+  taxRate: options.taxRate,
+  taxZoneId: null,
+  taxRounding: 'order',
+  fees: [],
+  deliveryFee: 0,
+  total: 0,
+  adjustments: [],
+};
+
+const input: PricingInput = {
+  items: [
+    { productId: '1', name: 'Milk', quantity: 2, basePrice: 3.5, priceOverride: 2.99 },
+    { productId: '2', name: 'Bread', quantity: 1, basePrice: 4.25 },
+  ],
+};
+
+describe('Pricing stages', () => {
+  it('should start every line at its catalogue price', () => {
+    const result = basePriceStage(empty, input, options);
+    expect(result.lines.map(line => line.unitPrice)).toEqual([3.5, 4.25]);
+    expect(result.subtotal).toBe(11.25);
+  });
+
+  it('should replace the catalogue price with the store override', () => {
+    const result = storeOverrideStage(basePriceStage(empty, input, options), input, options);
+    expect(result.lines[0]).toMatchObject({ unitPrice: 2.99, priceSource: 'store_override' });
+    expect(result.lines[1]).toMatchObject({ unitPrice: 4.25, priceSource: 'base' });
+    expect(result.adjustments).toHaveLength(1);
+  });
+
+  it('should cap promotions and skip them below the minimum order amount', () => {
+    const promotion = {
+      code: 'SAVE50',
+      discountType: 'percentage' as const,
+      discountValue: 50,
+      maxDiscountAmount: 10,
+      minOrderAmount: 15,
+    };
+    expect(calculatePromotionDiscount(40, promotion)).toBe(10);
+    expect(calculatePromotionDiscount(14, promotion)).toBe(0);
+    expect(
+      calculatePromotionDiscount(5, { code: 'FIVE', discountType: 'fixed', discountValue: 8 })
+    ).toBe(5);
+
+    const priced = basePriceStage(
+      empty,
+      { items: [{ productId: '1', quantity: 4, basePrice: 10 }] },
+      options
+    );
+    const result = promotionStage(priced, { ...input, promotions: [promotion] }, options);
+    expect(result).toMatchObject({ discount: 10, promotions: [{ code: 'SAVE50', amount: 10 }] });
+  });
+
+  it('should only discount the lines a promotion applies to', () => {
+    const priced = basePriceStage(empty, input, options);
+    const result = promotionStage(
+      priced,
+      {
+        ...input,
+        promotions: [
+          { code: 'MILK', discountType: 'percentage', discountValue: 50, productIds: ['1'] },
+        ],
+      },
+      options
+    );
+    expect(result.discount).toBe(3.5);
+    expect(result.lines.map(line => line.discount)).toEqual([3.5, 0]);
+  });
+
+  it('should apply stacked promotions to what the earlier ones left', () => {
+    const priced = basePriceStage(
+      empty,
+      { items: [{ productId: '1', quantity: 1, basePrice: 100 }] },
+      options
+    );
+    const result = promotionStage(
+      priced,
+      {
+        items: [],
+        promotions: [
+          { code: 'TWENTY', discountType: 'fixed', discountValue: 20 },
+          { code: 'HALF', discountType: 'percentage', discountValue: 50 },
+        ],
+      },
+      options
+    );
+    expect(result.promotions).toEqual([
+      { code: 'TWENTY', amount: 20 },
+      { code: 'HALF', amount: 40 },
+    ]);
+    expect(result.discount).toBe(60);
+  });
+
+  it('should tax the discounted subtotal', () => {
+    const priced = basePriceStage(
+      empty,
+      { items: [{ productId: '1', quantity: 4, basePrice: 5 }] },
+      options
+    );
+    const discounted = { ...priced, lines: [{ ...priced.lines[0], discount: 5 }], discount: 5 };
+    const result = taxStage(discounted, input, options);
+    expect(result.tax).toBeCloseTo(1.5);
+  });
+
+  it('should tax at the zone rate and skip exempt categories', () => {
+    const zoned: PricingInput = {
+      items: [
+        { productId: '1', quantity: 1, basePrice: 10, categoryId: 'groceries' },
+        { productId: '2', quantity: 1, basePrice: 10, categoryId: 'household' },
+      ],
+      tax: { zoneId: 'zone-1', zoneName: 'CA', rate: 0.0725, exemptCategoryIds: ['groceries'] },
+    };
+    const result = taxStage(basePriceStage(empty, zoned, options), zoned, options);
+
+    expect(result.taxZoneId).toBe('zone-1');
+    expect(result.lines[0]).toMatchObject({ taxExempt: true, taxRate: 0, tax: 0 });
+    expect(result.lines[1]).toMatchObject({ taxExempt: false, taxRate: 0.0725 });
+    expect(result.tax).toBeCloseTo(0.725);
+  });
+
+  it('should only charge delivery on small delivery orders', () => {
+    expect(feeStage({ ...empty, subtotal: 10 }, input, options).fees).toHaveLength(1);
+    expect(feeStage({ ...empty, subtotal: 25 }, input, options).fees).toHaveLength(0);
+    expect(
+      feeStage({ ...empty, subtotal: 10 }, { ...input, deliveryType: 'pickup' }, options).fees
+    ).toHaveLength(0);
+  });
+
+  it('should build the total from the rounded parts', () => {
+    const result = roundingStage(
+      {
+        ...empty,
+        lines: [
+          {
+            productId: '1',
+            quantity: 3,
+            basePrice: 0.333,
+            unitPrice: 0.333,
+            priceSource: 'base',
+            lineTotal: 0.999,
+            discount: 0,
+            taxRate: 0.1,
+            taxExempt: false,
+            tax: 0.0999,
+          },
+        ],
+        tax: 0.0999,
+      },
+      input,
+      options
+    );
+    expect(result.subtotal).toBe(0.99);
+    expect(result.tax).toBe(0.1);
+    expect(result.total).toBe(1.09);
+  });
+});
+
+describe('Tax rounding', () => {
+  const threeLines: PricingInput = {
+    items: [1, 2, 3].map(id => ({ productId: String(id), quantity: 1, basePrice: 0.15 })),
+  };
+
+  it('should round once per order and spread the cents across lines', () => {
+    const result = runPricingPipeline({ ...threeLines, options: { ...options, taxRate: 0.1 } });
+    expect(result.tax).toBe(0.05);
+    expect(result.lines.reduce((sum, line) => sum + line.tax, 0)).toBeCloseTo(0.05);
+  });
+
+  it('should round each line when configured to', () => {
+    const result = runPricingPipeline({
+      ...threeLines,
+      options: { ...options, taxRate: 0.1, taxRounding: 'line' },
+    });
+    expect(result.lines.map(line => line.tax)).toEqual([0.02, 0.02, 0.02]);
+    expect(result.tax).toBe(0.06);
+  });
+
+  it('should allocate rounded amounts that add up to the total', () => {
+    expect(allocateRounded([0.333, 0.333, 0.334], 1)).toEqual([0.33, 0.33, 0.34]);
+  });
+});
+
+describe('Pricing pipeline', () => {
+  it('should return an itemized breakdown that adds up', () => {
+    const result = runPricingPipeline({ ...input, options });
+
+    expect(result.subtotal).toBe(10.23);
+    expect(result.tax).toBe(1.02);
+    expect(result.deliveryFee).toBe(2.99);
+    expect(result.total).toBe(14.24);
+    expect(result.adjustments.map(adjustment => adjustment.stage)).toEqual([
+      'store_override',
+      'tax',
+      'fees',
+    ]);
+  });
+
+  it('should fall back to the default options', () => {
+    const result = runPricingPipeline({ items: [] });
+    expect(result.taxRate).toBe(DEFAULT_PRICING_OPTIONS.taxRate);
+  });
+
+  it('should round half away from zero', () => {
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(-1.005)).toBe(-1.01);
+  });
+
+  it('should split stored order totals back into their parts', () => {
+    expect(
+      summarizeRevenue({
+        totalAmount: 14.24,
+        taxAmount: 1.02,
+        deliveryFee: 2.99,
+        discountAmount: 0,
+      })
+    ).toMatchObject({ netSales: 10.23 });
+  });
+});
@@ -0,0 +1,26 @@
+import {
+  addListItemSchema,
+  saveForLaterSchema,
+  updateListItemSchema,
+} from '../services/product-list.service';
+
+describe('Product list validation', () => {
+  it('should default new list items to one, without notifications', () => {
+    expect(addListItemSchema.parse({ productId: '42' })).toEqual({
+      productId: '42',
+      quantity: 1,
+      notifyBackInStock: false,
+    });
+  });
+
+  it('should require something to update on a list item', () => {
+    expect(updateListItemSchema.safeParse({}).success).toBe(false);
+    expect(updateListItemSchema.safeParse({ notifyBackInStock: true }).success).toBe(true);
+    expect(updateListItemSchema.safeParse({ quantity: 101 }).success).toBe(false);
+  });
+
+  it('should save cart items to the wishlist unless a list is named', () => {
+    const parsed = saveForLaterSchema.parse({ cartItemId: '0b7f3c4e-1d2a-4c8b-9f6e-5a4d3c2b1a00' });
+    expect(parsed.listId).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  PromotionRules,
+  checkPromotionAvailability,
+  checkStacking,
+  orderForStacking,
+  toPromotionRecord,
+} from '../services/promotion.service';
+
+const now = new Date('2025-06-15T12:00:00Z');
+
+const promotion: PromotionRules = {
+  id: 'promo-1',
+  isActive: true,
+  startDate: new Date('2025-06-01T00:00:00Z'),
+  endDate: new Date('2025-06-30T00:00:00Z'),
+  usageLimit: 100,
+  perUserLimit: 1,
+  timesRedeemed: 10,
+  stackable: false,
+};
+
+describe('Promotion availability', () => {
+  it('should accept a live promotion with uses left', () => {
+    expect(checkPromotionAvailability(promotion, 0, now)).toBeNull();
+  });
+
+  it('should reject promotions outside their dates', () => {
+    expect(checkPromotionAvailability(promotion, 0, new Date('2025-05-31T00:00:00Z'))).toBe(
+      'Promo code is not active yet'
+    );
+    expect(checkPromotionAvailability(promotion, 0, new Date('2025-07-01T00:00:00Z'))).toBe(
+      'Promo code has expired'
+    );
+  });
+
+  it('should enforce the total and per-user limits', () => {
+    expect(checkPromotionAvailability({ ...promotion, timesRedeemed: 100 }, 0, now)).toBe(
+      'Promo code has reached its usage limit'
+    );
+    expect(checkPromotionAvailability(promotion, 1, now)).toBe(
+      'You have already used this promo code'
+    );
+    expect(
+      checkPromotionAvailability({ ...promotion, usageLimit: null, perUserLimit: null }, 5, now)
+    ).toBeNull();
+  });
+});
+
+describe('Promotion stacking', () => {
+  const exclusive = { id: 'exclusive', stackable: false };
+  const stackA = { id: 'a', stackable: true };
+  const stackB = { id: 'b', stackable: true };
+
+  it('should let any promotion onto an empty cart', () => {
+    expect(checkStacking(exclusive, [])).toBeNull();
+  });
+
+  it('should combine stackable promotions only', () => {
+    expect(checkStacking(stackB, [stackA])).toBeNull();
+    expect(checkStacking(exclusive, [stackA])).toBe(
+      'This promo code cannot be combined with other promotions'
+    );
+    expect(checkStacking(stackA, [exclusive])).toBe(
+      'Your cart has a promo code that cannot be combined with others'
+    );
+  });
+
+  it('should not apply the same promotion twice', () => {
+    expect(checkStacking(stackA, [stackA])).toBe('Promo code is already applied');
+  });
+
+  it('should apply higher priority promotions first', () => {
+    const applied = [
+      { code: 'FIRST', promotion: { priority: 0 } },
+      { code: 'URGENT', promotion: { priority: 5 } },
+      { code: 'SECOND', promotion: { priority: 0 } },
+    ];
+    expect(orderForStacking(applied).map(entry => entry.code)).toEqual([
+      'URGENT',
+      'FIRST',
+      'SECOND',
+    ]);
+  });
+});
+
+describe('Promotion records', () => {
+  it('should keep the limits and rules from Strapi', () => {
+    const record = toPromotionRecord({
+      name: 'Summer',
+      discountType: 'percentage',
+      discountValue: 10,
+      code: 'SUMMER',
+      startDate: '2025-06-01T00:00:00Z',
+      endDate: '2025-06-30T00:00:00Z',
+      applicableCategories: [3],
+      usageLimit: 500,
+      stackable: true,
+    });
+
+    expect(record).toMatchObject({
+      code: 'SUMMER',
+      isActive: true,
+      applicableProducts: [],
+      applicableCategories: [3],
+      usageLimit: 500,
+      perUserLimit: null,
+      stackable: true,
+      priority: 0,
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  ReplenishmentInput,
+  calculateSuggestedQuantity,
+  createPurchaseOrderSchema,
+} from '../services/replenishment.service';
+
+describe('Replenishment suggestions', () => {
+  const base: ReplenishmentInput = {
+    quantityAvailable: 10,
+    reservedQuantity: 0,
+    reorderLevel: 5,
+    maxStockLevel: 50,
+    unitsSold: 28,
+    windowDays: 28,
+    leadTimeDays: 7,
+    onOrder: 0,
+  };
+
+  it('should not suggest anything while projected stock stays above the reorder level', () => {
+    expect(calculateSuggestedQuantity({ ...base, quantityAvailable: 20 })).toBe(0);
+  });
+
+  it('should order up to maxStockLevel once lead-time demand reaches the reorder level', () => {
+    // 1 unit/day for 7 days leaves 3 units, so 47 more fill the row to 50
+    expect(calculateSuggestedQuantity(base)).toBe(47);
+  });
+
+  it('should treat reserved units as already gone and count open purchase orders', () => {
+    expect(calculateSuggestedQuantity({ ...base, reservedQuantity: 3 })).toBe(50);
+    expect(calculateSuggestedQuantity({ ...base, onOrder: 40 })).toBe(0);
+  });
+
+  it('should cover two weeks of sales above the reorder level without a maximum', () => {
+    // target 5 + 14, projected 3
+    expect(calculateSuggestedQuantity({ ...base, maxStockLevel: null })).toBe(16);
+  });
+
+  it('should refill to the reorder level for products that have not sold', () => {
+    expect(
+      calculateSuggestedQuantity({
+        ...base,
+        quantityAvailable: 2,
+        unitsSold: 0,
+        maxStockLevel: null,
+      })
+    ).toBe(3);
+  });
+});
+
+describe('Purchase order validation', () => {
+  const storeId = '7b0c5a52-0f43-4d6c-9a1d-4c1e8f3b2a10';
+
+  it('should allow creating a purchase order from suggestions without items', () => {
+    expect(createPurchaseOrderSchema.safeParse({ storeId }).success).toBe(true);
+  });
+
+  it('should reject non-positive quantities', () => {
+    const result = createPurchaseOrderSchema.safeParse({
+      storeId,
+      items: [{ productId: 'product-1', quantity: 0 }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { getUnheldQuantities } from '../services/reservation.service';
+
+describe('Unheld order quantities', () => {
+  const items = [
+    { productId: 'apple', quantity: 3 },
+    { productId: 'pear', quantity: 2 },
+  ];
+
+  it('should be empty when live reservations cover every item', () => {
+    const reservations = [
+      { productId: 'apple', quantity: 3, status: 'reserved' as const },
+      { productId: 'pear', quantity: 2, status: 'used' as const },
+    ];
+
+    expect(getUnheldQuantities(items, reservations).size).toBe(0);
+  });
+
+  it('should report items whose reservation expired or was released', () => {
+    const reservations = [
+      { productId: 'apple', quantity: 3, status: 'expired' as const },
+      { productId: 'pear', quantity: 2, status: 'reserved' as const },
+    ];
+
+    expect([...getUnheldQuantities(items, reservations)]).toEqual([['apple', 3]]);
+  });
+
+  it('should report the part of an item a smaller reservation leaves uncovered', () => {
+    const reservations = [{ productId: 'apple', quantity: 1, status: 'reserved' as const }];
+
+    expect(getUnheldQuantities(items, reservations)).toEqual(
+      new Map([
+        ['apple', 2],
+        ['pear', 2],
+      ])
+    );
+  });
+});
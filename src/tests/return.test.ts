@@ -0,0 +1,47 @@
+import { getReturnableQuantities, refundForUnits } from '../services/return.service';
+
+describe('Return refunds', () => {
+  const line = { quantity: 4, totalPrice: 20, taxAmount: 1.6 };
+
+  it('should refund the price and tax of the returned units', () => {
+    expect(refundForUnits(line, { subtotal: 20, discountAmount: 0 }, 1)).toBe(5.4);
+    expect(refundForUnits(line, { subtotal: 20, discountAmount: 0 }, 4)).toBe(21.6);
+  });
+
+  it("should hold back the line's share of the order discount", () => {
+    // The line is half the order, so it carries 3 of the 6 discount
+    expect(refundForUnits(line, { subtotal: 40, discountAmount: 6 }, 2)).toBe(9.3);
+  });
+
+  it('should refund nothing for an emptied line', () => {
+    expect(refundForUnits({ ...line, quantity: 0 }, { subtotal: 20, discountAmount: 0 }, 1)).toBe(
+      0
+    );
+  });
+});
+
+describe('Returnable quantities', () => {
+  const items = [
+    { id: 'a', quantity: 3 },
+    { id: 'b', quantity: 1 },
+  ];
+
+  it('should subtract units on open and completed returns', () => {
+    const returnable = getReturnableQuantities(items, [
+      { orderItemId: 'a', quantity: 1, status: 'requested' },
+      { orderItemId: 'a', quantity: 1, status: 'refunded' },
+      { orderItemId: 'b', quantity: 1, status: 'approved' },
+    ]);
+
+    expect(returnable.get('a')).toBe(1);
+    expect(returnable.get('b')).toBe(0);
+  });
+
+  it('should make units on rejected returns returnable again', () => {
+    const returnable = getReturnableQuantities(items, [
+      { orderItemId: 'a', quantity: 2, status: 'rejected' },
+    ]);
+
+    expect(returnable.get('a')).toBe(3);
+  });
+});
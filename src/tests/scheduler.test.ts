@@ -0,0 +1,99 @@
+import { SchedulerService } from '../services/scheduler.service';
+
+// Minimal in-memory stand-in for the Redis commands the scheduler uses
+class FakeRedis {
+  store = new Map<string, string>();
+
+  async set(key: string, value: string, ...args: any[]) {
+    if (args.includes('NX') && this.store.has(key)) return null;
+    this.store.set(key, value);
+    return 'OK';
+  }
+
+  async mget(keys: string[]) {
+    return keys.map(key => this.store.get(key) ?? null);
+  }
+
+  async eval(_script: string, _numKeys: number, key: string, token: string) {
+    if (this.store.get(key) !== token) return 0;
+    this.store.delete(key);
+    return 1;
+  }
+
+  async quit() {
+    return 'OK';
+  }
+}
+
+describe('SchedulerService', () => {
+  let redis: FakeRedis;
+  let scheduler: SchedulerService;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    scheduler = new SchedulerService(redis as any);
+  });
+
+  it('should reject invalid cron expressions and duplicate jobs', () => {
+    expect(() =>
+      scheduler.register({ name: 'bad', schedule: 'not a cron', handler: async () => null })
+    ).toThrow('Invalid cron expression');
+
+    scheduler.register({ name: 'job', schedule: '* * * * *', handler: async () => null });
+    expect(() =>
+      scheduler.register({ name: 'job', schedule: '* * * * *', handler: async () => null })
+    ).toThrow('Job already registered: job');
+  });
+
+  it('should run a job, release its lock and record the last run', async () => {
+    scheduler.register({
+      name: 'sweep',
+      schedule: '* * * * *',
+      handler: async () => ({ released: 3 }),
+    });
+
+    const execution = await scheduler.execute('sweep');
+
+    expect(execution.executed).toBe(true);
+    expect(redis.store.has('scheduler:lock:sweep')).toBe(false);
+
+    const [job] = await scheduler.getJobs();
+    expect(job.lastRun?.status).toBe('success');
+    expect(job.lastRun?.result).toEqual({ released: 3 });
+    expect(job.lastRun?.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should skip the run when another instance holds the lock', async () => {
+    const handler = jest.fn(async () => null);
+    scheduler.register({ name: 'sweep', schedule: '* * * * *', handler });
+    redis.store.set('scheduler:lock:sweep', 'other-instance');
+
+    const execution = await scheduler.execute('sweep');
+
+    expect(execution).toEqual({ executed: false, reason: 'locked' });
+    expect(handler).not.toHaveBeenCalled();
+    expect(redis.store.get('scheduler:lock:sweep')).toBe('other-instance');
+  });
+
+  it('should record failures and expose them as metrics', async () => {
+    scheduler.register({
+      name: 'cleanup',
+      schedule: '0 3 * * *',
+      handler: async () => {
+        throw new Error('database unavailable');
+      },
+    });
+
+    const execution = await scheduler.execute('cleanup');
+
+    expect(execution.executed && execution.run.status).toBe('failed');
+    expect(execution.executed && execution.run.error).toBe('database unavailable');
+
+    const metrics = await scheduler.getMetrics();
+    expect(metrics).toContain('scheduler_job_last_run_success{job="cleanup"} 0');
+  });
+
+  it('should refuse to run unknown jobs', async () => {
+    await expect(scheduler.execute('missing')).rejects.toThrow('Unknown job: missing');
+  });
+});
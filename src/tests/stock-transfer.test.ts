@@ -0,0 +1,56 @@
+import {
+  canTransitionTransfer,
+  createTransferSchema,
+  receiveTransferSchema,
+} from '../services/stock-transfer.service';
+
+describe('Stock transfer lifecycle', () => {
+  it('should follow requested -> approved -> in_transit -> received', () => {
+    expect(canTransitionTransfer('requested', 'approved')).toBe(true);
+    expect(canTransitionTransfer('approved', 'in_transit')).toBe(true);
+    expect(canTransitionTransfer('in_transit', 'received')).toBe(true);
+  });
+
+  it('should only allow cancelling before dispatch', () => {
+    expect(canTransitionTransfer('requested', 'cancelled')).toBe(true);
+    expect(canTransitionTransfer('approved', 'cancelled')).toBe(true);
+    expect(canTransitionTransfer('in_transit', 'cancelled')).toBe(false);
+    expect(canTransitionTransfer('received', 'cancelled')).toBe(false);
+  });
+
+  it('should not skip steps', () => {
+    expect(canTransitionTransfer('requested', 'in_transit')).toBe(false);
+    expect(canTransitionTransfer('approved', 'received')).toBe(false);
+  });
+});
+
+describe('Stock transfer validation', () => {
+  const storeA = '7b0c5a52-0f43-4d6c-9a1d-4c1e8f3b2a10';
+  const storeB = '1f2e3d4c-5b6a-4789-8abc-def012345678';
+
+  it('should reject transfers to the same store', () => {
+    const result = createTransferSchema.safeParse({
+      fromStoreId: storeA,
+      toStoreId: storeA,
+      items: [{ productId: 'p1', quantity: 2 }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject duplicate products', () => {
+    const result = createTransferSchema.safeParse({
+      fromStoreId: storeA,
+      toStoreId: storeB,
+      items: [
+        { productId: 'p1', quantity: 2 },
+        { productId: 'p1', quantity: 1 },
+      ],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should default receipts to partial', () => {
+    const data = receiveTransferSchema.parse({ items: [{ productId: 'p1', quantity: 1 }] });
+    expect(data.closeShort).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { buildNearbyStoresWhere, pageNearbyStores } from '../services/store.service';
+
+describe('Nearby store search filters', () => {
+  const search = { latitude: 40.7589, longitude: -73.9851, radius: 5, deliversHere: false };
+
+  it('should limit the search to active stores in the radius', () => {
+    const where = buildNearbyStoresWhere(search);
+
+    expect(where.sql).toContain('s."isActive" = true');
+    expect(where.sql).toContain('public.ST_DWithin(s."location"');
+    expect(where.sql).not.toContain('delivery_zones');
+    expect(where.sql).not.toContain('store_inventory');
+    expect(where.values).toEqual([-73.9851, 40.7589, 5000]);
+  });
+
+  it('should check delivery zones, or the delivery radius, when asked', () => {
+    const where = buildNearbyStoresWhere({ ...search, deliversHere: true });
+
+    expect(where.sql).toContain('public.ST_Covers(z."area"');
+    expect(where.sql).toContain('s."deliveryRadius" * 1000');
+  });
+
+  it('should require unreserved stock of the product as a bound value', () => {
+    const where = buildNearbyStoresWhere({ ...search, productId: "milk'); --" });
+
+    expect(where.sql).toContain('i."quantityAvailable" - i."reservedQuantity" > 0');
+    expect(where.sql).not.toContain('milk');
+    expect(where.values).toContain("milk'); --");
+  });
+});
+
+describe('Nearby store paging', () => {
+  const row = (id: number, isOpen: boolean, total = 5) => ({ id: `store-${id}`, isOpen, total });
+
+  it('should take the total from the rows Postgres paged', () => {
+    const rows = [row(3, true), row(4, false)];
+
+    expect(pageNearbyStores(rows, { page: 2, limit: 2, openNow: false })).toEqual({
+      pageRows: rows,
+      total: 5,
+    });
+  });
+
+  it('should leave the total to be counted on an empty page past the first', () => {
+    expect(pageNearbyStores([], { page: 4, limit: 2, openNow: false })).toEqual({
+      pageRows: [],
+      total: null,
+    });
+    expect(pageNearbyStores([], { page: 1, limit: 2, openNow: false })).toEqual({
+      pageRows: [],
+      total: 0,
+    });
+  });
+
+  it('should filter open stores and page them in order', () => {
+    const rows = [row(1, true), row(2, false), row(3, true), row(4, true), row(5, true)];
+
+    const second = pageNearbyStores(rows, { page: 2, limit: 2, openNow: true });
+    expect(second.pageRows.map(entry => entry.id)).toEqual(['store-4', 'store-5']);
+    expect(second.total).toBe(4);
+
+    const past = pageNearbyStores(rows, { page: 3, limit: 2, openNow: true });
+    expect(past.pageRows).toEqual([]);
+    expect(past.total).toBe(4);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  createTaxRateSchema,
+  matchTaxZone,
+  ratesOverlap,
+  selectEffectiveRate,
+} from '../services/tax.service';
+
+describe('Tax zone matching', () => {
+  const zones = [
+    { id: 'us', country: 'US', state: null, zipCodePrefix: null, isActive: true },
+    { id: 'ca', country: 'US', state: 'CA', zipCodePrefix: null, isActive: true },
+    { id: 'la', country: 'US', state: 'CA', zipCodePrefix: '900', isActive: true },
+    { id: 'la-downtown', country: 'US', state: null, zipCodePrefix: '90012', isActive: true },
+    { id: 'ny', country: 'US', state: 'NY', zipCodePrefix: null, isActive: false },
+  ];
+
+  it('should prefer the most specific zone', () => {
+    expect(matchTaxZone(zones, { country: 'us', state: 'ca', zipCode: '94105' })?.id).toBe('ca');
+    expect(matchTaxZone(zones, { country: 'US', state: 'CA', zipCode: '90001' })?.id).toBe('la');
+    expect(matchTaxZone(zones, { country: 'US', state: 'CA', zipCode: '90012' })?.id).toBe(
+      'la-downtown'
+    );
+  });
+
+  it('should fall back to the country zone and skip inactive zones', () => {
+    expect(matchTaxZone(zones, { country: 'US', state: 'NY', zipCode: '10001' })?.id).toBe('us');
+  });
+
+  it('should return null when no zone covers the country', () => {
+    expect(matchTaxZone(zones, { country: 'GH', state: null, zipCode: null })).toBeNull();
+  });
+});
+
+describe('Tax rate effective dates', () => {
+  const rates = [
+    { rate: 0.07, effectiveFrom: new Date('2024-01-01'), effectiveTo: new Date('2025-01-01') },
+    { rate: 0.0725, effectiveFrom: new Date('2025-01-01'), effectiveTo: null },
+  ];
+
+  it('should pick the rate in force at the given moment', () => {
+    expect(selectEffectiveRate(rates, new Date('2024-06-01'))?.rate).toBe(0.07);
+    expect(selectEffectiveRate(rates, new Date('2025-01-01'))?.rate).toBe(0.0725);
+    expect(selectEffectiveRate(rates, new Date('2023-06-01'))).toBeNull();
+  });
+
+  it('should detect overlapping windows', () => {
+    expect(ratesOverlap(rates[0], rates[1])).toBe(false);
+    expect(
+      ratesOverlap(rates[1], { effectiveFrom: new Date('2026-01-01'), effectiveTo: null })
+    ).toBe(true);
+  });
+
+  it('should reject windows that end before they start', () => {
+    const result = createTaxRateSchema.safeParse({
+      rate: 0.05,
+      effectiveFrom: '2025-06-01T00:00:00.000Z',
+      effectiveTo: '2025-01-01T00:00:00.000Z',
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { buildSlots, isSlotBookable } from '../services/time-slot.service';
+
+describe('Slot building', () => {
+  it('should cut the window into whole slots', () => {
+    const slots = buildSlots(
+      {
+        startsAt: new Date('2025-06-16T08:00:00Z'),
+        endsAt: new Date('2025-06-16T09:45:00Z'),
+      },
+      30
+    );
+
+    expect(slots.map(slot => slot.startsAt.toISOString())).toEqual([
+      '2025-06-16T08:00:00.000Z',
+      '2025-06-16T08:30:00.000Z',
+      '2025-06-16T09:00:00.000Z',
+    ]);
+    expect(slots[2].endsAt).toEqual(new Date('2025-06-16T09:30:00Z'));
+  });
+});
+
+describe('Slot booking rules', () => {
+  const now = new Date('2025-06-16T10:00:00Z');
+  const template = { capacity: 2, leadMinutes: 60, daysAhead: 2 };
+  const slotAt = (startsAt: string, booked = 0) => ({
+    startsAt: new Date(startsAt),
+    endsAt: new Date(new Date(startsAt).getTime() + 30 * 60 * 1000),
+    booked,
+  });
+
+  it('should accept a slot with room after the lead time', () => {
+    expect(isSlotBookable(slotAt('2025-06-16T11:00:00Z'), template, now, 'UTC')).toBe(true);
+  });
+
+  it('should refuse full slots', () => {
+    expect(isSlotBookable(slotAt('2025-06-16T12:00:00Z', 2), template, now, 'UTC')).toBe(false);
+  });
+
+  it('should refuse slots inside the lead time', () => {
+    expect(isSlotBookable(slotAt('2025-06-16T10:30:00Z'), template, now, 'UTC')).toBe(false);
+  });
+
+  it('should refuse slots beyond the booking horizon', () => {
+    expect(isSlotBookable(slotAt('2025-06-17T09:00:00Z'), template, now, 'UTC')).toBe(true);
+    expect(isSlotBookable(slotAt('2025-06-18T09:00:00Z'), template, now, 'UTC')).toBe(false);
+  });
+
+  it("should count the horizon in the store's days", () => {
+    // 23:30 UTC on the 17th is already the 18th in Tokyo
+    expect(isSlotBookable(slotAt('2025-06-17T23:30:00Z'), template, now, 'UTC')).toBe(true);
+    expect(isSlotBookable(slotAt('2025-06-17T23:30:00Z'), template, now, 'Asia/Tokyo')).toBe(false);
+  });
+});
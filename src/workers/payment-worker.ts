@@ -0,0 +1,44 @@
+import { Job, Worker } from 'bullmq';
+import { createPaymentWorker } from '../services/queue.service';
+import { OrderService } from '../services/order.service';
+
+const orderService = new OrderService();
+
+async function processPaymentJob(job: Job) {
+  const { orderId } = job.data;
+
+  try {
+    const outcome = await orderService.processOrderPayment(orderId);
+    console.log(`[PaymentWorker] Order ${orderId}: ${outcome}`);
+    return { status: outcome };
+  } catch (error) {
+    const attempts = job.opts.attempts || 1;
+
+    // Out of retries: compensate so the order does not hold stock forever
+    if (job.attemptsMade + 1 >= attempts) {
+      const reason = error instanceof Error ? error.message : 'Payment processing failed';
+      await orderService.compensateFailedPayment(orderId, reason);
+      console.error(`[PaymentWorker] Order ${orderId} failed after ${attempts} attempts:`, error);
+      return { status: 'failed' };
+    }
+
+    console.warn(`[PaymentWorker] Order ${orderId} attempt ${job.attemptsMade + 1} failed:`, error);
+    throw error;
+  }
+}
+
+// Start the payment worker. Runs inside the API process so lifecycle events
+// reach the realtime channels.
+export function startPaymentWorker(): Worker {
+  const worker = createPaymentWorker(processPaymentJob);
+
+  worker.on('error', err => {
+    console.error('[PaymentWorker] Worker error:', err);
+  });
+
+  worker.on('failed', (job, err) => {
+    console.error(`[PaymentWorker] Job ${job?.id} failed:`, err);
+  });
+
+  return worker;
+}
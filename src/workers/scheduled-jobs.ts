@@ -0,0 +1,121 @@
+import { schedulerService } from '../services/scheduler.service';
+import { ReservationService } from '../services/reservation.service';
+import { LowStockAlertService } from '../services/low-stock-alert.service';
+import { StrapiService } from '../services/strapi.service';
+import { CartService } from '../services/cart.service';
+import { BackInStockService } from '../services/back-in-stock.service';
+import { CartRecoveryService } from '../services/cart-recovery.service';
+import { OrderSubstitutionService } from '../services/order-substitution.service';
+import { OrderLifecycleService } from '../services/order-lifecycle.service';
+
+const reservationService = new ReservationService();
+const lowStockAlertService = new LowStockAlertService();
+const strapiService = new StrapiService();
+const cartService = new CartService();
+const backInStockService = new BackInStockService();
+const cartRecoveryService = new CartRecoveryService();
+const substitutionService = new OrderSubstitutionService();
+const lifecycleService = new OrderLifecycleService();
+
+// Register the recurring jobs and start their cron tasks.
+// Set SCHEDULER_ENABLED=false to keep the jobs registered (for metrics and
+// manual runs) without ticking on this instance.
+export function startScheduler() {
+  schedulerService.register({
+    name: 'release-expired-reservations',
+    schedule: process.env.RESERVATION_SWEEP_CRON || '* * * * *',
+    description: 'Expire reservations past their TTL and return the stock',
+    lockTtlMs: 55 * 1000,
+    handler: async () => {
+      const { released } = await reservationService.releaseExpiredReservations();
+      return { released };
+    },
+  });
+
+  schedulerService.register({
+    name: 'cleanup-old-reservations',
+    schedule: process.env.RESERVATION_CLEANUP_CRON || '0 3 * * *',
+    description: 'Delete finished reservations older than seven days',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: async () => {
+      const deleted = await reservationService.cleanupOldReservations();
+      return { deleted };
+    },
+  });
+
+  schedulerService.register({
+    name: 'dispatch-low-stock-alerts',
+    schedule: process.env.LOW_STOCK_ALERT_CRON || '* * * * *',
+    description: 'Notify store managers of new low-stock alerts',
+    lockTtlMs: 55 * 1000,
+    handler: async () => lowStockAlertService.dispatchPendingAlerts(),
+  });
+
+  schedulerService.register({
+    name: 'low-stock-digest',
+    schedule: process.env.LOW_STOCK_DIGEST_CRON || '0 7 * * *',
+    description: 'Send the low-stock digest to managers who opted in',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: async () => lowStockAlertService.sendDigest(),
+  });
+
+  schedulerService.register({
+    name: 'dispatch-back-in-stock',
+    schedule: process.env.BACK_IN_STOCK_DISPATCH_CRON || '* * * * *',
+    description: 'Notify subscribers whose product is back in stock',
+    lockTtlMs: 55 * 1000,
+    handler: async () => backInStockService.dispatchAvailable(),
+  });
+
+  schedulerService.register({
+    name: 'detect-abandoned-carts',
+    schedule: process.env.CART_ABANDONMENT_CRON || '*/15 * * * *',
+    description: 'Send reminders for carts left idle, with a promo code on the last one',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: async () => cartRecoveryService.detectAbandonedCarts(),
+  });
+
+  schedulerService.register({
+    name: 'reconcile-promotions',
+    schedule: process.env.PROMOTION_RECONCILE_CRON || '*/15 * * * *',
+    description: 'Sync banners and promotions from Strapi in case a webhook was missed',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: async () => {
+      await strapiService.reconcileAll('banners');
+      await strapiService.reconcileAll('promotions');
+    },
+  });
+
+  schedulerService.register({
+    name: 'purge-guest-carts',
+    schedule: process.env.GUEST_CART_PURGE_CRON || '30 3 * * *',
+    description: 'Delete guest carts whose cart token has expired',
+    lockTtlMs: 10 * 60 * 1000,
+    handler: async () => {
+      const deleted = await cartService.purgeStaleGuestCarts();
+      return { deleted };
+    },
+  });
+
+  schedulerService.register({
+    name: 'retry-adjustment-refunds',
+    schedule: process.env.ADJUSTMENT_REFUND_RETRY_CRON || '*/10 * * * *',
+    description: 'Retry refunds that failed on short picks and substitutions',
+    lockTtlMs: 5 * 60 * 1000,
+    handler: async () => substitutionService.retryDueRefunds(),
+  });
+
+  schedulerService.register({
+    name: 'retry-order-cleanups',
+    schedule: process.env.ORDER_CLEANUP_RETRY_CRON || '*/5 * * * *',
+    description: 'Finish releasing stock, promotions, slots and refunds of cancelled orders',
+    lockTtlMs: 4 * 60 * 1000,
+    handler: async () => lifecycleService.retryPendingCleanups(),
+  });
+
+  if (process.env.SCHEDULER_ENABLED !== 'false') {
+    schedulerService.start();
+  }
+
+  return schedulerService;
+}
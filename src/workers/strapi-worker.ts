@@ -2,6 +2,12 @@ import { createStrapiEventWorker } from '../services/queue.service';
 import prisma from '../db/prisma';
 import { QueueEvents, Queue } from 'bullmq';
 import { strapiEventQueue } from '../services/queue.service';
+import { InventoryMovementService } from '../services/inventory-movement.service';
+import { BackInStockService } from '../services/back-in-stock.service';
+import { toPromotionRecord } from '../services/promotion.service';
+
+const movementService = new InventoryMovementService();
+const backInStockService = new BackInStockService();
 
 async function processInventoryEvent(tx: any, payload: any) {
   const { data } = payload;
@@ -9,7 +15,8 @@ async function processInventoryEvent(tx: any, payload: any) {
   // Find local product by strapiId
   const product = await tx.product.findUnique({ where: { strapiId: parseInt(attrs.productId, 10) } });
   if (!product) throw new Error(`Product with strapiId ${attrs.productId} not found`);
-  await tx.storeInventory.upsert({
+  // Ensure the row exists, then sync stock levels through the movement ledger
+  const inventory = await tx.storeInventory.upsert({
     where: {
       storeId_productId: {
         storeId: attrs.storeId,
@@ -17,8 +24,6 @@ async function processInventoryEvent(tx: any, payload: any) {
       },
     },
     update: {
-      quantityAvailable: attrs.quantityAvailable,
-      reservedQuantity: attrs.reservedQuantity || 0,
       isAvailable: attrs.isAvailable !== undefined ? attrs.isAvailable : true,
       priceOverride: attrs.priceOverride ? Number(attrs.priceOverride) : null,
       lastRestocked: attrs.lastRestocked ? new Date(attrs.lastRestocked) : null,
@@ -27,13 +32,25 @@ async function processInventoryEvent(tx: any, payload: any) {
     create: {
       storeId: attrs.storeId,
       productId: product.id,
-      quantityAvailable: attrs.quantityAvailable,
-      reservedQuantity: attrs.reservedQuantity || 0,
+      quantityAvailable: 0,
+      reservedQuantity: 0,
       isAvailable: attrs.isAvailable !== undefined ? attrs.isAvailable : true,
       priceOverride: attrs.priceOverride ? Number(attrs.priceOverride) : null,
       lastRestocked: attrs.lastRestocked ? new Date(attrs.lastRestocked) : null,
     },
   });
+  await movementService.setLevels(tx, {
+    inventoryId: inventory.id,
+    quantityAvailable: attrs.quantityAvailable,
+    // Reservations are tracked locally; only take Strapi's figure when it sends one
+    reservedQuantity: attrs.reservedQuantity,
+    reason: 'webhook_sync',
+    actor: { role: 'webhook' },
+    note: `Strapi inventory ${data.id}`,
+  });
+  // Relisting an item can make it sellable without any stock change
+  const current = await tx.storeInventory.findUnique({ where: { id: inventory.id } });
+  await backInStockService.markAvailable(tx, current);
 }
 
 async function processProductEvent(tx: any, payload: any) {
@@ -63,29 +80,21 @@ async function processProductEvent(tx: any, payload: any) {
 }
 
 async function processPromotionEvent(tx: any, payload: any) {
-  const { data } = payload;
-  const attrs = data.attributes;
+  const { data, event } = payload;
+  const record = toPromotionRecord(data.attributes);
+  // Deleted or unpublished promotions stay on record for past redemptions, but stop validating
+  if (event === 'entry.delete' || event === 'entry.unpublish') {
+    record.isActive = false;
+  }
   await tx.promotion.upsert({
     where: { strapiId: data.id },
     update: {
-      name: attrs.name,
-      description: attrs.description || '',
-      discountType: attrs.discountType,
-      discountValue: Number(attrs.discountValue),
-      isActive: attrs.isActive !== undefined ? attrs.isActive : true,
-      startDate: attrs.startDate ? new Date(attrs.startDate) : null,
-      endDate: attrs.endDate ? new Date(attrs.endDate) : null,
+      ...record,
       updatedAt: new Date(),
     },
     create: {
       strapiId: data.id,
-      name: attrs.name,
-      description: attrs.description || '',
-      discountType: attrs.discountType,
-      discountValue: Number(attrs.discountValue),
-      isActive: attrs.isActive !== undefined ? attrs.isActive : true,
-      startDate: attrs.startDate ? new Date(attrs.startDate) : null,
-      endDate: attrs.endDate ? new Date(attrs.endDate) : null,
+      ...record,
     },
   });
 }